@@ -1,5 +1,6 @@
 import { EPSILON, approxEqual } from './constants';
 import { Vec3 } from './Vec3';
+import type { Mat4 } from './Mat4';
 
 export class AABB {
   min: Vec3;
@@ -98,7 +99,8 @@ export class AABB {
     if (other.max.z < this.max.z) this.max.z = other.max.z;
     return this;
   }
-yScalar(s: number): this {
+
+  expandByScalar(s: number): this {
     this.min.x -= s;
     this.min.y -= s;
     this.min.z -= s;
@@ -122,6 +124,69 @@ yScalar(s: number): this {
     return this.translate(v.x, v.y, v.z);
   }
 
+  /** Transform this box in place — see {@link transformMat4}. */
+  applyMat4(m: Mat4): boolean {
+    return this.transformMat4(m, this);
+  }
+
+  /**
+   * Bounds of this box transformed by `m`, written to `out` (may be this box).
+   *
+   * Affine `m` (bottom row 0, 0, 0, 1) uses Arvo's method — new extents are |M₃ₓ₃| times
+   * the old ones — which is exact, not just conservative. Projective `m` falls back to the
+   * eight corners with a perspective divide. Returns false when a corner has w ≤ 0 (the box
+   * reaches the camera plane): the divided corners no longer bound the box, so `out` is
+   * set to the infinite box and callers should treat it as visible/unbounded.
+   * An empty box stays empty.
+   */
+  transformMat4(m: Mat4, out: AABB): boolean {
+    if (this.isEmpty()) {
+      out.setEmpty();
+      return true;
+    }
+
+    const minX = this.min.x, minY = this.min.y, minZ = this.min.z;
+    const maxX = this.max.x, maxY = this.max.y, maxZ = this.max.z;
+
+    if (m.m03 === 0 && m.m07 === 0 && m.m11 === 0 && m.m15 === 1) {
+      const cx: number = (minX + maxX) * 0.5, cy: number = (minY + maxY) * 0.5, cz: number = (minZ + maxZ) * 0.5;
+      const ex: number = (maxX - minX) * 0.5, ey: number = (maxY - minY) * 0.5, ez: number = (maxZ - minZ) * 0.5;
+
+      const ncx: number = m.m00 * cx + m.m04 * cy + m.m08 * cz + m.m12;
+      const ncy: number = m.m01 * cx + m.m05 * cy + m.m09 * cz + m.m13;
+      const ncz: number = m.m02 * cx + m.m06 * cy + m.m10 * cz + m.m14;
+      const nex: number = Math.abs(m.m00) * ex + Math.abs(m.m04) * ey + Math.abs(m.m08) * ez;
+      const ney: number = Math.abs(m.m01) * ex + Math.abs(m.m05) * ey + Math.abs(m.m09) * ez;
+      const nez: number = Math.abs(m.m02) * ex + Math.abs(m.m06) * ey + Math.abs(m.m10) * ez;
+
+      out.set(ncx - nex, ncy - ney, ncz - nez, ncx + nex, ncy + ney, ncz + nez);
+      return true;
+    }
+
+    let oMinX: number = Infinity, oMinY: number = Infinity, oMinZ: number = Infinity;
+    let oMaxX: number = -Infinity, oMaxY: number = -Infinity, oMaxZ: number = -Infinity;
+    for (let i = 0; i < 8; i++) {
+      const x: number = i & 1 ? maxX : minX;
+      const y: number = i & 2 ? maxY : minY;
+      const z: number = i & 4 ? maxZ : minZ;
+      const w: number = m.m03 * x + m.m07 * y + m.m11 * z + m.m15;
+      if (w <= EPSILON) {
+        out.set(-Infinity, -Infinity, -Infinity, Infinity, Infinity, Infinity);
+        return false;
+      }
+      const invW: number = 1.0 / w;
+      const px: number = (m.m00 * x + m.m04 * y + m.m08 * z + m.m12) * invW;
+      const py: number = (m.m01 * x + m.m05 * y + m.m09 * z + m.m13) * invW;
+      const pz: number = (m.m02 * x + m.m06 * y + m.m10 * z + m.m14) * invW;
+      if (px < oMinX) oMinX = px; if (px > oMaxX) oMaxX = px;
+      if (py < oMinY) oMinY = py; if (py > oMaxY) oMaxY = py;
+      if (pz < oMinZ) oMinZ = pz; if (pz > oMaxZ) oMaxZ = pz;
+    }
+
+    out.set(oMinX, oMinY, oMinZ, oMaxX, oMaxY, oMaxZ);
+    return true;
+  }
+
   setFromCenterExtents(cx: number, cy: number, cz: number, ex: number, ey: number, ez: number): this {
     this.min.set(cx - ex, cy - ey, cz - ez);
     this.max.set(cx + ex, cy + ey, cz + ez);
@@ -0,0 +1,463 @@
+import { AABB } from './AABB';
+import { RayHit } from './RayHit';
+import type { Vec3 } from './Vec3';
+import type { Ray } from './Ray';
+import type { Frustum } from './Frustum';
+
+/**
+ * Narrow-phase ray test for one primitive. Fill `out` and return true only for a hit with
+ * t in [0, tMax] — e.g. `ray.intersectTriangleHit(v0, v1, v2, out, false, 0, tMax)`.
+ */
+export type BVHRayCallback = (id: number, ray: Ray, tMax: number, out: RayHit) => boolean;
+
+/** Overlap query visitor. Return false to stop the query early. */
+export type BVHQueryCallback = (id: number) => boolean | void;
+
+const BIN_COUNT = 12;
+const MAX_LEAF_SIZE = 16;
+/** Cost of one node visit relative to one primitive test, for the SAH split decision. */
+const TRAVERSAL_COST = 1.0;
+
+/**
+ * Static bounding volume hierarchy over AABBs, built top-down with binned
+ * surface-area-heuristic splits (12 bins per axis).
+ *
+ * Nodes live in flat typed arrays — `nodeBounds` (6 floats: min xyz, max xyz) and
+ * `nodeData` (2 ints: offset, count). A leaf has count > 0 and owns `primIds[offset ..
+ * offset + count)`; an inner node has count 0 and children `offset` and `offset + 1`.
+ * Queries walk an explicit stack sized at build time, so they do not allocate.
+ *
+ * Rebuild (or build a new one) when primitives move; this is for static geometry.
+ * Queries share scratch state, so callbacks must not start another BVH query.
+ */
+export class BVH {
+  nodeBounds: Float64Array;
+  nodeData: Int32Array;
+  nodeCount: number;
+  /** User ids in leaf order. */
+  primIds: Int32Array;
+  /** Primitive boxes in leaf order (6 floats each), for leaf-level tests. */
+  primBounds: Float64Array;
+
+  private stack: Int32Array;
+
+  constructor() {
+    this.nodeBounds = new Float64Array(0);
+    this.nodeData = new Int32Array(0);
+    this.nodeCount = 0;
+    this.primIds = new Int32Array(0);
+    this.primBounds = new Float64Array(0);
+    this.stack = new Int32Array(0);
+  }
+
+  /** See {@link build}. */
+  static fromAABBs(boxes: AABB[], ids: ArrayLike<number> | null = null): BVH {
+    return new BVH().build(boxes, ids);
+  }
+
+  get primCount(): number {
+    return this.primIds.length;
+  }
+
+  /**
+   * Build over `boxes`; `ids[i]` (default: i) is reported for `boxes[i]`. Empty boxes are
+   * skipped. Replaces any previous contents.
+   */
+  build(boxes: AABB[], ids: ArrayLike<number> | null = null): this {
+    let n = 0;
+    for (let i = 0; i < boxes.length; i++) {
+      if (!boxes[i].isEmpty()) n++;
+    }
+
+    const order = new Int32Array(n);
+    const bounds = new Float64Array(n * 6);
+    const centroids = new Float64Array(n * 3);
+    const sourceIds = new Int32Array(n);
+    for (let i = 0, k = 0; i < boxes.length; i++) {
+      const b = boxes[i];
+      if (b.isEmpty()) continue;
+      order[k] = k;
+      bounds[k * 6 + 0] = b.min.x; bounds[k * 6 + 1] = b.min.y; bounds[k * 6 + 2] = b.min.z;
+      bounds[k * 6 + 3] = b.max.x; bounds[k * 6 + 4] = b.max.y; bounds[k * 6 + 5] = b.max.z;
+      centroids[k * 3 + 0] = (b.min.x + b.max.x) * 0.5;
+      centroids[k * 3 + 1] = (b.min.y + b.max.y) * 0.5;
+      centroids[k * 3 + 2] = (b.min.z + b.max.z) * 0.5;
+      sourceIds[k] = ids === null ? i : ids[i];
+      k++;
+    }
+
+    const capacity = n > 0 ? 2 * n - 1 : 0;
+    this.nodeBounds = new Float64Array(capacity * 6);
+    this.nodeData = new Int32Array(capacity * 2);
+    this.nodeCount = 0;
+
+    let maxDepth = 0;
+    if (n > 0) {
+      this.nodeCount = 1;
+      maxDepth = this.buildNode(0, 0, n, order, bounds, centroids, 0);
+    }
+
+    // Reorder primitives to leaf order
+    this.primIds = new Int32Array(n);
+    this.primBounds = new Float64Array(n * 6);
+    for (let i = 0; i < n; i++) {
+      const p = order[i];
+      this.primIds[i] = sourceIds[p];
+      for (let j = 0; j < 6; j++) this.primBounds[i * 6 + j] = bounds[p * 6 + j];
+    }
+
+    // Depth-first traversal holds at most one pending sibling per level
+    this.stack = new Int32Array(maxDepth + 2);
+    return this;
+  }
+
+  /** Root bounds (empty for an empty tree). */
+  getBounds(out: AABB | null = null): AABB {
+    if (out === null) out = new AABB();
+    if (this.nodeCount === 0) return out.setEmpty();
+    const b = this.nodeBounds;
+    return out.set(b[0], b[1], b[2], b[3], b[4], b[5]);
+  }
+
+  /**
+   * Closest hit along `ray` within [0, tMax]. Without `narrowPhase` the primitive boxes
+   * themselves are hit (see `Ray.intersectAABBHit`). Returns the id (`out` filled), or -1.
+   */
+  raycast(ray: Ray, out: RayHit, narrowPhase: BVHRayCallback | null = null, tMax: number = Infinity): number {
+    return this.traverseRay(ray, out, narrowPhase, tMax, false);
+  }
+
+  /** Any hit within [0, tMax] — for shadow rays and line of sight. Returns an id or -1. */
+  raycastAny(ray: Ray, narrowPhase: BVHRayCallback | null = null, tMax: number = Infinity): number {
+    return this.traverseRay(ray, _anyHit, narrowPhase, tMax, true);
+  }
+
+  /** Report the ids of primitives whose boxes overlap `aabb`. Returns the number reported. */
+  queryAABB(aabb: AABB, callback: BVHQueryCallback): number {
+    return this.query(QUERY_AABB, aabb, null, 0, null, callback);
+  }
+
+  /** Report the ids of primitives whose boxes overlap the sphere. Returns the number reported. */
+  querySphere(center: Vec3, radius: number, callback: BVHQueryCallback): number {
+    return this.query(QUERY_SPHERE, null, center, radius, null, callback);
+  }
+
+  /**
+   * Report the ids of primitives whose boxes pass `Frustum.intersectsAABB` (conservative
+   * near frustum corners). Returns the number reported.
+   */
+  queryFrustum(frustum: Frustum, callback: BVHQueryCallback): number {
+    return this.query(QUERY_FRUSTUM, null, null, 0, frustum, callback);
+  }
+
+  private buildNode(
+    node: number, start: number, end: number,
+    order: Int32Array, bounds: Float64Array, centroids: Float64Array, depth: number
+  ): number {
+    const nb = this.nodeBounds;
+    const o = node * 6;
+
+    // Node bounds and centroid bounds
+    let minX = Infinity, minY = Infinity, minZ = Infinity, maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
+    let cMinX = Infinity, cMinY = Infinity, cMinZ = Infinity, cMaxX = -Infinity, cMaxY = -Infinity, cMaxZ = -Infinity;
+    for (let i = start; i < end; i++) {
+      const p = order[i];
+      const b = p * 6, c = p * 3;
+      if (bounds[b + 0] < minX) minX = bounds[b + 0];
+      if (bounds[b + 1] < minY) minY = bounds[b + 1];
+      if (bounds[b + 2] < minZ) minZ = bounds[b + 2];
+      if (bounds[b + 3] > maxX) maxX = bounds[b + 3];
+      if (bounds[b + 4] > maxY) maxY = bounds[b + 4];
+      if (bounds[b + 5] > maxZ) maxZ = bounds[b + 5];
+      if (centroids[c + 0] < cMinX) cMinX = centroids[c + 0];
+      if (centroids[c + 1] < cMinY) cMinY = centroids[c + 1];
+      if (centroids[c + 2] < cMinZ) cMinZ = centroids[c + 2];
+      if (centroids[c + 0] > cMaxX) cMaxX = centroids[c + 0];
+      if (centroids[c + 1] > cMaxY) cMaxY = centroids[c + 1];
+      if (centroids[c + 2] > cMaxZ) cMaxZ = centroids[c + 2];
+    }
+    nb[o + 0] = minX; nb[o + 1] = minY; nb[o + 2] = minZ;
+    nb[o + 3] = maxX; nb[o + 4] = maxY; nb[o + 5] = maxZ;
+
+    const count = end - start;
+    if (count === 1) {
+      return this.makeLeaf(node, start, count, depth);
+    }
+
+    // Binned SAH over all three axes
+    let bestCost = Infinity, bestAxis = -1, bestSplit = 0;
+    for (let axis = 0; axis < 3; axis++) {
+      const cMin = axis === 0 ? cMinX : (axis === 1 ? cMinY : cMinZ);
+      const cMax = axis === 0 ? cMaxX : (axis === 1 ? cMaxY : cMaxZ);
+      if (cMax - cMin <= 0) continue;
+      const scale = BIN_COUNT / (cMax - cMin);
+
+      _binCounts.fill(0);
+      _binBounds.fill(Infinity);
+      for (let b = 0; b < BIN_COUNT; b++) {
+        _binBounds[b * 6 + 3] = -Infinity; _binBounds[b * 6 + 4] = -Infinity; _binBounds[b * 6 + 5] = -Infinity;
+      }
+      for (let i = start; i < end; i++) {
+        const p = order[i];
+        const bin = binIndex(centroids[p * 3 + axis], cMin, scale);
+        _binCounts[bin]++;
+        growBounds(_binBounds, bin * 6, bounds, p * 6);
+      }
+
+      // Suffix sweep: area and count right of each split plane
+      resetBounds(_sweep, 0);
+      let rightCount = 0;
+      for (let b = BIN_COUNT - 1; b > 0; b--) {
+        growBounds(_sweep, 0, _binBounds, b * 6);
+        rightCount += _binCounts[b];
+        _rightArea[b - 1] = rightCount > 0 ? surfaceArea(_sweep, 0) : 0;
+        _rightCount[b - 1] = rightCount;
+      }
+
+      // Prefix sweep: evaluate each split plane
+      resetBounds(_sweep, 0);
+      let leftCount = 0;
+      for (let b = 0; b < BIN_COUNT - 1; b++) {
+        growBounds(_sweep, 0, _binBounds, b * 6);
+        leftCount += _binCounts[b];
+        if (leftCount === 0 || _rightCount[b] === 0) continue;
+        const cost = leftCount * surfaceArea(_sweep, 0) + _rightCount[b] * _rightArea[b];
+        if (cost < bestCost) {
+          bestCost = cost;
+          bestAxis = axis;
+          bestSplit = b;
+        }
+      }
+    }
+
+    const area = surfaceArea(nb, o);
+    const leafCost = count * area;
+    const splitCost = TRAVERSAL_COST * area + bestCost;
+    if (count <= MAX_LEAF_SIZE && (bestAxis < 0 || leafCost <= splitCost)) {
+      return this.makeLeaf(node, start, count, depth);
+    }
+
+    let mid: number;
+    if (bestAxis < 0) {
+      // All centroids coincide — split the range in half
+      mid = start + (count >> 1);
+    } else {
+      const cMin = bestAxis === 0 ? cMinX : (bestAxis === 1 ? cMinY : cMinZ);
+      const cMax = bestAxis === 0 ? cMaxX : (bestAxis === 1 ? cMaxY : cMaxZ);
+      const scale = BIN_COUNT / (cMax - cMin);
+      let i = start, j = end - 1;
+      while (i <= j) {
+        if (binIndex(centroids[order[i] * 3 + bestAxis], cMin, scale) <= bestSplit) {
+          i++;
+        } else {
+          const tmp = order[i]; order[i] = order[j]; order[j] = tmp;
+          j--;
+        }
+      }
+      mid = i;
+    }
+
+    const left = this.nodeCount;
+    this.nodeCount += 2;
+    this.nodeData[node * 2] = left;
+    this.nodeData[node * 2 + 1] = 0;
+
+    const dl = this.buildNode(left, start, mid, order, bounds, centroids, depth + 1);
+    const dr = this.buildNode(left + 1, mid, end, order, bounds, centroids, depth + 1);
+    return dl > dr ? dl : dr;
+  }
+
+  private makeLeaf(node: number, start: number, count: number, depth: number): number {
+    this.nodeData[node * 2] = start;
+    this.nodeData[node * 2 + 1] = count;
+    return depth;
+  }
+
+  private traverseRay(
+    ray: Ray, out: RayHit, narrowPhase: BVHRayCallback | null, tMax: number, any: boolean
+  ): number {
+    if (this.nodeCount === 0) return -1;
+
+    const ox = ray.origin.x, oy = ray.origin.y, oz = ray.origin.z;
+    const invDx = ray.direction.x == 0 ? Infinity : 1.0 / ray.direction.x;
+    const invDy = ray.direction.y == 0 ? Infinity : 1.0 / ray.direction.y;
+    const invDz = ray.direction.z == 0 ? Infinity : 1.0 / ray.direction.z;
+
+    const nb = this.nodeBounds, nd = this.nodeData, stack = this.stack;
+    let best = tMax;
+    let bestId = -1;
+
+    if (slabEntry(nb, 0, ox, oy, oz, invDx, invDy, invDz, best) < 0) return -1;
+    let sp = 0;
+    stack[sp++] = 0;
+
+    while (sp > 0) {
+      const node = stack[--sp];
+      const offset = nd[node * 2], count = nd[node * 2 + 1];
+
+      if (count > 0) {
+        for (let i = offset; i < offset + count; i++) {
+          const id = this.primIds[i];
+          let hit: boolean;
+          if (narrowPhase !== null) {
+            hit = narrowPhase(id, ray, best, _candidate);
+          } else {
+            _primBox.set(
+              this.primBounds[i * 6], this.primBounds[i * 6 + 1], this.primBounds[i * 6 + 2],
+              this.primBounds[i * 6 + 3], this.primBounds[i * 6 + 4], this.primBounds[i * 6 + 5]
+            );
+            hit = ray.intersectAABBHit(_primBox, _candidate) && _candidate.t <= best;
+          }
+          if (hit) {
+            best = _candidate.t;
+            bestId = id;
+            out.copy(_candidate);
+            if (any) return id;
+          }
+        }
+        continue;
+      }
+
+      // Visit the nearer child first; skip children beyond the closest hit so far
+      const tl = slabEntry(nb, offset * 6, ox, oy, oz, invDx, invDy, invDz, best);
+      const tr = slabEntry(nb, (offset + 1) * 6, ox, oy, oz, invDx, invDy, invDz, best);
+      if (tl >= 0 && tr >= 0) {
+        if (tl <= tr) {
+          stack[sp++] = offset + 1;
+          stack[sp++] = offset;
+        } else {
+          stack[sp++] = offset;
+          stack[sp++] = offset + 1;
+        }
+      } else if (tl >= 0) {
+        stack[sp++] = offset;
+      } else if (tr >= 0) {
+        stack[sp++] = offset + 1;
+      }
+    }
+
+    return bestId;
+  }
+
+  private query(
+    kind: number, aabb: AABB | null, center: Vec3 | null, radius: number,
+    frustum: Frustum | null, callback: BVHQueryCallback
+  ): number {
+    if (this.nodeCount === 0) return 0;
+
+    const nd = this.nodeData, stack = this.stack;
+    let reported = 0;
+    let sp = 0;
+    stack[sp++] = 0;
+
+    while (sp > 0) {
+      const node = stack[--sp];
+      if (!overlaps(kind, this.nodeBounds, node * 6, aabb, center, radius, frustum)) continue;
+
+      const offset = nd[node * 2], count = nd[node * 2 + 1];
+      if (count === 0) {
+        stack[sp++] = offset + 1;
+        stack[sp++] = offset;
+        continue;
+      }
+
+      for (let i = offset; i < offset + count; i++) {
+        if (!overlaps(kind, this.primBounds, i * 6, aabb, center, radius, frustum)) continue;
+        reported++;
+        if (callback(this.primIds[i]) === false) return reported;
+      }
+    }
+
+    return reported;
+  }
+}
+
+const QUERY_AABB = 0;
+const QUERY_SPHERE = 1;
+const QUERY_FRUSTUM = 2;
+
+// Build and traversal scratch
+const _binCounts = new Int32Array(BIN_COUNT);
+const _binBounds = new Float64Array(BIN_COUNT * 6);
+const _rightArea = new Float64Array(BIN_COUNT - 1);
+const _rightCount = new Int32Array(BIN_COUNT - 1);
+const _sweep = new Float64Array(6);
+const _candidate = new RayHit();
+const _anyHit = new RayHit();
+const _primBox = new AABB();
+
+function binIndex(c: number, cMin: number, scale: number): number {
+  const b = Math.floor((c - cMin) * scale);
+  return b < BIN_COUNT ? b : BIN_COUNT - 1;
+}
+
+function resetBounds(dst: Float64Array, d: number): void {
+  dst[d + 0] = Infinity; dst[d + 1] = Infinity; dst[d + 2] = Infinity;
+  dst[d + 3] = -Infinity; dst[d + 4] = -Infinity; dst[d + 5] = -Infinity;
+}
+
+function growBounds(dst: Float64Array, d: number, src: Float64Array, s: number): void {
+  if (src[s + 0] < dst[d + 0]) dst[d + 0] = src[s + 0];
+  if (src[s + 1] < dst[d + 1]) dst[d + 1] = src[s + 1];
+  if (src[s + 2] < dst[d + 2]) dst[d + 2] = src[s + 2];
+  if (src[s + 3] > dst[d + 3]) dst[d + 3] = src[s + 3];
+  if (src[s + 4] > dst[d + 4]) dst[d + 4] = src[s + 4];
+  if (src[s + 5] > dst[d + 5]) dst[d + 5] = src[s + 5];
+}
+
+/** Same formula as `AABB.getSurfaceArea`, on a packed box. */
+function surfaceArea(b: Float64Array, o: number): number {
+  const sx = b[o + 3] - b[o + 0];
+  const sy = b[o + 4] - b[o + 1];
+  const sz = b[o + 5] - b[o + 2];
+  return 2.0 * (sx * sy + sy * sz + sz * sx);
+}
+
+/** Entry distance of the ray into a packed box (0 when inside), or -1 when missed or beyond `tMax`. */
+function slabEntry(
+  b: Float64Array, o: number,
+  ox: number, oy: number, oz: number, invDx: number, invDy: number, invDz: number, tMax: number
+): number {
+  const t1 = (b[o + 0] - ox) * invDx, t2 = (b[o + 3] - ox) * invDx;
+  const t3 = (b[o + 1] - oy) * invDy, t4 = (b[o + 4] - oy) * invDy;
+  const t5 = (b[o + 2] - oz) * invDz, t6 = (b[o + 5] - oz) * invDz;
+
+  let tmin = t1 < t2 ? t1 : t2;
+  let tmax = t1 > t2 ? t1 : t2;
+  const tmin2 = t3 < t4 ? t3 : t4, tmax2 = t3 > t4 ? t3 : t4;
+  const tmin3 = t5 < t6 ? t5 : t6, tmax3 = t5 > t6 ? t5 : t6;
+  if (tmin2 > tmin) tmin = tmin2;
+  if (tmin3 > tmin) tmin = tmin3;
+  if (tmax2 < tmax) tmax = tmax2;
+  if (tmax3 < tmax) tmax = tmax3;
+
+  if (tmax < 0 || tmin > tmax || tmin > tMax) return -1;
+  return tmin > 0 ? tmin : 0;
+}
+
+function overlaps(
+  kind: number, b: Float64Array, o: number,
+  aabb: AABB | null, center: Vec3 | null, radius: number, frustum: Frustum | null
+): boolean {
+  if (kind === QUERY_AABB) {
+    const q = aabb as AABB;
+    return b[o + 0] <= q.max.x && b[o + 3] >= q.min.x &&
+           b[o + 1] <= q.max.y && b[o + 4] >= q.min.y &&
+           b[o + 2] <= q.max.z && b[o + 5] >= q.min.z;
+  }
+
+  if (kind === QUERY_SPHERE) {
+    const c = center as Vec3;
+    let distSq = 0;
+    if (c.x < b[o + 0]) distSq += (b[o + 0] - c.x) * (b[o + 0] - c.x);
+    else if (c.x > b[o + 3]) distSq += (c.x - b[o + 3]) * (c.x - b[o + 3]);
+    if (c.y < b[o + 1]) distSq += (b[o + 1] - c.y) * (b[o + 1] - c.y);
+    else if (c.y > b[o + 4]) distSq += (c.y - b[o + 4]) * (c.y - b[o + 4]);
+    if (c.z < b[o + 2]) distSq += (b[o + 2] - c.z) * (b[o + 2] - c.z);
+    else if (c.z > b[o + 5]) distSq += (c.z - b[o + 5]) * (c.z - b[o + 5]);
+    return distSq <= radius * radius;
+  }
+
+  _primBox.set(b[o + 0], b[o + 1], b[o + 2], b[o + 3], b[o + 4], b[o + 5]);
+  return (frustum as Frustum).intersectsAABB(_primBox);
+}
@@ -0,0 +1,292 @@
+import { EPSILON } from './constants';
+import { Vec3 } from './Vec3';
+import { Quat } from './Quat';
+import { Mat4 } from './Mat4';
+
+/**
+ * Unit dual quaternion `real + ε·dual` — a rigid transform (rotation then translation)
+ * that blends without the volume loss of linear blend skinning. `real` is the rotation;
+ * `dual` = ½·(t, 0)·real encodes the translation t. Scale and shear are not representable.
+ */
+export class DualQuat {
+  real: Quat;
+  dual: Quat;
+
+  constructor() {
+    // Identity by default
+    this.real = new Quat(0, 0, 0, 1);
+    this.dual = new Quat(0, 0, 0, 0);
+  }
+
+  static identity(): DualQuat {
+    return new DualQuat();
+  }
+
+  static fromRotationTranslation(q: Quat, t: Vec3, out: DualQuat | null = null): DualQuat {
+    if (out === null) out = new DualQuat();
+    return out.setFromRotationTranslation(q, t);
+  }
+
+  /** Rigid part of `m` — see {@link setFromMat4}. */
+  static fromMat4(m: Mat4, out: DualQuat | null = null): DualQuat {
+    if (out === null) out = new DualQuat();
+    return out.setFromMat4(m);
+  }
+
+  setIdentity(): this {
+    this.real.set(0, 0, 0, 1);
+    this.dual.set(0, 0, 0, 0);
+    return this;
+  }
+
+  copy(src: DualQuat): this {
+    this.real.copy(src.real);
+    this.dual.copy(src.dual);
+    return this;
+  }
+
+  clone(): DualQuat {
+    return new DualQuat().copy(this);
+  }
+
+  /** Rotate by unit `q`, then translate by `t`. */
+  setFromRotationTranslation(q: Quat, t: Vec3): this {
+    const qx = q.x, qy = q.y, qz = q.z, qw = q.w;
+    const tx = t.x, ty = t.y, tz = t.z;
+
+    this.real.set(qx, qy, qz, qw);
+    // ½·(t, 0)·q
+    this.dual.set(
+      0.5 * (tx * qw + ty * qz - tz * qy),
+      0.5 * (ty * qw + tz * qx - tx * qz),
+      0.5 * (tz * qw + tx * qy - ty * qx),
+      -0.5 * (tx * qx + ty * qy + tz * qz)
+    );
+    return this;
+  }
+
+  /**
+   * Rotation and translation of affine `m`. Scale is divided out of the rotation as in
+   * `Quat.setFromRotationMatrix` and otherwise dropped — skinning palettes with scaled
+   * joints need a separate scale pass.
+   */
+  setFromMat4(m: Mat4): this {
+    _q.setFromRotationMatrix(m);
+    _t.set(m.m12, m.m13, m.m14);
+    return this.setFromRotationTranslation(_q, _t);
+  }
+
+  getTranslation(out: Vec3 | null = null): Vec3 {
+    if (out === null) out = new Vec3();
+
+    // t = 2·dual·conj(real)
+    const rx = this.real.x, ry = this.real.y, rz = this.real.z, rw = this.real.w;
+    const dx = this.dual.x, dy = this.dual.y, dz = this.dual.z, dw = this.dual.w;
+    out.x = 2 * (rw * dx - dw * rx + ry * dz - rz * dy);
+    out.y = 2 * (rw * dy - dw * ry + rz * dx - rx * dz);
+    out.z = 2 * (rw * dz - dw * rz + rx * dy - ry * dx);
+    return out;
+  }
+
+  toMat4(out: Mat4 | null = null): Mat4 {
+    out = Mat4.fromQuat(this.real, out);
+    this.getTranslation(_t);
+    out.m12 = _t.x;
+    out.m13 = _t.y;
+    out.m14 = _t.z;
+    return out;
+  }
+
+  multiply(b: DualQuat): this {
+    DualQuat.multiply(this, b, this);
+    return this;
+  }
+
+  premultiply(b: DualQuat): this {
+    DualQuat.multiply(b, this, this);
+    return this;
+  }
+
+  /**
+   * Make this a unit dual quaternion: |real| = 1 and real·dual = 0. Needed after blending
+   * or long chains of products; a zero real part is left unchanged.
+   */
+  normalize(): this {
+    const r = this.real, d = this.dual;
+    const len: number = r.length();
+    if (len < EPSILON) return this;
+
+    const inv: number = 1.0 / len;
+    r.set(r.x * inv, r.y * inv, r.z * inv, r.w * inv);
+    d.set(d.x * inv, d.y * inv, d.z * inv, d.w * inv);
+
+    // Remove the dual component along real
+    const k: number = r.x * d.x + r.y * d.y + r.z * d.z + r.w * d.w;
+    d.set(d.x - r.x * k, d.y - r.y * k, d.z - r.z * k, d.w - r.w * k);
+    return this;
+  }
+
+  /** Quaternion conjugate of both parts — the inverse of a unit dual quaternion. */
+  conjugate(): this {
+    this.real.conjugate();
+    this.dual.conjugate();
+    return this;
+  }
+
+  transformVec3(v: Vec3, out: Vec3 | null = null): Vec3 {
+    if (out === null) out = new Vec3();
+    this.getTranslation(_t);
+    this.real.transformVec3(v, out);
+    out.x += _t.x;
+    out.y += _t.y;
+    out.z += _t.z;
+    return out;
+  }
+
+  /**
+   * Screw linear interpolation towards `b`: a constant-speed rotation about, and
+   * translation along, one screw axis — the rigid-motion analogue of slerp. Takes the
+   * shorter way round (b is flipped when the real parts point apart).
+   */
+  sclerp(b: DualQuat, t: number): this {
+    // diff = this⁻¹ · b, with b in this hemisphere
+    DualQuat.conjugate(this, _diff);
+    _b.copy(b);
+    if (this.real.dot(b.real) < 0) {
+      _b.real.set(-_b.real.x, -_b.real.y, -_b.real.z, -_b.real.w);
+      _b.dual.set(-_b.dual.x, -_b.dual.y, -_b.dual.z, -_b.dual.w);
+    }
+    _diff.multiply(_b);
+
+    const r = _diff.real, d = _diff.dual;
+    const s: number = Math.sqrt(r.x * r.x + r.y * r.y + r.z * r.z);
+
+    if (s < EPSILON) {
+      // No rotation to speak of: scale the translation, power the (tiny) rotation
+      _diff.getTranslation(_t);
+      _q.copy(r).pow(t);
+      _t.set(_t.x * t, _t.y * t, _t.z * t);
+      _diff.setFromRotationTranslation(_q, _t);
+    } else {
+      // Screw parameters: angle θ about unit axis l through moment m, pitch (slide) p
+      const halfAngle: number = Math.atan2(s, r.w);
+      const lx = r.x / s, ly = r.y / s, lz = r.z / s;
+      const pitch: number = -2 * d.w / s;
+      const halfCos: number = 0.5 * pitch * r.w;
+      const mx = (d.x - halfCos * lx) / s;
+      const my = (d.y - halfCos * ly) / s;
+      const mz = (d.z - halfCos * lz) / s;
+
+      const sn: number = Math.sin(halfAngle * t), cs: number = Math.cos(halfAngle * t);
+      const halfPitch: number = 0.5 * pitch * t;
+      r.set(sn * lx, sn * ly, sn * lz, cs);
+      d.set(sn * mx + halfPitch * cs * lx, sn * my + halfPitch * cs * ly, sn * mz + halfPitch * cs * lz, -halfPitch * sn);
+    }
+
+    return this.multiply(_diff);
+  }
+
+  equals(dq: DualQuat, epsilon: number = EPSILON): boolean {
+    return this.real.equals(dq.real, epsilon) && this.dual.equals(dq.dual, epsilon);
+  }
+
+  static multiply(a: DualQuat, b: DualQuat, out: DualQuat | null = null): DualQuat {
+    if (out === null) out = new DualQuat();
+
+    // real = ar·br, dual = ar·bd + ad·br — inputs copied first since out may alias either
+    _ar.copy(a.real); _ad.copy(a.dual);
+    _br.copy(b.real); _bd.copy(b.dual);
+    Quat.multiply(_ar, _br, out.real);
+    Quat.multiply(_ar, _bd, out.dual);
+    Quat.multiply(_ad, _br, _q);
+    out.dual.set(out.dual.x + _q.x, out.dual.y + _q.y, out.dual.z + _q.z, out.dual.w + _q.w);
+
+    return out;
+  }
+
+  static conjugate(dq: DualQuat, out: DualQuat | null = null): DualQuat {
+    if (out === null) out = new DualQuat();
+    Quat.conjugate(dq.real, out.real);
+    Quat.conjugate(dq.dual, out.dual);
+    return out;
+  }
+
+  static normalize(dq: DualQuat, out: DualQuat | null = null): DualQuat {
+    if (out === null) out = new DualQuat();
+    return out.copy(dq).normalize();
+  }
+
+  static sclerp(a: DualQuat, b: DualQuat, t: number, out: DualQuat | null = null): DualQuat {
+    if (out === null) out = new DualQuat();
+    return out.copy(a).sclerp(b, t);
+  }
+
+  /**
+   * Dual quaternion linear blending (Kavan et al.) of the first `weights.length` entries
+   * of `dqs` — the skinning blend. Each one is flipped into the hemisphere of `dqs[0]`
+   * before summing (antipodality: q and −q are the same transform but would cancel), and
+   * the sum is normalised. Weights need not sum to 1; an all-zero blend yields identity.
+   */
+  static blend(dqs: DualQuat[], weights: ArrayLike<number>, out: DualQuat | null = null): DualQuat {
+    if (out === null) out = new DualQuat();
+    if (weights.length === 0) return out.setIdentity();
+
+    const pivot = dqs[0].real;
+    const px = pivot.x, py = pivot.y, pz = pivot.z, pw = pivot.w;
+    let rx = 0, ry = 0, rz = 0, rw = 0;
+    let dx = 0, dy = 0, dz = 0, dw = 0;
+
+    for (let i = 0; i < weights.length; i++) {
+      const r = dqs[i].real, d = dqs[i].dual;
+      let w: number = weights[i];
+      if (r.x * px + r.y * py + r.z * pz + r.w * pw < 0) w = -w;
+      rx += r.x * w; ry += r.y * w; rz += r.z * w; rw += r.w * w;
+      dx += d.x * w; dy += d.y * w; dz += d.z * w; dw += d.w * w;
+    }
+
+    if (rx * rx + ry * ry + rz * rz + rw * rw < EPSILON * EPSILON) return out.setIdentity();
+
+    out.real.set(rx, ry, rz, rw);
+    out.dual.set(dx, dy, dz, dw);
+    return out.normalize();
+  }
+
+  /**
+   * Write to Float32Array for GPU upload: 8 floats, real x y z w then dual x y z w. This
+   * is a shader struct of two `float4`s (`struct DualQuat { float4 real; float4 dual; }`),
+   * which has no padding in structured/storage buffers — one entry per bone.
+   * @param out - Target array (must have at least 8 elements past `offset`)
+   * @param offset - Starting index in output array (default: 0)
+   */
+  toFloat32Array(out: Float32Array, offset: number = 0): Float32Array {
+    out[offset + 0] = this.real.x;
+    out[offset + 1] = this.real.y;
+    out[offset + 2] = this.real.z;
+    out[offset + 3] = this.real.w;
+    out[offset + 4] = this.dual.x;
+    out[offset + 5] = this.dual.y;
+    out[offset + 6] = this.dual.z;
+    out[offset + 7] = this.dual.w;
+    return out;
+  }
+
+  /**
+   * Read from the layout {@link toFloat32Array} writes
+   * @param arr - Source array (must have at least 8 elements past `offset`)
+   * @param offset - Starting index in source array (default: 0)
+   */
+  fromFloat32Array(arr: Float32Array, offset: number = 0): this {
+    this.real.set(arr[offset + 0], arr[offset + 1], arr[offset + 2], arr[offset + 3]);
+    this.dual.set(arr[offset + 4], arr[offset + 5], arr[offset + 6], arr[offset + 7]);
+    return this;
+  }
+}
+
+const _q = new Quat();
+const _t = new Vec3();
+const _ar = new Quat();
+const _ad = new Quat();
+const _br = new Quat();
+const _bd = new Quat();
+const _diff = new DualQuat();
+const _b = new DualQuat();
@@ -0,0 +1,476 @@
+import { AABB } from './AABB';
+import { RayHit } from './RayHit';
+import type { Vec3 } from './Vec3';
+import type { Ray } from './Ray';
+
+/**
+ * Narrow-phase ray test for one proxy. Fill `out` and return true only for a hit with
+ * t in [0, tMax].
+ */
+export type DynamicTreeRayCallback = (proxyId: number, ray: Ray, tMax: number, out: RayHit) => boolean;
+
+/** Overlap query visitor. Return false to stop the query early. */
+export type DynamicTreeQueryCallback = (proxyId: number) => boolean | void;
+
+/** Receives each overlapping proxy pair once, `proxyA < proxyB`. */
+export type DynamicTreePairCallback = (proxyA: number, proxyB: number) => void;
+
+const NULL_NODE = -1;
+const INITIAL_CAPACITY = 16;
+/** How far a moving proxy's fat AABB is stretched along its displacement (Box2D's aabbMultiplier). */
+const DISPLACEMENT_MULTIPLIER = 4.0;
+
+/**
+ * Incremental AABB tree for moving objects, after Box2D's `b2DynamicTree`.
+ *
+ * Each proxy stores a fat AABB — the tight box grown by `margin` with
+ * {@link AABB.expandByScalar} — so small motions don't touch the tree: {@link moveProxy}
+ * only reinserts when the tight box leaves the fat one. Insertion picks the sibling with
+ * the least surface-area cost, and AVL-style rotations keep the height logarithmic.
+ *
+ * Proxy ids are node indices into flat typed arrays, stable until {@link destroyProxy}.
+ * Queries walk an explicit stack and do not allocate once it has grown to the tree height;
+ * they share scratch state, so callbacks must not start another query on the tree.
+ */
+export class DynamicAABBTree {
+  /** Inflation applied to every proxy's tight AABB. */
+  margin: number;
+
+  private bounds: Float64Array;
+  private parent: Int32Array;
+  private child1: Int32Array;
+  private child2: Int32Array;
+  /** Leaf = 0; free node = -1. */
+  private height: Int32Array;
+  private userIds: Int32Array;
+  private moved: Uint8Array;
+
+  private root: number;
+  private freeList: number;
+  private nodeCount: number;
+  private leafCount: number;
+  private moveBuffer: number[];
+  private stack: Int32Array;
+
+  // queryPairs state — the visitor is bound once so pair updates don't allocate
+  private queryProxy: number;
+  private pairCount: number;
+  private pairCallback: DynamicTreePairCallback | null;
+  private readonly pairVisitor: DynamicTreeQueryCallback;
+
+  constructor(margin: number = 0.1) {
+    this.margin = margin;
+    this.bounds = new Float64Array(0);
+    this.parent = new Int32Array(0);
+    this.child1 = new Int32Array(0);
+    this.child2 = new Int32Array(0);
+    this.height = new Int32Array(0);
+    this.userIds = new Int32Array(0);
+    this.moved = new Uint8Array(0);
+    this.root = NULL_NODE;
+    this.freeList = NULL_NODE;
+    this.nodeCount = 0;
+    this.leafCount = 0;
+    this.moveBuffer = [];
+    this.stack = new Int32Array(64);
+    this.queryProxy = NULL_NODE;
+    this.pairCount = 0;
+    this.pairCallback = null;
+    this.pairVisitor = (other: number): void => this.visitPair(other);
+    this.grow(INITIAL_CAPACITY);
+  }
+
+  get proxyCount(): number {
+    return this.leafCount;
+  }
+
+  /** Tree height (0 for a single proxy, -1 when empty). */
+  getHeight(): number {
+    return this.root === NULL_NODE ? -1 : this.height[this.root];
+  }
+
+  /** Insert a proxy for `aabb`; `userId` is returned by {@link getUserId}. Returns the proxy id. */
+  createProxy(aabb: AABB, userId: number): number {
+    const proxy = this.allocateNode();
+    _fat.copy(aabb).expandByScalar(this.margin);
+    this.writeBounds(proxy, _fat);
+    this.userIds[proxy] = userId;
+    this.insertLeaf(proxy);
+    this.leafCount++;
+    this.bufferMove(proxy);
+    return proxy;
+  }
+
+  destroyProxy(proxyId: number): void {
+    if (this.moved[proxyId] !== 0) {
+      const i = this.moveBuffer.indexOf(proxyId);
+      this.moveBuffer[i] = this.moveBuffer[this.moveBuffer.length - 1];
+      this.moveBuffer.length--;
+      this.moved[proxyId] = 0;
+    }
+    this.removeLeaf(proxyId);
+    this.freeNode(proxyId);
+    this.leafCount--;
+  }
+
+  /**
+   * Update a proxy to its new tight `aabb`. Returns false (tree untouched) while the fat
+   * AABB still contains it; otherwise reinserts with a new fat AABB — stretched along
+   * `displacement`, when given, to anticipate further motion — and returns true.
+   */
+  moveProxy(proxyId: number, aabb: AABB, displacement: Vec3 | null = null): boolean {
+    if (this.readBounds(proxyId, _box).containsAABB(aabb)) {
+      return false;
+    }
+
+    this.removeLeaf(proxyId);
+
+    _fat.copy(aabb).expandByScalar(this.margin);
+    if (displacement !== null) {
+      const dx = displacement.x * DISPLACEMENT_MULTIPLIER;
+      const dy = displacement.y * DISPLACEMENT_MULTIPLIER;
+      const dz = displacement.z * DISPLACEMENT_MULTIPLIER;
+      if (dx < 0) _fat.min.x += dx; else _fat.max.x += dx;
+      if (dy < 0) _fat.min.y += dy; else _fat.max.y += dy;
+      if (dz < 0) _fat.min.z += dz; else _fat.max.z += dz;
+    }
+    this.writeBounds(proxyId, _fat);
+
+    this.insertLeaf(proxyId);
+    this.bufferMove(proxyId);
+    return true;
+  }
+
+  getFatAABB(proxyId: number, out: AABB | null = null): AABB {
+    if (out === null) out = new AABB();
+    return this.readBounds(proxyId, out);
+  }
+
+  getUserId(proxyId: number): number {
+    return this.userIds[proxyId];
+  }
+
+  /** Report proxies whose fat AABBs overlap `aabb`. Returns the number reported. */
+  queryAABB(aabb: AABB, callback: DynamicTreeQueryCallback): number {
+    if (this.root === NULL_NODE) return 0;
+    this.reserveStack();
+
+    const b = this.bounds, stack = this.stack;
+    let reported = 0;
+    let sp = 0;
+    stack[sp++] = this.root;
+
+    while (sp > 0) {
+      const node = stack[--sp];
+      const o = node * 6;
+      if (b[o + 0] > aabb.max.x || b[o + 3] < aabb.min.x ||
+          b[o + 1] > aabb.max.y || b[o + 4] < aabb.min.y ||
+          b[o + 2] > aabb.max.z || b[o + 5] < aabb.min.z) {
+        continue;
+      }
+
+      if (this.height[node] === 0) {
+        reported++;
+        if (callback(node) === false) return reported;
+      } else {
+        stack[sp++] = this.child2[node];
+        stack[sp++] = this.child1[node];
+      }
+    }
+
+    return reported;
+  }
+
+  /**
+   * Closest hit along `ray` within [0, tMax], culling nodes with `Ray.intersectAABB`.
+   * Without `narrowPhase` the fat AABBs themselves are hit. Returns the proxy id (`out`
+   * filled), or -1.
+   */
+  raycast(ray: Ray, out: RayHit, narrowPhase: DynamicTreeRayCallback | null = null, tMax: number = Infinity): number {
+    if (this.root === NULL_NODE) return -1;
+    this.reserveStack();
+
+    const stack = this.stack;
+    const o = ray.origin;
+    let best = tMax;
+    let bestId = -1;
+    let sp = 0;
+    stack[sp++] = this.root;
+
+    while (sp > 0) {
+      const node = stack[--sp];
+      this.readBounds(node, _box);
+      const t = ray.intersectAABB(_box);
+      // intersectAABB reports the exit distance from inside, so only cull boxes ahead of the ray
+      if (t < 0 || (t > best && !_box.containsPoint(o.x, o.y, o.z))) continue;
+
+      if (this.height[node] !== 0) {
+        stack[sp++] = this.child2[node];
+        stack[sp++] = this.child1[node];
+        continue;
+      }
+
+      const hit = narrowPhase !== null
+        ? narrowPhase(node, ray, best, _candidate)
+        : ray.intersectAABBHit(_box, _candidate) && _candidate.t <= best;
+      if (hit) {
+        best = _candidate.t;
+        bestId = node;
+        out.copy(_candidate);
+      }
+    }
+
+    return bestId;
+  }
+
+  /**
+   * Broadphase pair update: report every pair of overlapping fat AABBs in which at least
+   * one proxy was created or reinserted since the last call, then clear that set. Pairs
+   * of proxies that stayed inside their fat AABBs were reported on an earlier call, so
+   * callers keep persistent contacts, as in Box2D's `b2BroadPhase::UpdatePairs`.
+   * Returns the number of pairs reported.
+   */
+  queryPairs(callback: DynamicTreePairCallback): number {
+    this.pairCallback = callback;
+    this.pairCount = 0;
+    for (let i = 0; i < this.moveBuffer.length; i++) {
+      this.queryProxy = this.moveBuffer[i];
+      this.queryAABB(this.readBounds(this.queryProxy, _query), this.pairVisitor);
+    }
+    this.pairCallback = null;
+
+    for (let i = 0; i < this.moveBuffer.length; i++) this.moved[this.moveBuffer[i]] = 0;
+    this.moveBuffer.length = 0;
+    return this.pairCount;
+  }
+
+  private visitPair(other: number): void {
+    const self = this.queryProxy;
+    if (other === self) return;
+    // Both moved: report from the lower id's query only
+    if (this.moved[other] !== 0 && other < self) return;
+    if (other < self) (this.pairCallback as DynamicTreePairCallback)(other, self);
+    else (this.pairCallback as DynamicTreePairCallback)(self, other);
+    this.pairCount++;
+  }
+
+  private bufferMove(proxy: number): void {
+    if (this.moved[proxy] !== 0) return;
+    this.moved[proxy] = 1;
+    this.moveBuffer.push(proxy);
+  }
+
+  private reserveStack(): void {
+    const needed = 2 * this.height[this.root] + 2;
+    if (this.stack.length < needed) this.stack = new Int32Array(needed * 2);
+  }
+
+  private grow(capacity: number): void {
+    const old = this.height.length;
+    const bounds = new Float64Array(capacity * 6); bounds.set(this.bounds); this.bounds = bounds;
+    const parent = new Int32Array(capacity); parent.set(this.parent); this.parent = parent;
+    const child1 = new Int32Array(capacity); child1.set(this.child1); this.child1 = child1;
+    const child2 = new Int32Array(capacity); child2.set(this.child2); this.child2 = child2;
+    const height = new Int32Array(capacity); height.set(this.height); this.height = height;
+    const userIds = new Int32Array(capacity); userIds.set(this.userIds); this.userIds = userIds;
+    const moved = new Uint8Array(capacity); moved.set(this.moved); this.moved = moved;
+
+    // Thread the new nodes onto the free list (next pointer kept in `parent`)
+    for (let i = old; i < capacity; i++) {
+      this.parent[i] = i + 1 < capacity ? i + 1 : this.freeList;
+      this.height[i] = -1;
+    }
+    this.freeList = old;
+  }
+
+  private allocateNode(): number {
+    if (this.freeList === NULL_NODE) this.grow(this.height.length * 2);
+    const node = this.freeList;
+    this.freeList = this.parent[node];
+    this.parent[node] = NULL_NODE;
+    this.child1[node] = NULL_NODE;
+    this.child2[node] = NULL_NODE;
+    this.height[node] = 0;
+    this.userIds[node] = -1;
+    this.moved[node] = 0;
+    this.nodeCount++;
+    return node;
+  }
+
+  private freeNode(node: number): void {
+    this.parent[node] = this.freeList;
+    this.height[node] = -1;
+    this.freeList = node;
+    this.nodeCount--;
+  }
+
+  private readBounds(node: number, out: AABB): AABB {
+    const b = this.bounds, o = node * 6;
+    return out.set(b[o], b[o + 1], b[o + 2], b[o + 3], b[o + 4], b[o + 5]);
+  }
+
+  private writeBounds(node: number, aabb: AABB): void {
+    const b = this.bounds, o = node * 6;
+    b[o + 0] = aabb.min.x; b[o + 1] = aabb.min.y; b[o + 2] = aabb.min.z;
+    b[o + 3] = aabb.max.x; b[o + 4] = aabb.max.y; b[o + 5] = aabb.max.z;
+  }
+
+  /** Surface area of the union of two nodes' boxes. */
+  private unionArea(a: number, b: number): number {
+    const bb = this.bounds, oa = a * 6, ob = b * 6;
+    const sx = Math.max(bb[oa + 3], bb[ob + 3]) - Math.min(bb[oa + 0], bb[ob + 0]);
+    const sy = Math.max(bb[oa + 4], bb[ob + 4]) - Math.min(bb[oa + 1], bb[ob + 1]);
+    const sz = Math.max(bb[oa + 5], bb[ob + 5]) - Math.min(bb[oa + 2], bb[ob + 2]);
+    return 2.0 * (sx * sy + sy * sz + sz * sx);
+  }
+
+  private area(node: number): number {
+    const b = this.bounds, o = node * 6;
+    const sx = b[o + 3] - b[o + 0], sy = b[o + 4] - b[o + 1], sz = b[o + 5] - b[o + 2];
+    return 2.0 * (sx * sy + sy * sz + sz * sx);
+  }
+
+  /** Set `dst`'s box to the union of `a` and `b`, and its height to 1 + the taller child. */
+  private refit(dst: number, a: number, b: number): void {
+    const bb = this.bounds, o = dst * 6, oa = a * 6, ob = b * 6;
+    for (let i = 0; i < 3; i++) {
+      bb[o + i] = bb[oa + i] < bb[ob + i] ? bb[oa + i] : bb[ob + i];
+      bb[o + 3 + i] = bb[oa + 3 + i] > bb[ob + 3 + i] ? bb[oa + 3 + i] : bb[ob + 3 + i];
+    }
+    const ha = this.height[a], hb = this.height[b];
+    this.height[dst] = 1 + (ha > hb ? ha : hb);
+  }
+
+  private insertLeaf(leaf: number): void {
+    if (this.root === NULL_NODE) {
+      this.root = leaf;
+      this.parent[leaf] = NULL_NODE;
+      return;
+    }
+
+    // Descend towards the sibling with the least surface-area cost
+    let index = this.root;
+    while (this.height[index] !== 0) {
+      const c1 = this.child1[index], c2 = this.child2[index];
+      const area = this.area(index);
+      const combinedArea = this.unionArea(index, leaf);
+
+      // Cost of a new parent for this node and the leaf, and of pushing the leaf further down
+      const cost = 2.0 * combinedArea;
+      const inheritanceCost = 2.0 * (combinedArea - area);
+      const cost1 = this.unionArea(c1, leaf) - (this.height[c1] === 0 ? 0 : this.area(c1)) + inheritanceCost;
+      const cost2 = this.unionArea(c2, leaf) - (this.height[c2] === 0 ? 0 : this.area(c2)) + inheritanceCost;
+
+      if (cost < cost1 && cost < cost2) break;
+      index = cost1 < cost2 ? c1 : c2;
+    }
+
+    const sibling = index;
+    const oldParent = this.parent[sibling];
+    const newParent = this.allocateNode();
+    this.parent[newParent] = oldParent;
+    this.refit(newParent, leaf, sibling);
+
+    if (oldParent !== NULL_NODE) {
+      if (this.child1[oldParent] === sibling) this.child1[oldParent] = newParent;
+      else this.child2[oldParent] = newParent;
+    } else {
+      this.root = newParent;
+    }
+    this.child1[newParent] = sibling;
+    this.child2[newParent] = leaf;
+    this.parent[sibling] = newParent;
+    this.parent[leaf] = newParent;
+
+    this.refitAncestors(this.parent[leaf]);
+  }
+
+  private removeLeaf(leaf: number): void {
+    if (leaf === this.root) {
+      this.root = NULL_NODE;
+      return;
+    }
+
+    const parent = this.parent[leaf];
+    const grandParent = this.parent[parent];
+    const sibling = this.child1[parent] === leaf ? this.child2[parent] : this.child1[parent];
+
+    if (grandParent !== NULL_NODE) {
+      if (this.child1[grandParent] === parent) this.child1[grandParent] = sibling;
+      else this.child2[grandParent] = sibling;
+      this.parent[sibling] = grandParent;
+      this.freeNode(parent);
+      this.refitAncestors(grandParent);
+    } else {
+      this.root = sibling;
+      this.parent[sibling] = NULL_NODE;
+      this.freeNode(parent);
+    }
+  }
+
+  private refitAncestors(node: number): void {
+    let index = node;
+    while (index !== NULL_NODE) {
+      index = this.balance(index);
+      this.refit(index, this.child1[index], this.child2[index]);
+      index = this.parent[index];
+    }
+  }
+
+  /**
+   * Rotate `iA` if its subtrees' heights differ by more than one. Returns the index of
+   * the node now at `iA`'s position.
+   */
+  private balance(iA: number): number {
+    if (this.height[iA] < 2) return iA;
+
+    const iB = this.child1[iA], iC = this.child2[iA];
+    const diff = this.height[iC] - this.height[iB];
+
+    if (diff > 1) {
+      this.rotateUp(iA, iC, iB, false);
+      return iC;
+    }
+    if (diff < -1) {
+      this.rotateUp(iA, iB, iC, true);
+      return iB;
+    }
+    return iA;
+  }
+
+  /**
+   * Promote `iUp` (a child of `iA`) to `iA`'s place. `iA` keeps `iKeep` and takes the
+   * shorter of `iUp`'s children; `iUp` keeps the taller one next to `iA`.
+   */
+  private rotateUp(iA: number, iUp: number, iKeep: number, upIsChild1: boolean): void {
+    const iF = this.child1[iUp], iG = this.child2[iUp];
+
+    this.child1[iUp] = iA;
+    this.parent[iUp] = this.parent[iA];
+    this.parent[iA] = iUp;
+
+    const grand = this.parent[iUp];
+    if (grand !== NULL_NODE) {
+      if (this.child1[grand] === iA) this.child1[grand] = iUp;
+      else this.child2[grand] = iUp;
+    } else {
+      this.root = iUp;
+    }
+
+    const tall = this.height[iF] > this.height[iG] ? iF : iG;
+    const short = tall === iF ? iG : iF;
+    this.child2[iUp] = tall;
+    if (upIsChild1) this.child1[iA] = short;
+    else this.child2[iA] = short;
+    this.parent[short] = iA;
+
+    this.refit(iA, iKeep, short);
+    this.refit(iUp, iA, tall);
+  }
+}
+
+// Scratch state
+const _box = new AABB();
+const _fat = new AABB();
+const _query = new AABB();
+const _candidate = new RayHit();
@@ -0,0 +1,43 @@
+/** {@link EulerOrder} flag bit of the extrinsic sequences. */
+export const EULER_EXTRINSIC = 64;
+
+/**
+ * Euler rotation sequences: the 6 Tait-Bryan (three distinct axes) and 6 proper Euler
+ * (first axis repeated) orders, each as intrinsic or extrinsic rotations.
+ *
+ * Letters name the axes in the order the rotations are applied. Intrinsic rotations turn
+ * about the body's own, already-rotated axes (R = R1 · R2 · R3); extrinsic ones about the
+ * fixed world axes (R = R3 · R2 · R1), so extrinsic XYZ is the same rotation as intrinsic
+ * ZYX with the angles reversed. Euler angles are always given and returned in sequence
+ * order: the angle of the first rotation, then the second, then the third.
+ *
+ * Encoding: bits 0–1, 2–3 and 4–5 hold the first, second and third axis (0 = X, 1 = Y,
+ * 2 = Z); bit 6 ({@link EULER_EXTRINSIC}) marks an extrinsic sequence.
+ */
+export enum EulerOrder {
+  IntrinsicXYZ = 0 | (1 << 2) | (2 << 4),
+  IntrinsicXZY = 0 | (2 << 2) | (1 << 4),
+  IntrinsicYXZ = 1 | (0 << 2) | (2 << 4),
+  IntrinsicYZX = 1 | (2 << 2) | (0 << 4),
+  IntrinsicZXY = 2 | (0 << 2) | (1 << 4),
+  IntrinsicZYX = 2 | (1 << 2) | (0 << 4),
+  IntrinsicXYX = 0 | (1 << 2) | (0 << 4),
+  IntrinsicXZX = 0 | (2 << 2) | (0 << 4),
+  IntrinsicYXY = 1 | (0 << 2) | (1 << 4),
+  IntrinsicYZY = 1 | (2 << 2) | (1 << 4),
+  IntrinsicZXZ = 2 | (0 << 2) | (2 << 4),
+  IntrinsicZYZ = 2 | (1 << 2) | (2 << 4),
+
+  ExtrinsicXYZ = IntrinsicXYZ | EULER_EXTRINSIC,
+  ExtrinsicXZY = IntrinsicXZY | EULER_EXTRINSIC,
+  ExtrinsicYXZ = IntrinsicYXZ | EULER_EXTRINSIC,
+  ExtrinsicYZX = IntrinsicYZX | EULER_EXTRINSIC,
+  ExtrinsicZXY = IntrinsicZXY | EULER_EXTRINSIC,
+  ExtrinsicZYX = IntrinsicZYX | EULER_EXTRINSIC,
+  ExtrinsicXYX = IntrinsicXYX | EULER_EXTRINSIC,
+  ExtrinsicXZX = IntrinsicXZX | EULER_EXTRINSIC,
+  ExtrinsicYXY = IntrinsicYXY | EULER_EXTRINSIC,
+  ExtrinsicYZY = IntrinsicYZY | EULER_EXTRINSIC,
+  ExtrinsicZXZ = IntrinsicZXZ | EULER_EXTRINSIC,
+  ExtrinsicZYZ = IntrinsicZYZ | EULER_EXTRINSIC,
+}
@@ -0,0 +1,141 @@
+import { Vec3 } from './Vec3';
+import { Mat4 } from './Mat4';
+import { worldToCameraRelative } from './cameraRelative';
+import type { AABB } from './AABB';
+import type { Ray } from './Ray';
+
+interface Vec3Like {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * Called after each rebase with how far the origin moved (new − old, exact in f64). Anything
+ * holding rebased coordinates subtracts it. `delta` is shared scratch — copy it to keep it.
+ */
+export type FloatingOriginListener = (delta: Vec3, origin: FloatingOrigin) => void;
+
+/**
+ * Floating origin: the compound f64 offset that feeds the `origin` argument of
+ * {@link worldToCameraRelative}. "Absolute" positions are true world coordinates; "relative"
+ * ones are absolute − {@link origin} — small near the camera, so they narrow to f32 safely.
+ *
+ * {@link update} rebases once the camera drifts more than `threshold` from the origin. The
+ * new origin is the camera position snapped to a multiple of `cellSize`: with a power-of-two
+ * cell every delta and every accumulated offset is exact in f64, so rebasing never
+ * introduces drift, however many times it happens.
+ */
+export class FloatingOrigin {
+  /** Absolute position of the rebased space's zero. Change it only through {@link rebase}. */
+  readonly origin: Vec3;
+  /** Camera distance from the origin that triggers a rebase in {@link update}. */
+  threshold: number;
+  /** Rebase granularity; keep it a power of two. */
+  cellSize: number;
+
+  private readonly listeners: FloatingOriginListener[];
+
+  constructor(threshold: number = 4096, cellSize: number = 1) {
+    this.origin = new Vec3(0, 0, 0);
+    this.threshold = threshold;
+    this.cellSize = cellSize;
+    this.listeners = [];
+  }
+
+  addListener(listener: FloatingOriginListener): void {
+    this.listeners.push(listener);
+  }
+
+  /** Returns false if `listener` was not registered. */
+  removeListener(listener: FloatingOriginListener): boolean {
+    const index = this.listeners.indexOf(listener);
+    if (index < 0) return false;
+    this.listeners.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Per-frame check with the camera's absolute position: rebase around it when it is more
+   * than `threshold` from the origin. Returns true if a rebase happened.
+   */
+  update(camera: Vec3Like): boolean {
+    const dx = camera.x - this.origin.x;
+    const dy = camera.y - this.origin.y;
+    const dz = camera.z - this.origin.z;
+    if (dx * dx + dy * dy + dz * dz <= this.threshold * this.threshold) return false;
+    return this.rebase(camera);
+  }
+
+  /**
+   * Move the origin to absolute `position`, snapped to `cellSize`, and notify listeners.
+   * Returns false — notifying no one — if the snapped origin is unchanged.
+   */
+  rebase(position: Vec3Like): boolean {
+    const cell = this.cellSize;
+    const x = cell > 0 ? Math.round(position.x / cell) * cell : position.x;
+    const y = cell > 0 ? Math.round(position.y / cell) * cell : position.y;
+    const z = cell > 0 ? Math.round(position.z / cell) * cell : position.z;
+
+    _delta.set(x - this.origin.x, y - this.origin.y, z - this.origin.z);
+    if (_delta.x === 0 && _delta.y === 0 && _delta.z === 0) return false;
+
+    this.origin.set(x, y, z);
+    // Iterate a snapshot so listeners may unsubscribe themselves
+    const listeners = this.listeners.slice();
+    for (let i = 0; i < listeners.length; i++) listeners[i](_delta, this);
+    return true;
+  }
+
+  toRelative(pos: Vec3Like, out: Vec3 | null = null): Vec3 {
+    if (out === null) out = new Vec3();
+    worldToCameraRelative(pos, this.origin, out);
+    return out;
+  }
+
+  toAbsolute(pos: Vec3Like, out: Vec3 | null = null): Vec3 {
+    if (out === null) out = new Vec3();
+    return out.set(pos.x + this.origin.x, pos.y + this.origin.y, pos.z + this.origin.z);
+  }
+
+  /** Empty boxes stay empty. */
+  aabbToRelative(box: AABB, out: AABB): AABB {
+    this.toRelative(box.min, out.min);
+    this.toRelative(box.max, out.max);
+    return out;
+  }
+
+  aabbToAbsolute(box: AABB, out: AABB): AABB {
+    this.toAbsolute(box.min, out.min);
+    this.toAbsolute(box.max, out.max);
+    return out;
+  }
+
+  /** Only the origin moves; the direction is copied. */
+  rayToRelative(ray: Ray, out: Ray): Ray {
+    this.toRelative(ray.origin, out.origin);
+    out.direction.copy(ray.direction);
+    return out;
+  }
+
+  rayToAbsolute(ray: Ray, out: Ray): Ray {
+    this.toAbsolute(ray.origin, out.origin);
+    out.direction.copy(ray.direction);
+    return out;
+  }
+
+  /** Affine `m` with its translation rebased; the linear part is copied. */
+  mat4ToRelative(m: Mat4, out: Mat4): Mat4 {
+    return Mat4.modelCameraRelative(m, this.origin, out);
+  }
+
+  mat4ToAbsolute(m: Mat4, out: Mat4): Mat4 {
+    out.copy(m);
+    out.m12 = m.m12 + this.origin.x;
+    out.m13 = m.m13 + this.origin.y;
+    out.m14 = m.m14 + this.origin.z;
+    return out;
+  }
+}
+
+const _delta = new Vec3();
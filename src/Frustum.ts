@@ -0,0 +1,159 @@
+import { Vec3 } from './Vec3';
+import { AABB } from './AABB';
+import { Plane } from './Plane';
+import type { Mat4 } from './Mat4';
+
+/** Result of a volume-vs-frustum classification. */
+export enum Containment {
+  Outside = 0,
+  Intersecting = 1,
+  Inside = 2,
+}
+
+/**
+ * Six inward-facing, normalised planes (a point p is inside a plane when n·p + d ≥ 0)
+ * extracted from a view-projection matrix (Gribb–Hartmann).
+ *
+ * Plane order: left, right, bottom, top, near, far. Extraction depends on the projection's
+ * clip-depth convention — `zeroToOne` false for GL [-1, 1] ({@link Mat4.perspective} /
+ * {@link Mat4.ortho}), true for WebGPU [0, 1] ({@link Mat4.perspectiveZO} /
+ * {@link Mat4.orthoZO}). Pass `reversedZ` for projections that map near to the far end of
+ * the depth range ({@link Mat4.perspectiveReversedZO} and friends) so slot 4 stays the near
+ * plane and slot 5 the far one. An infinite far plane extracts as the always-inside plane
+ * (0, 0, 0, d > 0).
+ */
+export class Frustum {
+  planes: Plane[];
+
+  constructor() {
+    this.planes = [new Plane(), new Plane(), new Plane(), new Plane(), new Plane(), new Plane()];
+  }
+
+  static fromMat4(m: Mat4, zeroToOne: boolean, reversedZ: boolean = false): Frustum {
+    return new Frustum().setFromMat4(m, zeroToOne, reversedZ);
+  }
+
+  setFromMat4(m: Mat4, zeroToOne: boolean, reversedZ: boolean = false): this {
+    const p = this.planes;
+    // Rows of the column-major matrix: clip.x = row0·v, ..., clip.w = row3·v
+    p[0].set(m.m03 + m.m00, m.m07 + m.m04, m.m11 + m.m08, m.m15 + m.m12); // left:   w + x ≥ 0
+    p[1].set(m.m03 - m.m00, m.m07 - m.m04, m.m11 - m.m08, m.m15 - m.m12); // right:  w − x ≥ 0
+    p[2].set(m.m03 + m.m01, m.m07 + m.m05, m.m11 + m.m09, m.m15 + m.m13); // bottom: w + y ≥ 0
+    p[3].set(m.m03 - m.m01, m.m07 - m.m05, m.m11 - m.m09, m.m15 - m.m13); // top:    w − y ≥ 0
+    // Reversed-Z puts the far plane at the low end of the depth range, the near one at w − z
+    const lo = reversedZ ? p[5] : p[4];
+    const hi = reversedZ ? p[4] : p[5];
+    if (zeroToOne) {
+      lo.set(m.m02, m.m06, m.m10, m.m14);                                 // z ≥ 0
+    } else {
+      lo.set(m.m03 + m.m02, m.m07 + m.m06, m.m11 + m.m10, m.m15 + m.m14); // w + z ≥ 0
+    }
+    hi.set(m.m03 - m.m02, m.m07 - m.m06, m.m11 - m.m10, m.m15 - m.m14);   // w − z ≥ 0
+
+    for (let i = 0; i < 6; i++) p[i].normalize();
+
+    return this;
+  }
+
+  copy(src: Frustum): this {
+    for (let i = 0; i < 6; i++) this.planes[i].copy(src.planes[i]);
+    return this;
+  }
+
+  clone(): Frustum {
+    return new Frustum().copy(this);
+  }
+
+  containsPoint(x: number, y: number, z: number): boolean {
+    for (let i = 0; i < 6; i++) {
+      if (this.planes[i].signedDistanceToPoint(x, y, z) < 0) return false;
+    }
+    return true;
+  }
+
+  containsPointVec(p: Vec3): boolean {
+    return this.containsPoint(p.x, p.y, p.z);
+  }
+
+  /** Conservative: may report true for spheres just outside a frustum corner. */
+  intersectsSphere(cx: number, cy: number, cz: number, radius: number): boolean {
+    for (let i = 0; i < 6; i++) {
+      if (this.planes[i].signedDistanceToPoint(cx, cy, cz) < -radius) return false;
+    }
+    return true;
+  }
+
+  intersectsSphereVec(center: Vec3, radius: number): boolean {
+    return this.intersectsSphere(center.x, center.y, center.z, radius);
+  }
+
+  /** Conservative p-vertex test: may report true for boxes just outside a frustum corner. */
+  intersectsAABB(aabb: AABB): boolean {
+    const min = aabb.min, max = aabb.max;
+    for (let i = 0; i < 6; i++) {
+      const p = this.planes[i];
+      const n = p.normal;
+      // Corner furthest along the plane normal
+      const px: number = n.x >= 0 ? max.x : min.x;
+      const py: number = n.y >= 0 ? max.y : min.y;
+      const pz: number = n.z >= 0 ? max.z : min.z;
+      if (p.signedDistanceToPoint(px, py, pz) < 0) return false;
+    }
+    return true;
+  }
+
+  classifySphere(cx: number, cy: number, cz: number, radius: number): Containment {
+    let result: Containment = Containment.Inside;
+    for (let i = 0; i < 6; i++) {
+      const dist: number = this.planes[i].signedDistanceToPoint(cx, cy, cz);
+      if (dist < -radius) return Containment.Outside;
+      if (dist < radius) result = Containment.Intersecting;
+    }
+    return result;
+  }
+
+  classifySphereVec(center: Vec3, radius: number): Containment {
+    return this.classifySphere(center.x, center.y, center.z, radius);
+  }
+
+  /** Inside when every corner is inside; Outside when the p-vertex of some plane is behind it. */
+  classifyAABB(aabb: AABB): Containment {
+    const min = aabb.min, max = aabb.max;
+    let result: Containment = Containment.Inside;
+    for (let i = 0; i < 6; i++) {
+      const p = this.planes[i];
+      const n = p.normal;
+      const px: number = n.x >= 0 ? max.x : min.x;
+      const py: number = n.y >= 0 ? max.y : min.y;
+      const pz: number = n.z >= 0 ? max.z : min.z;
+      if (p.signedDistanceToPoint(px, py, pz) < 0) return Containment.Outside;
+      // Corner least along the normal — behind the plane means the box straddles it
+      const nx: number = n.x >= 0 ? min.x : max.x;
+      const ny: number = n.y >= 0 ? min.y : max.y;
+      const nz: number = n.z >= 0 ? min.z : max.z;
+      if (p.signedDistanceToPoint(nx, ny, nz) < 0) result = Containment.Intersecting;
+    }
+    return result;
+  }
+
+  /**
+   * The 8 corners as intersections of the side planes with near/far, in order
+   * near (left-bottom, right-bottom, right-top, left-top), then far in the same order —
+   * for reversed-Z projections too. Far corners are left untouched for an infinite far
+   * plane (no intersection exists).
+   */
+  getCorners(out: Vec3[] | null = null): Vec3[] {
+    if (out === null) {
+      out = [new Vec3(), new Vec3(), new Vec3(), new Vec3(), new Vec3(), new Vec3(), new Vec3(), new Vec3()];
+    }
+    const p = this.planes;
+    for (let i = 0; i < 2; i++) {
+      const depth = p[4 + i];
+      Plane.intersectPlanes(p[0], p[2], depth, out[i * 4 + 0]);
+      Plane.intersectPlanes(p[1], p[2], depth, out[i * 4 + 1]);
+      Plane.intersectPlanes(p[1], p[3], depth, out[i * 4 + 2]);
+      Plane.intersectPlanes(p[0], p[3], depth, out[i * 4 + 3]);
+    }
+    return out;
+  }
+}
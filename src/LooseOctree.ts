@@ -0,0 +1,375 @@
+import { Vec3 } from './Vec3';
+import { AABB } from './AABB';
+import { RayHit } from './RayHit';
+import { Containment } from './Frustum';
+import { worldToCameraRelative } from './cameraRelative';
+import type { Ray } from './Ray';
+import type { Frustum } from './Frustum';
+
+/** Overlap query visitor. Return false to stop the query early. */
+export type OctreeQueryCallback = (id: number) => boolean | void;
+
+/**
+ * Narrow-phase ray test for one item. Fill `out` and return true only for a hit with
+ * t in [0, tMax].
+ */
+export type OctreeRayCallback = (id: number, ray: Ray, tMax: number, out: RayHit) => boolean;
+
+class OctreeNode {
+  center: Vec3;
+  halfSize: number;
+  depth: number;
+  parent: OctreeNode | null;
+  /** Octant i: bit 0/1/2 set = +x/+y/+z half. */
+  children: (OctreeNode | null)[];
+  childCount: number;
+  items: number[];
+
+  constructor(cx: number, cy: number, cz: number, halfSize: number, depth: number, parent: OctreeNode | null) {
+    this.center = new Vec3(cx, cy, cz);
+    this.halfSize = halfSize;
+    this.depth = depth;
+    this.parent = parent;
+    this.children = [null, null, null, null, null, null, null, null];
+    this.childCount = 0;
+    this.items = [];
+  }
+}
+
+/**
+ * Loose octree of id-keyed AABBs (Ulrich, "Loose Octrees", Game Programming Gems 2000).
+ *
+ * A node of half-size h owns the cube center ± h but accepts items whose box fits in the
+ * loose cube center ± looseness·h, so every item lives in exactly one node — the deepest
+ * one whose octant holds the item's center and whose slack covers its extents. Items never
+ * straddle, inserts and moves are O(depth), and queries test loose bounds. Nodes are
+ * created on demand and pruned when they empty. Items centred outside the root cube stay
+ * in the root, so size the root to the streamed region.
+ *
+ * Queries reuse one node stack and do not allocate; callbacks must not start another
+ * query on the same tree.
+ */
+export class LooseOctree {
+  readonly looseness: number;
+  readonly maxDepth: number;
+  readonly minNodeSize: number;
+  private root: OctreeNode;
+
+  private bounds: Float64Array;
+  private owner: (OctreeNode | null)[];
+  /** Index of each item in its node's `items`. */
+  private slot: Int32Array;
+  private size: number;
+
+  private stack: OctreeNode[];
+  private inside: Uint8Array;
+
+  /**
+   * @param center      Root cube centre.
+   * @param halfSize    Root cube half-size.
+   * @param looseness   Loose-bounds factor k ≥ 1 (2 is the classic choice).
+   * @param maxDepth    Deepest level below the root.
+   * @param minNodeSize Smallest node edge length (2·halfSize) that may be created.
+   */
+  constructor(center: Vec3, halfSize: number, looseness: number = 2.0, maxDepth: number = 8, minNodeSize: number = 1.0) {
+    this.looseness = looseness;
+    this.maxDepth = maxDepth;
+    this.minNodeSize = minNodeSize;
+    this.root = new OctreeNode(center.x, center.y, center.z, halfSize, 0, null);
+
+    this.bounds = new Float64Array(0);
+    this.owner = [];
+    this.slot = new Int32Array(0);
+    this.size = 0;
+
+    this.stack = [];
+    this.inside = new Uint8Array(maxDepth * 8 + 9);
+  }
+
+  get count(): number {
+    return this.size;
+  }
+
+  /** False for ids that are negative, fractional or not in the tree. */
+  has(id: number): boolean {
+    return (id | 0) === id && id >= 0 && id < this.owner.length && this.owner[id] !== null;
+  }
+
+  getAABB(id: number, out: AABB | null = null): AABB {
+    if (out === null) out = new AABB();
+    const b = this.bounds, o = id * 6;
+    return out.set(b[o], b[o + 1], b[o + 2], b[o + 3], b[o + 4], b[o + 5]);
+  }
+
+  /** Add `id` with bounds `aabb`; an id already present is moved instead. Invalid ids are ignored. */
+  insert(id: number, aabb: AABB): this {
+    if (this.has(id)) return this.update(id, aabb);
+    if ((id | 0) !== id || id < 0) return this;
+    if (id >= this.owner.length) this.grow(id + 1);
+
+    this.writeBounds(id, aabb);
+    this.attach(id, this.findNode(id));
+    this.size++;
+    return this;
+  }
+
+  /** Move `id` to `aabb`; only relinks when the owning node changes. Ignored for absent ids. */
+  update(id: number, aabb: AABB): this {
+    if (!this.has(id)) return this;
+    this.writeBounds(id, aabb);
+
+    const node = this.findNode(id);
+    const current = this.owner[id] as OctreeNode;
+    if (node !== current) {
+      this.detach(id);
+      this.attach(id, node);
+      this.prune(current);
+    }
+    return this;
+  }
+
+  remove(id: number): boolean {
+    if (!this.has(id)) return false;
+    const node = this.owner[id] as OctreeNode;
+    this.detach(id);
+    this.prune(node);
+    this.size--;
+    return true;
+  }
+
+  /**
+   * Shift the whole tree into the frame centred on `origin` — p' = p − origin, the same
+   * rebase `worldToCameraRelative` applies to positions — after a floating-origin shift.
+   * Structure is unchanged, so this is a linear pass with no reinsertion.
+   */
+  rebase(origin: Vec3): this {
+    this.stack.length = 0;
+    this.stack.push(this.root);
+    while (this.stack.length > 0) {
+      const node = this.stack.pop() as OctreeNode;
+      worldToCameraRelative(node.center, origin, node.center);
+      for (let i = 0; i < 8; i++) {
+        const child = node.children[i];
+        if (child !== null) this.stack.push(child);
+      }
+    }
+
+    const b = this.bounds;
+    for (let id = 0; id < this.owner.length; id++) {
+      if (this.owner[id] === null) continue;
+      const o = id * 6;
+      b[o + 0] -= origin.x; b[o + 1] -= origin.y; b[o + 2] -= origin.z;
+      b[o + 3] -= origin.x; b[o + 4] -= origin.y; b[o + 5] -= origin.z;
+    }
+    return this;
+  }
+
+  /** Report items whose boxes overlap `aabb`. Returns the number reported. */
+  queryAABB(aabb: AABB, callback: OctreeQueryCallback): number {
+    _query.copy(aabb);
+    return this.query(QUERY_AABB, null, callback);
+  }
+
+  /** Report items whose boxes overlap the sphere. Returns the number reported. */
+  querySphere(center: Vec3, radius: number, callback: OctreeQueryCallback): number {
+    _queryCenter.copy(center);
+    _queryRadius = radius;
+    return this.query(QUERY_SPHERE, null, callback);
+  }
+
+  /**
+   * Report items whose boxes pass `Frustum.intersectsAABB`. Nodes classified fully
+   * inside report their whole subtree without further plane tests. Returns the number
+   * reported.
+   */
+  queryFrustum(frustum: Frustum, callback: OctreeQueryCallback): number {
+    return this.query(QUERY_FRUSTUM, frustum, callback);
+  }
+
+  /**
+   * Closest hit along `ray` within [0, tMax]. Without `narrowPhase` the item boxes
+   * themselves are hit (see `Ray.intersectAABBHit`). Returns the id (`out` filled), or -1.
+   */
+  raycast(ray: Ray, out: RayHit, narrowPhase: OctreeRayCallback | null = null, tMax: number = Infinity): number {
+    const o = ray.origin;
+    let best = tMax;
+    let bestId = -1;
+
+    const stack = this.stack;
+    stack.length = 0;
+    stack.push(this.root);
+    while (stack.length > 0) {
+      const node = stack.pop() as OctreeNode;
+      // Items centred outside the root are not bounded by its loose cube
+      if (node !== this.root) {
+        this.looseBounds(node, _box);
+        const t = ray.intersectAABB(_box);
+        // intersectAABB reports the exit distance from inside, so only cull boxes ahead of the ray
+        if (t < 0 || (t > best && !_box.containsPoint(o.x, o.y, o.z))) continue;
+      }
+
+      for (let i = 0; i < node.items.length; i++) {
+        const id = node.items[i];
+        let hit: boolean;
+        if (narrowPhase !== null) {
+          hit = narrowPhase(id, ray, best, _candidate);
+        } else {
+          hit = ray.intersectAABBHit(this.getAABB(id, _box), _candidate) && _candidate.t <= best;
+        }
+        if (hit) {
+          best = _candidate.t;
+          bestId = id;
+          out.copy(_candidate);
+        }
+      }
+
+      for (let i = 0; i < 8; i++) {
+        const child = node.children[i];
+        if (child !== null) stack.push(child);
+      }
+    }
+
+    return bestId;
+  }
+
+  private query(kind: number, frustum: Frustum | null, callback: OctreeQueryCallback): number {
+    const stack = this.stack;
+    stack.length = 0;
+    stack.push(this.root);
+    this.inside[0] = 0;
+    let reported = 0;
+
+    while (stack.length > 0) {
+      const top = stack.length - 1;
+      const node = stack.pop() as OctreeNode;
+      let inside = this.inside[top] !== 0;
+
+      if (!inside && node !== this.root) {
+        this.looseBounds(node, _box);
+        if (kind === QUERY_FRUSTUM) {
+          const c = (frustum as Frustum).classifyAABB(_box);
+          if (c === Containment.Outside) continue;
+          inside = c === Containment.Inside;
+        } else if (!this.overlaps(kind, _box)) {
+          continue;
+        }
+      }
+
+      for (let i = 0; i < node.items.length; i++) {
+        const id = node.items[i];
+        if (!inside) {
+          this.getAABB(id, _box);
+          if (kind === QUERY_FRUSTUM ? !(frustum as Frustum).intersectsAABB(_box) : !this.overlaps(kind, _box)) continue;
+        }
+        reported++;
+        if (callback(id) === false) return reported;
+      }
+
+      for (let i = 0; i < 8; i++) {
+        const child = node.children[i];
+        if (child === null) continue;
+        this.inside[stack.length] = inside ? 1 : 0;
+        stack.push(child);
+      }
+    }
+
+    return reported;
+  }
+
+  private overlaps(kind: number, box: AABB): boolean {
+    if (kind === QUERY_AABB) return box.intersectsAABB(_query);
+    return box.distanceToPointSq(_queryCenter.x, _queryCenter.y, _queryCenter.z) <= _queryRadius * _queryRadius;
+  }
+
+  private looseBounds(node: OctreeNode, out: AABB): AABB {
+    const h = node.halfSize * this.looseness, c = node.center;
+    return out.set(c.x - h, c.y - h, c.z - h, c.x + h, c.y + h, c.z + h);
+  }
+
+  /** Deepest node (created on demand) whose octant holds the item's centre and whose slack covers its extents. */
+  private findNode(id: number): OctreeNode {
+    const b = this.bounds, o = id * 6;
+    const cx = (b[o] + b[o + 3]) * 0.5, cy = (b[o + 1] + b[o + 4]) * 0.5, cz = (b[o + 2] + b[o + 5]) * 0.5;
+    const extent = Math.max(b[o + 3] - b[o], b[o + 4] - b[o + 1], b[o + 5] - b[o + 2]) * 0.5;
+
+    let node = this.root;
+    const rc = node.center, rh = node.halfSize;
+    if (Math.abs(cx - rc.x) > rh || Math.abs(cy - rc.y) > rh || Math.abs(cz - rc.z) > rh) {
+      return node;
+    }
+
+    while (node.depth < this.maxDepth) {
+      const childHalf = node.halfSize * 0.5;
+      // The loose cube leaves (looseness − 1)·h of slack around the octant
+      if (childHalf * 2.0 < this.minNodeSize || extent > (this.looseness - 1.0) * childHalf) break;
+
+      const octant = (cx >= node.center.x ? 1 : 0) | (cy >= node.center.y ? 2 : 0) | (cz >= node.center.z ? 4 : 0);
+      let child = node.children[octant];
+      if (child === null) {
+        child = new OctreeNode(
+          node.center.x + (octant & 1 ? childHalf : -childHalf),
+          node.center.y + (octant & 2 ? childHalf : -childHalf),
+          node.center.z + (octant & 4 ? childHalf : -childHalf),
+          childHalf, node.depth + 1, node
+        );
+        node.children[octant] = child;
+        node.childCount++;
+      }
+      node = child;
+    }
+    return node;
+  }
+
+  private attach(id: number, node: OctreeNode): void {
+    this.owner[id] = node;
+    this.slot[id] = node.items.length;
+    node.items.push(id);
+  }
+
+  private detach(id: number): void {
+    const node = this.owner[id] as OctreeNode;
+    const i = this.slot[id];
+    const last = node.items[node.items.length - 1];
+    node.items[i] = last;
+    this.slot[last] = i;
+    node.items.length--;
+    this.owner[id] = null;
+  }
+
+  /** Remove `node` and empty ancestors (never the root). */
+  private prune(node: OctreeNode): void {
+    let n: OctreeNode | null = node;
+    while (n !== null && n !== this.root && n.items.length === 0 && n.childCount === 0) {
+      const parent = n.parent as OctreeNode;
+      parent.children[parent.children.indexOf(n)] = null;
+      parent.childCount--;
+      n = parent;
+    }
+  }
+
+  private writeBounds(id: number, aabb: AABB): void {
+    const b = this.bounds, o = id * 6;
+    b[o + 0] = aabb.min.x; b[o + 1] = aabb.min.y; b[o + 2] = aabb.min.z;
+    b[o + 3] = aabb.max.x; b[o + 4] = aabb.max.y; b[o + 5] = aabb.max.z;
+  }
+
+  private grow(minCapacity: number): void {
+    let capacity = this.owner.length > 0 ? this.owner.length * 2 : 64;
+    while (capacity < minCapacity) capacity *= 2;
+
+    const bounds = new Float64Array(capacity * 6); bounds.set(this.bounds); this.bounds = bounds;
+    const slot = new Int32Array(capacity); slot.set(this.slot); this.slot = slot;
+    for (let i = this.owner.length; i < capacity; i++) this.owner.push(null);
+  }
+}
+
+const QUERY_AABB = 0;
+const QUERY_SPHERE = 1;
+const QUERY_FRUSTUM = 2;
+
+// Scratch state
+const _box = new AABB();
+const _query = new AABB();
+const _queryCenter = new Vec3();
+let _queryRadius = 0;
+const _candidate = new RayHit();
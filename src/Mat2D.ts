@@ -0,0 +1,336 @@
+import { EPSILON, approxEqual } from './constants';
+import { Vec2, type Vec2Like, type Vec2Mut } from './Vec2';
+import { Mat4 } from './Mat4';
+
+/** Scalar parts of a 2D affine transform — what {@link Mat2D.decompose} writes (sprites, UI nodes). */
+export interface Mat2DComponents {
+  x: number;
+  y: number;
+  rotation: number;
+  scaleX: number;
+  scaleY: number;
+  skew: number;
+}
+
+/**
+ * 2D affine transform — a 3x3 matrix with an implied `0 0 1` bottom row.
+ *
+ * Layout:
+ * | m00 m02 m04 |   | 0  2  4 |
+ * | m01 m03 m05 | = | 1  3  5 |
+ * |  0   0   1  |
+ */
+export class Mat2D {
+  // Column 0
+  m00: number; m01: number;
+  // Column 1
+  m02: number; m03: number;
+  // Column 2 (translation)
+  m04: number; m05: number;
+
+  constructor() {
+    // Identity by default
+    this.m00 = 1; this.m01 = 0;
+    this.m02 = 0; this.m03 = 1;
+    this.m04 = 0; this.m05 = 0;
+  }
+
+  static identity(): Mat2D {
+    return new Mat2D();
+  }
+
+  static fromValues(m00: number, m01: number, m02: number, m03: number, m04: number, m05: number): Mat2D {
+    const m = new Mat2D();
+    m.m00 = m00; m.m01 = m01;
+    m.m02 = m02; m.m03 = m03;
+    m.m04 = m04; m.m05 = m05;
+    return m;
+  }
+
+  setIdentity(): this {
+    this.m00 = 1; this.m01 = 0;
+    this.m02 = 0; this.m03 = 1;
+    this.m04 = 0; this.m05 = 0;
+    return this;
+  }
+
+  copy(src: Mat2D): this {
+    this.m00 = src.m00; this.m01 = src.m01;
+    this.m02 = src.m02; this.m03 = src.m03;
+    this.m04 = src.m04; this.m05 = src.m05;
+    return this;
+  }
+
+  clone(): Mat2D {
+    return new Mat2D().copy(this);
+  }
+
+  multiply(b: Mat2D): this {
+    Mat2D.multiply(this, b, this);
+    return this;
+  }
+
+  premultiply(b: Mat2D): this {
+    Mat2D.multiply(b, this, this);
+    return this;
+  }
+
+  translate(x: number, y: number): this {
+    this.m04 += this.m00 * x + this.m02 * y;
+    this.m05 += this.m01 * x + this.m03 * y;
+    return this;
+  }
+
+  translateVec(v: Vec2Like): this {
+    return this.translate(v.x, v.y);
+  }
+
+  rotate(radians: number): this {
+    const c: number = Math.cos(radians);
+    const s: number = Math.sin(radians);
+
+    const a00 = this.m00, a01 = this.m01;
+    const a10 = this.m02, a11 = this.m03;
+
+    this.m00 = a00 * c + a10 * s;
+    this.m01 = a01 * c + a11 * s;
+    this.m02 = a10 * c - a00 * s;
+    this.m03 = a11 * c - a01 * s;
+
+    return this;
+  }
+
+  scale(x: number, y: number): this {
+    this.m00 *= x; this.m01 *= x;
+    this.m02 *= y; this.m03 *= y;
+    return this;
+  }
+
+  scaleVec(v: Vec2Like): this {
+    return this.scale(v.x, v.y);
+  }
+
+  invert(): this {
+    const a = this.m00, b = this.m01, c = this.m02, d = this.m03;
+    const tx = this.m04, ty = this.m05;
+
+    let det = a * d - b * c;
+
+    // Same policy as Mat4.invert: only an exactly-zero (or non-finite) determinant is
+    // non-invertible.
+    if (det === 0 || !Number.isFinite(det)) {
+      return this; // Non-invertible
+    }
+
+    det = 1.0 / det;
+
+    this.m00 = d * det;
+    this.m01 = -b * det;
+    this.m02 = -c * det;
+    this.m03 = a * det;
+    this.m04 = (c * ty - d * tx) * det;
+    this.m05 = (b * tx - a * ty) * det;
+
+    return this;
+  }
+
+  determinant(): number {
+    return this.m00 * this.m03 - this.m01 * this.m02;
+  }
+
+  getTranslation(out: Vec2 | null = null): Vec2 {
+    if (out === null) out = new Vec2();
+    out.x = this.m04;
+    out.y = this.m05;
+    return out;
+  }
+
+  equals(m: Mat2D, epsilon: number = EPSILON): boolean {
+    return approxEqual(this.m00, m.m00, epsilon) &&
+           approxEqual(this.m01, m.m01, epsilon) &&
+           approxEqual(this.m02, m.m02, epsilon) &&
+           approxEqual(this.m03, m.m03, epsilon) &&
+           approxEqual(this.m04, m.m04, epsilon) &&
+           approxEqual(this.m05, m.m05, epsilon);
+  }
+
+  /** M·(x, y, 1) — transforms a point. `out` may be any `{ x, y }` object, including `v`. */
+  transformVec2(v: Vec2Like): Vec2;
+  transformVec2<T extends Vec2Mut>(v: Vec2Like, out: T): T;
+  transformVec2(v: Vec2Like, out: Vec2Mut | null = null): Vec2Mut {
+    if (out === null) out = new Vec2();
+    const x = v.x, y = v.y;
+    out.x = this.m00 * x + this.m02 * y + this.m04;
+    out.y = this.m01 * x + this.m03 * y + this.m05;
+    return out;
+  }
+
+  /** M·(x, y, 0) — transforms a direction or offset, ignoring translation. */
+  transformDirection(v: Vec2Like): Vec2;
+  transformDirection<T extends Vec2Mut>(v: Vec2Like, out: T): T;
+  transformDirection(v: Vec2Like, out: Vec2Mut | null = null): Vec2Mut {
+    if (out === null) out = new Vec2();
+    const x = v.x, y = v.y;
+    out.x = this.m00 * x + this.m02 * y;
+    out.y = this.m01 * x + this.m03 * y;
+    return out;
+  }
+
+  static multiply(a: Mat2D, b: Mat2D, out: Mat2D | null = null): Mat2D {
+    if (out === null) out = new Mat2D();
+
+    const a00 = a.m00, a01 = a.m01, a10 = a.m02, a11 = a.m03, a20 = a.m04, a21 = a.m05;
+    const b00 = b.m00, b01 = b.m01, b10 = b.m02, b11 = b.m03, b20 = b.m04, b21 = b.m05;
+
+    out.m00 = a00 * b00 + a10 * b01;
+    out.m01 = a01 * b00 + a11 * b01;
+    out.m02 = a00 * b10 + a10 * b11;
+    out.m03 = a01 * b10 + a11 * b11;
+    out.m04 = a00 * b20 + a10 * b21 + a20;
+    out.m05 = a01 * b20 + a11 * b21 + a21;
+
+    return out;
+  }
+
+  static fromTranslation(x: number, y: number, out: Mat2D | null = null): Mat2D {
+    if (out === null) out = new Mat2D();
+    out.setIdentity();
+    out.m04 = x;
+    out.m05 = y;
+    return out;
+  }
+
+  static fromRotation(radians: number, out: Mat2D | null = null): Mat2D {
+    if (out === null) out = new Mat2D();
+    const c = Math.cos(radians);
+    const s = Math.sin(radians);
+    out.m00 = c; out.m01 = s;
+    out.m02 = -s; out.m03 = c;
+    out.m04 = 0; out.m05 = 0;
+    return out;
+  }
+
+  static fromScaling(x: number, y: number, out: Mat2D | null = null): Mat2D {
+    if (out === null) out = new Mat2D();
+    out.setIdentity();
+    out.m00 = x;
+    out.m03 = y;
+    return out;
+  }
+
+  /**
+   * T · R · K · S — translation (x, y), rotation, scale, then `skew`: a shear by `tan(skew)`
+   * that tilts the local y axis towards +x. Six parameters cover every affine transform
+   * once; the inverse of {@link decompose}.
+   */
+  static compose(
+    x: number, y: number, rotation: number, scaleX: number, scaleY: number, skew: number = 0,
+    out: Mat2D | null = null
+  ): Mat2D {
+    if (out === null) out = new Mat2D();
+
+    const c = Math.cos(rotation);
+    const s = Math.sin(rotation);
+    const k = Math.tan(skew);
+
+    out.m00 = c * scaleX;
+    out.m01 = s * scaleX;
+    out.m02 = (c * k - s) * scaleY;
+    out.m03 = (s * k + c) * scaleY;
+    out.m04 = x;
+    out.m05 = y;
+
+    return out;
+  }
+
+  /**
+   * Split `m` into the parts {@link compose} takes, so that composing them rebuilds it.
+   * A mirrored basis (negative determinant) comes back as a negative `scaleX`, as in
+   * `Mat4.decompose`; `scaleY` is always positive and `skew` lies in (-π/2, π/2).
+   *
+   * Returns false — leaving everything but the translation untouched — when `m` is
+   * singular (a collapsed axis has no rotation or skew to recover).
+   */
+  static decompose(m: Mat2D, out: Mat2DComponents): boolean {
+    out.x = m.m04;
+    out.y = m.m05;
+
+    const a = m.m00, b = m.m01, c = m.m02, d = m.m03;
+    const det = a * d - b * c;
+    if (det === 0 || !Number.isFinite(det)) {
+      return false;
+    }
+
+    let sx = Math.sqrt(a * a + b * b);
+    if (det < 0) sx = -sx;
+    const cos = a / sx, sin = b / sx;
+
+    // Column 1 seen from the rotated frame is (tan(skew)·sy, sy)
+    const sy = det / sx;
+    const shear = cos * c + sin * d;
+
+    out.rotation = Math.atan2(sin, cos);
+    out.scaleX = sx;
+    out.scaleY = sy;
+    out.skew = Math.atan(shear / sy);
+    return true;
+  }
+
+  /** The XY-plane part of `m`: upper-left 2x2 plus x/y translation (z and projection dropped). */
+  static fromMat4(m: Mat4, out: Mat2D | null = null): Mat2D {
+    if (out === null) out = new Mat2D();
+    out.m00 = m.m00; out.m01 = m.m01;
+    out.m02 = m.m04; out.m03 = m.m05;
+    out.m04 = m.m12; out.m05 = m.m13;
+    return out;
+  }
+
+  /** Embed in 3D as a transform of the XY plane that leaves z untouched. */
+  toMat4(out: Mat4 | null = null): Mat4 {
+    if (out === null) out = new Mat4();
+    out.m00 = this.m00; out.m01 = this.m01; out.m02 = 0; out.m03 = 0;
+    out.m04 = this.m02; out.m05 = this.m03; out.m06 = 0; out.m07 = 0;
+    out.m08 = 0; out.m09 = 0; out.m10 = 1; out.m11 = 0;
+    out.m12 = this.m04; out.m13 = this.m05; out.m14 = 0; out.m15 = 1;
+    return out;
+  }
+
+  /**
+   * Write matrix to Float32Array as a std140 `mat3` (for GPU upload): the full 3x3 with
+   * its `0 0 1` bottom row, each column padded to a vec4 — 12 floats, readable by
+   * `Mat3.fromFloat32Array`.
+   * @param out - Target array (must have at least 12 elements past `offset`)
+   * @param offset - Starting index in output array (default: 0)
+   */
+  toFloat32Array(out: Float32Array, offset: number = 0): Float32Array {
+    out[offset + 0] = this.m00;
+    out[offset + 1] = this.m01;
+    out[offset + 2] = 0;
+    out[offset + 3] = 0;
+    out[offset + 4] = this.m02;
+    out[offset + 5] = this.m03;
+    out[offset + 6] = 0;
+    out[offset + 7] = 0;
+    out[offset + 8] = this.m04;
+    out[offset + 9] = this.m05;
+    out[offset + 10] = 1;
+    out[offset + 11] = 0;
+    return out;
+  }
+
+  /**
+   * Read matrix from a std140 `mat3` Float32Array (the layout {@link toFloat32Array} writes);
+   * the bottom row is assumed to be `0 0 1`.
+   * @param arr - Source array (must have at least 12 elements past `offset`)
+   * @param offset - Starting index in source array (default: 0)
+   */
+  fromFloat32Array(arr: Float32Array, offset: number = 0): this {
+    this.m00 = arr[offset + 0];
+    this.m01 = arr[offset + 1];
+    this.m02 = arr[offset + 4];
+    this.m03 = arr[offset + 5];
+    this.m04 = arr[offset + 8];
+    this.m05 = arr[offset + 9];
+    return this;
+  }
+}
@@ -0,0 +1,300 @@
+import { EPSILON, approxEqual } from './constants';
+import { Vec3 } from './Vec3';
+import type { Mat4 } from './Mat4';
+import type { Quat } from './Quat';
+
+/**
+ * Layout:
+ * | m00 m03 m06 |   | 0  3  6 |
+ * | m01 m04 m07 | = | 1  4  7 |
+ * | m02 m05 m08 |   | 2  5  8 |
+ */
+export class Mat3 {
+  // Column 0
+  m00: number; m01: number; m02: number;
+  // Column 1
+  m03: number; m04: number; m05: number;
+  // Column 2
+  m06: number; m07: number; m08: number;
+
+  constructor() {
+    // Identity by default
+    this.m00 = 1; this.m01 = 0; this.m02 = 0;
+    this.m03 = 0; this.m04 = 1; this.m05 = 0;
+    this.m06 = 0; this.m07 = 0; this.m08 = 1;
+  }
+
+  static identity(): Mat3 {
+    return new Mat3();
+  }
+
+  static zero(): Mat3 {
+    const m = new Mat3();
+    m.m00 = 0; m.m04 = 0; m.m08 = 0;
+    return m;
+  }
+
+  static fromValues(
+    m00: number, m01: number, m02: number,
+    m03: number, m04: number, m05: number,
+    m06: number, m07: number, m08: number
+  ): Mat3 {
+    const m = new Mat3();
+    m.m00 = m00; m.m01 = m01; m.m02 = m02;
+    m.m03 = m03; m.m04 = m04; m.m05 = m05;
+    m.m06 = m06; m.m07 = m07; m.m08 = m08;
+    return m;
+  }
+
+  setIdentity(): this {
+    this.m00 = 1; this.m01 = 0; this.m02 = 0;
+    this.m03 = 0; this.m04 = 1; this.m05 = 0;
+    this.m06 = 0; this.m07 = 0; this.m08 = 1;
+    return this;
+  }
+
+  copy(src: Mat3): this {
+    this.m00 = src.m00; this.m01 = src.m01; this.m02 = src.m02;
+    this.m03 = src.m03; this.m04 = src.m04; this.m05 = src.m05;
+    this.m06 = src.m06; this.m07 = src.m07; this.m08 = src.m08;
+    return this;
+  }
+
+  clone(): Mat3 {
+    return new Mat3().copy(this);
+  }
+
+  multiply(b: Mat3): this {
+    Mat3.multiply(this, b, this);
+    return this;
+  }
+
+  premultiply(b: Mat3): this {
+    Mat3.multiply(b, this, this);
+    return this;
+  }
+
+  transpose(): this {
+    let t: number;
+    t = this.m01; this.m01 = this.m03; this.m03 = t;
+    t = this.m02; this.m02 = this.m06; this.m06 = t;
+    t = this.m05; this.m05 = this.m07; this.m07 = t;
+    return this;
+  }
+
+  invert(): this {
+    const a00 = this.m00, a01 = this.m01, a02 = this.m02;
+    const a10 = this.m03, a11 = this.m04, a12 = this.m05;
+    const a20 = this.m06, a21 = this.m07, a22 = this.m08;
+
+    const b01 = a22 * a11 - a12 * a21;
+    const b11 = -a22 * a10 + a12 * a20;
+    const b21 = a21 * a10 - a11 * a20;
+
+    let det = a00 * b01 + a01 * b11 + a02 * b21;
+
+    // Same policy as Mat4.invert: only an exactly-zero (or non-finite) determinant is
+    // non-invertible — small ones are legitimate at pixel-space scales and f64 handles them.
+    if (det === 0 || !Number.isFinite(det)) {
+      return this; // Non-invertible
+    }
+
+    det = 1.0 / det;
+
+    this.m00 = b01 * det;
+    this.m01 = (-a22 * a01 + a02 * a21) * det;
+    this.m02 = (a12 * a01 - a02 * a11) * det;
+    this.m03 = b11 * det;
+    this.m04 = (a22 * a00 - a02 * a20) * det;
+    this.m05 = (-a12 * a00 + a02 * a10) * det;
+    this.m06 = b21 * det;
+    this.m07 = (-a21 * a00 + a01 * a20) * det;
+    this.m08 = (a11 * a00 - a01 * a10) * det;
+
+    return this;
+  }
+
+  determinant(): number {
+    const a00 = this.m00, a01 = this.m01, a02 = this.m02;
+    const a10 = this.m03, a11 = this.m04, a12 = this.m05;
+    const a20 = this.m06, a21 = this.m07, a22 = this.m08;
+
+    return a00 * (a22 * a11 - a12 * a21) +
+           a01 * (-a22 * a10 + a12 * a20) +
+           a02 * (a21 * a10 - a11 * a20);
+  }
+
+  scale(x: number, y: number, z: number): this {
+    this.m00 *= x; this.m01 *= x; this.m02 *= x;
+    this.m03 *= y; this.m04 *= y; this.m05 *= y;
+    this.m06 *= z; this.m07 *= z; this.m08 *= z;
+    return this;
+  }
+
+  equals(m: Mat3, epsilon: number = EPSILON): boolean {
+    return approxEqual(this.m00, m.m00, epsilon) &&
+           approxEqual(this.m01, m.m01, epsilon) &&
+           approxEqual(this.m02, m.m02, epsilon) &&
+           approxEqual(this.m03, m.m03, epsilon) &&
+           approxEqual(this.m04, m.m04, epsilon) &&
+           approxEqual(this.m05, m.m05, epsilon) &&
+           approxEqual(this.m06, m.m06, epsilon) &&
+           approxEqual(this.m07, m.m07, epsilon) &&
+           approxEqual(this.m08, m.m08, epsilon);
+  }
+
+  transformVec3(v: Vec3, out: Vec3 | null = null): Vec3 {
+    if (out === null) out = new Vec3();
+    const x = v.x, y = v.y, z = v.z;
+    out.x = this.m00 * x + this.m03 * y + this.m06 * z;
+    out.y = this.m01 * x + this.m04 * y + this.m07 * z;
+    out.z = this.m02 * x + this.m05 * y + this.m08 * z;
+    return out;
+  }
+
+  /** M·n, renormalised — the normal-matrix transform (pair with {@link normalFromMat4}). */
+  transformNormal(n: Vec3, out: Vec3 | null = null): Vec3 {
+    return this.transformVec3(n, out).normalize();
+  }
+
+  static multiply(a: Mat3, b: Mat3, out: Mat3 | null = null): Mat3 {
+    if (out === null) out = new Mat3();
+
+    const a00 = a.m00, a01 = a.m01, a02 = a.m02;
+    const a10 = a.m03, a11 = a.m04, a12 = a.m05;
+    const a20 = a.m06, a21 = a.m07, a22 = a.m08;
+
+    let bx = b.m00, by = b.m01, bz = b.m02;
+    const b10 = b.m03, b11 = b.m04, b12 = b.m05;
+    const b20 = b.m06, b21 = b.m07, b22 = b.m08;
+
+    out.m00 = bx * a00 + by * a10 + bz * a20;
+    out.m01 = bx * a01 + by * a11 + bz * a21;
+    out.m02 = bx * a02 + by * a12 + bz * a22;
+
+    bx = b10; by = b11; bz = b12;
+    out.m03 = bx * a00 + by * a10 + bz * a20;
+    out.m04 = bx * a01 + by * a11 + bz * a21;
+    out.m05 = bx * a02 + by * a12 + bz * a22;
+
+    bx = b20; by = b21; bz = b22;
+    out.m06 = bx * a00 + by * a10 + bz * a20;
+    out.m07 = bx * a01 + by * a11 + bz * a21;
+    out.m08 = bx * a02 + by * a12 + bz * a22;
+
+    return out;
+  }
+
+  static transpose(m: Mat3, out: Mat3 | null = null): Mat3 {
+    if (out === null) out = new Mat3();
+    const m01 = m.m01, m02 = m.m02, m05 = m.m05;
+    out.m00 = m.m00; out.m01 = m.m03; out.m02 = m.m06;
+    out.m03 = m01; out.m04 = m.m04; out.m05 = m.m07;
+    out.m06 = m02; out.m07 = m05; out.m08 = m.m08;
+    return out;
+  }
+
+  /** Upper-left 3x3 of `m` (rotation/scale/shear; translation and projection rows dropped). */
+  static fromMat4(m: Mat4, out: Mat3 | null = null): Mat3 {
+    if (out === null) out = new Mat3();
+    out.m00 = m.m00; out.m01 = m.m01; out.m02 = m.m02;
+    out.m03 = m.m04; out.m04 = m.m05; out.m05 = m.m06;
+    out.m06 = m.m08; out.m07 = m.m09; out.m08 = m.m10;
+    return out;
+  }
+
+  /** Rotation matrix of unit quaternion `q` — the upper 3x3 of `Mat4.fromQuat`. */
+  static fromQuat(q: Quat, out: Mat3 | null = null): Mat3 {
+    if (out === null) out = new Mat3();
+
+    const x = q.x, y = q.y, z = q.z, w = q.w;
+    const x2 = x + x, y2 = y + y, z2 = z + z;
+    const xx = x * x2, xy = x * y2, xz = x * z2;
+    const yy = y * y2, yz = y * z2, zz = z * z2;
+    const wx = w * x2, wy = w * y2, wz = w * z2;
+
+    out.m00 = 1 - (yy + zz); out.m01 = xy + wz; out.m02 = xz - wy;
+    out.m03 = xy - wz; out.m04 = 1 - (xx + zz); out.m05 = yz + wx;
+    out.m06 = xz + wy; out.m07 = yz - wx; out.m08 = 1 - (xx + yy);
+
+    return out;
+  }
+
+  /**
+   * Normal matrix: inverse-transpose of the upper 3x3 of `m` — keeps normals perpendicular
+   * under non-uniform scale, without the full 4x4 inverse. A singular upper 3x3 (zero scale
+   * on some axis) has no inverse; `out` then holds the plain upper 3x3, as {@link invert} would.
+   */
+  static normalFromMat4(m: Mat4, out: Mat3 | null = null): Mat3 {
+    if (out === null) out = new Mat3();
+
+    const a00 = m.m00, a01 = m.m01, a02 = m.m02;
+    const a10 = m.m04, a11 = m.m05, a12 = m.m06;
+    const a20 = m.m08, a21 = m.m09, a22 = m.m10;
+
+    // Cofactors — the inverse-transpose is cofactor(A) / det(A)
+    const c00 = a11 * a22 - a12 * a21;
+    const c01 = a12 * a20 - a10 * a22;
+    const c02 = a10 * a21 - a11 * a20;
+
+    let det = a00 * c00 + a01 * c01 + a02 * c02;
+
+    if (det === 0 || !Number.isFinite(det)) {
+      return Mat3.fromMat4(m, out);
+    }
+
+    det = 1.0 / det;
+
+    out.m00 = c00 * det;
+    out.m01 = c01 * det;
+    out.m02 = c02 * det;
+    out.m03 = (a02 * a21 - a01 * a22) * det;
+    out.m04 = (a00 * a22 - a02 * a20) * det;
+    out.m05 = (a01 * a20 - a00 * a21) * det;
+    out.m06 = (a01 * a12 - a02 * a11) * det;
+    out.m07 = (a02 * a10 - a00 * a12) * det;
+    out.m08 = (a00 * a11 - a01 * a10) * det;
+
+    return out;
+  }
+
+  /**
+   * Write matrix to Float32Array in std140 `mat3` layout (for GPU upload): each column
+   * padded to a vec4, so 12 floats with the 4th of every column written as 0.
+   * @param out - Target array (must have at least 12 elements past `offset`)
+   * @param offset - Starting index in output array (default: 0)
+   */
+  toFloat32Array(out: Float32Array, offset: number = 0): Float32Array {
+    out[offset + 0] = this.m00;
+    out[offset + 1] = this.m01;
+    out[offset + 2] = this.m02;
+    out[offset + 3] = 0;
+    out[offset + 4] = this.m03;
+    out[offset + 5] = this.m04;
+    out[offset + 6] = this.m05;
+    out[offset + 7] = 0;
+    out[offset + 8] = this.m06;
+    out[offset + 9] = this.m07;
+    out[offset + 10] = this.m08;
+    out[offset + 11] = 0;
+    return out;
+  }
+
+  /**
+   * Read matrix from a std140-padded Float32Array (the layout {@link toFloat32Array} writes)
+   * @param arr - Source array (must have at least 12 elements past `offset`)
+   * @param offset - Starting index in source array (default: 0)
+   */
+  fromFloat32Array(arr: Float32Array, offset: number = 0): this {
+    this.m00 = arr[offset + 0];
+    this.m01 = arr[offset + 1];
+    this.m02 = arr[offset + 2];
+    this.m03 = arr[offset + 4];
+    this.m04 = arr[offset + 5];
+    this.m05 = arr[offset + 6];
+    this.m06 = arr[offset + 8];
+    this.m07 = arr[offset + 9];
+    this.m08 = arr[offset + 10];
+    return this;
+  }
+}
@@ -1,6 +1,8 @@
-import { EPSILON, approxEqual } from './constants';
+import { EPSILON, EPSILON_LOOSE, approxEqual } from './constants';
 import { Vec3 } from './Vec3';
 import { Vec4 } from './Vec4';
+import { EULER_EXTRINSIC, EulerOrder } from './EulerOrder';
+import type { Quat } from './Quat';
 
 /**
  * Layout:
@@ -350,6 +352,21 @@ export class Mat4 {
            approxEqual(this.m15, m.m15, epsilon);
   }
 
+  /**
+   * Depth linearisation for THIS projection matrix: view-space z (negative in front of the
+   * camera) of a fragment at NDC depth `ndcDepth`. Reads only the depth row and w row, so it
+   * holds for every projection builder here — GL or ZO, forward or reversed, finite or
+   * infinite far, perspective or ortho. Reversed infinite depth 0 gives −Infinity.
+   */
+  viewZFromNdcDepth(ndcDepth: number): number {
+    return (this.m14 - ndcDepth * this.m15) / (ndcDepth * this.m11 - this.m10);
+  }
+
+  /** Inverse of {@link viewZFromNdcDepth}: NDC depth (clip.z / clip.w) of view-space z `viewZ`. */
+  ndcDepthFromViewZ(viewZ: number): number {
+    return (this.m10 * viewZ + this.m14) / (this.m11 * viewZ + this.m15);
+  }
+
   transformVec3(v: Vec3, out: Vec3 | null = null): Vec3 {
     if (out === null) out = new Vec3();
     const x = v.x, y = v.y, z = v.z;
@@ -442,7 +459,7 @@ export class Mat4 {
    * Perspective with clip depth [0, 1] (WebGPU/Vulkan/D3D convention) — the 3D
    * render path's projection ({@link perspective} maps to GL's [-1, 1]: on
    * WebGPU that clips away everything between the near plane and mid-depth).
-   * Reversed-Z (RND-4) will swap near/far through this same entry.
+   * Reversed-Z (RND-4) swaps near/far through this same entry — see {@link perspectiveReversedZO}.
    */
   static perspectiveZO(fovY: number, aspect: number, near: number, far: number, out: Mat4 | null = null): Mat4 {
     if (out === null) out = new Mat4();
@@ -458,6 +475,34 @@ export class Mat4 {
     return out;
   }
 
+  /**
+   * Reversed-Z perspective, clip depth [0, 1] with near → 1 and far → 0 (RND-4). Float depth
+   * spends its exponent range near 0, which reversed-Z hands to the far distances where the
+   * 1/z curve is flattest — with a `depth32float` buffer and a `greater` compare this removes
+   * z-fighting at planetary distances. Exactly {@link perspectiveZO} with near/far swapped.
+   */
+  static perspectiveReversedZO(fovY: number, aspect: number, near: number, far: number, out: Mat4 | null = null): Mat4 {
+    return Mat4.perspectiveZO(fovY, aspect, far, near, out);
+  }
+
+  /**
+   * Reversed-Z perspective with the far plane at infinity: near → 1, z → −∞ approaches 0.
+   * The limit of {@link perspectiveReversedZO} as far → ∞ — no far clip, and no far/near
+   * ratio to lose precision to.
+   */
+  static perspectiveInfiniteReversedZO(fovY: number, aspect: number, near: number, out: Mat4 | null = null): Mat4 {
+    if (out === null) out = new Mat4();
+
+    const f: number = 1.0 / Math.tan(fovY / 2.0);
+
+    out.m00 = f / aspect; out.m01 = 0; out.m02 = 0; out.m03 = 0;
+    out.m04 = 0; out.m05 = f; out.m06 = 0; out.m07 = 0;
+    out.m08 = 0; out.m09 = 0; out.m10 = 0; out.m11 = -1;
+    out.m12 = 0; out.m13 = 0; out.m14 = near; out.m15 = 0;
+
+    return out;
+  }
+
   /** GL-convention ortho (clip depth [-1, 1]) — the shipped 2D path (content sits at z≈0, mid-range). */
   static ortho(left: number, right: number, bottom: number, top: number, near: number, far: number, out: Mat4 | null = null): Mat4 {
     if (out === null) out = new Mat4();
@@ -490,6 +535,11 @@ export class Mat4 {
     return out;
   }
 
+  /** Reversed-Z ortho, clip depth [0, 1] with near → 1 and far → 0 — pairs with {@link perspectiveReversedZO}. */
+  static orthoReversedZO(left: number, right: number, bottom: number, top: number, near: number, far: number, out: Mat4 | null = null): Mat4 {
+    return Mat4.orthoZO(left, right, bottom, top, far, near, out);
+  }
+
   static lookAt(eye: Vec3, target: Vec3, up: Vec3, out: Mat4 | null = null): Mat4 {
     if (out === null) out = new Mat4();
 
@@ -532,6 +582,36 @@ export class Mat4 {
     return out;
   }
 
+  /**
+   * Rotation-only view matrix for camera-relative rendering: {@link lookAt} with the eye at
+   * the rebase origin, so there is no translation for the f32 narrow to round. Pair it with
+   * model matrices from {@link modelCameraRelative} using the eye as origin. `eye` and
+   * `target` may be absolute — their difference is taken in f64.
+   *
+   * When the origin is not the eye (e.g. a `FloatingOrigin`), use {@link lookAt} with the
+   * rebased eye and target instead; both are small, so it narrows safely too.
+   */
+  static lookAtCameraRelative(eye: Vec3, target: Vec3, up: Vec3, out: Mat4 | null = null): Mat4 {
+    out = Mat4.lookAt(eye, target, up, out);
+    out.m12 = 0;
+    out.m13 = 0;
+    out.m14 = 0;
+    return out;
+  }
+
+  /**
+   * Affine `model` with `origin` subtracted from its translation column in f64 — the matrix
+   * counterpart of `worldToCameraRelative`. The linear part is copied unchanged.
+   */
+  static modelCameraRelative(model: Mat4, origin: Vec3, out: Mat4 | null = null): Mat4 {
+    if (out === null) out = new Mat4();
+    out.copy(model);
+    out.m12 = model.m12 - origin.x;
+    out.m13 = model.m13 - origin.y;
+    out.m14 = model.m14 - origin.z;
+    return out;
+  }
+
   static fromTranslation(x: number, y: number, z: number, out: Mat4 | null = null): Mat4 {
     if (out === null) out = new Mat4();
     out.m00 = 1; out.m01 = 0; out.m02 = 0; out.m03 = 0;
@@ -582,6 +662,112 @@ export class Mat4 {
     out.m12 = 0; out.m13 = 0; out.m14 = 0; out.m15 = 1;
     return out;
   }
+
+  /**
+   * Rotation matrix of Euler angles `a`, `b`, `c` (radians) in `order`'s sequence — the
+   * matrix of `Quat.fromEuler(a, b, c, order)`.
+   */
+  static fromEuler(a: number, b: number, c: number, order: EulerOrder = EulerOrder.IntrinsicXYZ, out: Mat4 | null = null): Mat4 {
+    if (out === null) out = new Mat4();
+    const first: number = order & 3, second: number = (order >> 2) & 3, third: number = (order >> 4) & 3;
+
+    // rotateX/Y/Z post-multiply: intrinsic R1·R2·R3, extrinsic R3·R2·R1
+    out.setIdentity();
+    if ((order & EULER_EXTRINSIC) === 0) {
+      rotateAxis(out, first, a);
+      rotateAxis(out, second, b);
+      rotateAxis(out, third, c);
+    } else {
+      rotateAxis(out, third, c);
+      rotateAxis(out, second, b);
+      rotateAxis(out, first, a);
+    }
+
+    return out;
+  }
+
+  /** Rotation matrix of unit quaternion `q` (same layout as `Quat.toMat4`). */
+  static fromQuat(q: Quat, out: Mat4 | null = null): Mat4 {
+    if (out === null) out = new Mat4();
+
+    const x = q.x, y = q.y, z = q.z, w = q.w;
+    const x2 = x + x, y2 = y + y, z2 = z + z;
+    const xx = x * x2, xy = x * y2, xz = x * z2;
+    const yy = y * y2, yz = y * z2, zz = z * z2;
+    const wx = w * x2, wy = w * y2, wz = w * z2;
+
+    out.m00 = 1 - (yy + zz); out.m01 = xy + wz; out.m02 = xz - wy; out.m03 = 0;
+    out.m04 = xy - wz; out.m05 = 1 - (xx + zz); out.m06 = yz + wx; out.m07 = 0;
+    out.m08 = xz + wy; out.m09 = yz - wx; out.m10 = 1 - (xx + yy); out.m11 = 0;
+    out.m12 = 0; out.m13 = 0; out.m14 = 0; out.m15 = 1;
+
+    return out;
+  }
+
+  /** T · R · S — translation `t`, rotation `q` (unit), scale `s`. The inverse of {@link decompose}. */
+  static compose(t: Vec3, q: Quat, s: Vec3, out: Mat4 | null = null): Mat4 {
+    if (out === null) out = new Mat4();
+
+    const x = q.x, y = q.y, z = q.z, w = q.w;
+    const x2 = x + x, y2 = y + y, z2 = z + z;
+    const xx = x * x2, xy = x * y2, xz = x * z2;
+    const yy = y * y2, yz = y * z2, zz = z * z2;
+    const wx = w * x2, wy = w * y2, wz = w * z2;
+    const sx = s.x, sy = s.y, sz = s.z;
+
+    out.m00 = (1 - (yy + zz)) * sx; out.m01 = (xy + wz) * sx; out.m02 = (xz - wy) * sx; out.m03 = 0;
+    out.m04 = (xy - wz) * sy; out.m05 = (1 - (xx + zz)) * sy; out.m06 = (yz + wx) * sy; out.m07 = 0;
+    out.m08 = (xz + wy) * sz; out.m09 = (yz - wx) * sz; out.m10 = (1 - (xx + yy)) * sz; out.m11 = 0;
+    out.m12 = t.x; out.m13 = t.y; out.m14 = t.z; out.m15 = 1;
+
+    return out;
+  }
+
+  /**
+   * Split an affine `m` into translation, rotation and scale so that
+   * `compose(outT, outQ, outS)` rebuilds it. A mirrored basis (negative determinant)
+   * comes back as a negative `outS.x` with a proper rotation in `outQ`.
+   *
+   * Returns false — outputs still filled best-effort — when `m` is not a TRS matrix:
+   * a projective bottom row, a collapsed axis (zero scale) or shear (non-orthogonal
+   * basis columns). Callers importing arbitrary matrices (glTF nodes) must check it.
+   */
+  static decompose(m: Mat4, outT: Vec3, outQ: Quat, outS: Vec3): boolean {
+    outT.x = m.m12;
+    outT.y = m.m13;
+    outT.z = m.m14;
+
+    let sx: number = Math.sqrt(m.m00 * m.m00 + m.m01 * m.m01 + m.m02 * m.m02);
+    const sy: number = Math.sqrt(m.m04 * m.m04 + m.m05 * m.m05 + m.m06 * m.m06);
+    const sz: number = Math.sqrt(m.m08 * m.m08 + m.m09 * m.m09 + m.m10 * m.m10);
+
+    const det: number = m.m00 * (m.m05 * m.m10 - m.m06 * m.m09) +
+                        m.m01 * (m.m06 * m.m08 - m.m04 * m.m10) +
+                        m.m02 * (m.m04 * m.m09 - m.m05 * m.m08);
+    if (det < 0) sx = -sx;
+
+    outS.x = sx;
+    outS.y = sy;
+    outS.z = sz;
+    outQ.setFromRotationMatrix(m);
+
+    if (!approxEqual(m.m03, 0) || !approxEqual(m.m07, 0) || !approxEqual(m.m11, 0) || !approxEqual(m.m15, 1)) {
+      return false; // Projective
+    }
+
+    const asx: number = sx < 0 ? -sx : sx;
+    if (asx < EPSILON || sy < EPSILON || sz < EPSILON) {
+      return false; // Degenerate
+    }
+
+    // Pairwise cosines of the basis columns — any noticeable one means shear
+    const d01: number = (m.m00 * m.m04 + m.m01 * m.m05 + m.m02 * m.m06) / (asx * sy);
+    const d02: number = (m.m00 * m.m08 + m.m01 * m.m09 + m.m02 * m.m10) / (asx * sz);
+    const d12: number = (m.m04 * m.m08 + m.m05 * m.m09 + m.m06 * m.m10) / (sy * sz);
+    return approxEqual(d01, 0, EPSILON_LOOSE) &&
+           approxEqual(d02, 0, EPSILON_LOOSE) &&
+           approxEqual(d12, 0, EPSILON_LOOSE);
+  }
   
   /**
    * Write matrix to Float32Array (for GPU upload)
@@ -633,3 +819,9 @@ export class Mat4 {
     return this;
   }
 }
+
+function rotateAxis(m: Mat4, axis: number, radians: number): void {
+  if (axis === 0) m.rotateX(radians);
+  else if (axis === 1) m.rotateY(radians);
+  else m.rotateZ(radians);
+}
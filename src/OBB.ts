@@ -0,0 +1,348 @@
+import { EPSILON } from './constants';
+import { Vec3 } from './Vec3';
+import { Mat3 } from './Mat3';
+import { AABB } from './AABB';
+import type { Mat4 } from './Mat4';
+import type { Quat } from './Quat';
+import type { Sphere } from './Sphere';
+
+/**
+ * Oriented bounding box: `center`, `halfExtents` along the box's local axes, and `basis`
+ * whose columns are those axes in world space (orthonormal — every setter keeps it so).
+ * World point = center + basis · local, |local_i| ≤ halfExtents_i.
+ */
+export class OBB {
+  center: Vec3;
+  halfExtents: Vec3;
+  basis: Mat3;
+
+  constructor() {
+    this.center = new Vec3(0, 0, 0);
+    this.halfExtents = new Vec3(0, 0, 0);
+    this.basis = new Mat3();
+  }
+
+  static fromCenterHalfExtentsQuat(center: Vec3, halfExtents: Vec3, rotation: Quat): OBB {
+    const obb = new OBB();
+    obb.center.copy(center);
+    obb.halfExtents.copy(halfExtents);
+    Mat3.fromQuat(rotation, obb.basis);
+    return obb;
+  }
+
+  static fromAABB(aabb: AABB, m: Mat4 | null = null): OBB {
+    return new OBB().setFromAABB(aabb, m);
+  }
+
+  /** Principal-axis fit — see {@link setFromPoints}. */
+  static fromPoints(points: Vec3[]): OBB {
+    return new OBB().setFromPoints(points);
+  }
+
+  copy(src: OBB): this {
+    this.center.copy(src.center);
+    this.halfExtents.copy(src.halfExtents);
+    this.basis.copy(src.basis);
+    return this;
+  }
+
+  clone(): OBB {
+    return new OBB().copy(this);
+  }
+
+  setRotation(q: Quat): this {
+    Mat3.fromQuat(q, this.basis);
+    return this;
+  }
+
+  /**
+   * The box `aabb` carried through `m` (identity when null). Exact for rotation,
+   * translation and (non-uniform or mirrored) axis scale; shear has no OBB image, so a
+   * sheared `m` gives the box spanned by its normalised columns.
+   */
+  setFromAABB(aabb: AABB, m: Mat4 | null = null): this {
+    const ex = (aabb.max.x - aabb.min.x) * 0.5;
+    const ey = (aabb.max.y - aabb.min.y) * 0.5;
+    const ez = (aabb.max.z - aabb.min.z) * 0.5;
+    aabb.getCenter(this.center);
+
+    if (m === null) {
+      this.halfExtents.set(ex, ey, ez);
+      this.basis.setIdentity();
+      return this;
+    }
+
+    m.transformVec3(this.center, this.center);
+    Mat3.fromMat4(m, this.basis);
+    const b = this.basis;
+    const sx: number = Math.sqrt(b.m00 * b.m00 + b.m01 * b.m01 + b.m02 * b.m02);
+    const sy: number = Math.sqrt(b.m03 * b.m03 + b.m04 * b.m04 + b.m05 * b.m05);
+    const sz: number = Math.sqrt(b.m06 * b.m06 + b.m07 * b.m07 + b.m08 * b.m08);
+    b.scale(sx > EPSILON ? 1.0 / sx : 0, sy > EPSILON ? 1.0 / sy : 0, sz > EPSILON ? 1.0 / sz : 0);
+    this.halfExtents.set(ex * sx, ey * sy, ez * sz);
+    return this;
+  }
+
+  /**
+   * Fit to a point cloud along the principal axes of its covariance (PCA, Jacobi
+   * eigen-decomposition). Tight for elongated clouds; for near-isotropic ones the axes are
+   * arbitrary and an AABB may be as good. Allocation-free.
+   */
+  setFromPoints(points: Vec3[]): this {
+    const n = points.length;
+    if (n === 0) {
+      this.center.set(0, 0, 0);
+      this.halfExtents.set(0, 0, 0);
+      this.basis.setIdentity();
+      return this;
+    }
+
+    let mx: number = 0, my: number = 0, mz: number = 0;
+    for (let i = 0; i < n; i++) {
+      mx += points[i].x; my += points[i].y; mz += points[i].z;
+    }
+    const invN: number = 1.0 / n;
+    mx *= invN; my *= invN; mz *= invN;
+
+    let cxx: number = 0, cxy: number = 0, cxz: number = 0, cyy: number = 0, cyz: number = 0, czz: number = 0;
+    for (let i = 0; i < n; i++) {
+      const dx = points[i].x - mx, dy = points[i].y - my, dz = points[i].z - mz;
+      cxx += dx * dx; cxy += dx * dy; cxz += dx * dz;
+      cyy += dy * dy; cyz += dy * dz; czz += dz * dz;
+    }
+
+    const a = _cov;
+    a[0] = cxx; a[1] = cxy; a[2] = cxz;
+    a[3] = cxy; a[4] = cyy; a[5] = cyz;
+    a[6] = cxz; a[7] = cyz; a[8] = czz;
+    symmetricEigenvectors(a, this.basis);
+
+    // Right-handed, exactly orthonormal basis: z = x × y
+    const b = this.basis;
+    b.m06 = b.m01 * b.m05 - b.m02 * b.m04;
+    b.m07 = b.m02 * b.m03 - b.m00 * b.m05;
+    b.m08 = b.m00 * b.m04 - b.m01 * b.m03;
+
+    let minU: number = Infinity, minV: number = Infinity, minW: number = Infinity;
+    let maxU: number = -Infinity, maxV: number = -Infinity, maxW: number = -Infinity;
+    for (let i = 0; i < n; i++) {
+      const dx = points[i].x - mx, dy = points[i].y - my, dz = points[i].z - mz;
+      const u = dx * b.m00 + dy * b.m01 + dz * b.m02;
+      const v = dx * b.m03 + dy * b.m04 + dz * b.m05;
+      const w = dx * b.m06 + dy * b.m07 + dz * b.m08;
+      if (u < minU) minU = u; if (u > maxU) maxU = u;
+      if (v < minV) minV = v; if (v > maxV) maxV = v;
+      if (w < minW) minW = w; if (w > maxW) maxW = w;
+    }
+
+    const cu = (minU + maxU) * 0.5, cv = (minV + maxV) * 0.5, cw = (minW + maxW) * 0.5;
+    this.center.set(
+      mx + b.m00 * cu + b.m03 * cv + b.m06 * cw,
+      my + b.m01 * cu + b.m04 * cv + b.m07 * cw,
+      mz + b.m02 * cu + b.m05 * cv + b.m08 * cw
+    );
+    this.halfExtents.set((maxU - minU) * 0.5, (maxV - minV) * 0.5, (maxW - minW) * 0.5);
+    return this;
+  }
+
+  containsPoint(x: number, y: number, z: number): boolean {
+    const b = this.basis, e = this.halfExtents;
+    const dx = x - this.center.x, dy = y - this.center.y, dz = z - this.center.z;
+    const u = dx * b.m00 + dy * b.m01 + dz * b.m02;
+    const v = dx * b.m03 + dy * b.m04 + dz * b.m05;
+    const w = dx * b.m06 + dy * b.m07 + dz * b.m08;
+    return u >= -e.x && u <= e.x && v >= -e.y && v <= e.y && w >= -e.z && w <= e.z;
+  }
+
+  containsPointVec(p: Vec3): boolean {
+    return this.containsPoint(p.x, p.y, p.z);
+  }
+
+  closestPoint(x: number, y: number, z: number, out: Vec3 | null = null): Vec3 {
+    if (out === null) out = new Vec3();
+    const b = this.basis, e = this.halfExtents;
+    const dx = x - this.center.x, dy = y - this.center.y, dz = z - this.center.z;
+    let u = dx * b.m00 + dy * b.m01 + dz * b.m02;
+    let v = dx * b.m03 + dy * b.m04 + dz * b.m05;
+    let w = dx * b.m06 + dy * b.m07 + dz * b.m08;
+    u = u < -e.x ? -e.x : (u > e.x ? e.x : u);
+    v = v < -e.y ? -e.y : (v > e.y ? e.y : v);
+    w = w < -e.z ? -e.z : (w > e.z ? e.z : w);
+    out.x = this.center.x + b.m00 * u + b.m03 * v + b.m06 * w;
+    out.y = this.center.y + b.m01 * u + b.m04 * v + b.m07 * w;
+    out.z = this.center.z + b.m02 * u + b.m05 * v + b.m08 * w;
+    return out;
+  }
+
+  closestPointVec(p: Vec3, out: Vec3 | null = null): Vec3 {
+    return this.closestPoint(p.x, p.y, p.z, out);
+  }
+
+  intersectsSphere(sphere: Sphere): boolean {
+    if (sphere.radius < 0) return false;
+    const c = sphere.center;
+    const q = this.closestPoint(c.x, c.y, c.z, _closest);
+    return Vec3.distanceSq(q, c) <= sphere.radius * sphere.radius;
+  }
+
+  /**
+   * Separating-axis test against another OBB — the 15 candidate axes (3 + 3 face normals,
+   * 9 edge cross products), after Gottschalk et al. / Ericson, RTCD §4.4.1.
+   */
+  intersectsOBB(other: OBB): boolean {
+    const A = this.basis, B = other.basis;
+    const a0 = this.halfExtents.x, a1 = this.halfExtents.y, a2 = this.halfExtents.z;
+    const b0 = other.halfExtents.x, b1 = other.halfExtents.y, b2 = other.halfExtents.z;
+
+    // R[i][j] = A_i · B_j — other's axes expressed in this box's frame
+    const r00 = A.m00 * B.m00 + A.m01 * B.m01 + A.m02 * B.m02;
+    const r01 = A.m00 * B.m03 + A.m01 * B.m04 + A.m02 * B.m05;
+    const r02 = A.m00 * B.m06 + A.m01 * B.m07 + A.m02 * B.m08;
+    const r10 = A.m03 * B.m00 + A.m04 * B.m01 + A.m05 * B.m02;
+    const r11 = A.m03 * B.m03 + A.m04 * B.m04 + A.m05 * B.m05;
+    const r12 = A.m03 * B.m06 + A.m04 * B.m07 + A.m05 * B.m08;
+    const r20 = A.m06 * B.m00 + A.m07 * B.m01 + A.m08 * B.m02;
+    const r21 = A.m06 * B.m03 + A.m07 * B.m04 + A.m08 * B.m05;
+    const r22 = A.m06 * B.m06 + A.m07 * B.m07 + A.m08 * B.m08;
+
+    // Translation in this box's frame
+    const dx = other.center.x - this.center.x;
+    const dy = other.center.y - this.center.y;
+    const dz = other.center.z - this.center.z;
+    const t0 = dx * A.m00 + dy * A.m01 + dz * A.m02;
+    const t1 = dx * A.m03 + dy * A.m04 + dz * A.m05;
+    const t2 = dx * A.m06 + dy * A.m07 + dz * A.m08;
+
+    // Epsilon keeps near-parallel edge pairs (cross product ≈ 0) from false separation
+    const ar00 = Math.abs(r00) + EPSILON, ar01 = Math.abs(r01) + EPSILON, ar02 = Math.abs(r02) + EPSILON;
+    const ar10 = Math.abs(r10) + EPSILON, ar11 = Math.abs(r11) + EPSILON, ar12 = Math.abs(r12) + EPSILON;
+    const ar20 = Math.abs(r20) + EPSILON, ar21 = Math.abs(r21) + EPSILON, ar22 = Math.abs(r22) + EPSILON;
+
+    // This box's face normals
+    if (Math.abs(t0) > a0 + b0 * ar00 + b1 * ar01 + b2 * ar02) return false;
+    if (Math.abs(t1) > a1 + b0 * ar10 + b1 * ar11 + b2 * ar12) return false;
+    if (Math.abs(t2) > a2 + b0 * ar20 + b1 * ar21 + b2 * ar22) return false;
+
+    // Other box's face normals
+    if (Math.abs(t0 * r00 + t1 * r10 + t2 * r20) > a0 * ar00 + a1 * ar10 + a2 * ar20 + b0) return false;
+    if (Math.abs(t0 * r01 + t1 * r11 + t2 * r21) > a0 * ar01 + a1 * ar11 + a2 * ar21 + b1) return false;
+    if (Math.abs(t0 * r02 + t1 * r12 + t2 * r22) > a0 * ar02 + a1 * ar12 + a2 * ar22 + b2) return false;
+
+    // Edge-edge cross products A_i × B_j
+    if (Math.abs(t2 * r10 - t1 * r20) > a1 * ar20 + a2 * ar10 + b1 * ar02 + b2 * ar01) return false;
+    if (Math.abs(t2 * r11 - t1 * r21) > a1 * ar21 + a2 * ar11 + b0 * ar02 + b2 * ar00) return false;
+    if (Math.abs(t2 * r12 - t1 * r22) > a1 * ar22 + a2 * ar12 + b0 * ar01 + b1 * ar00) return false;
+    if (Math.abs(t0 * r20 - t2 * r00) > a0 * ar20 + a2 * ar00 + b1 * ar12 + b2 * ar11) return false;
+    if (Math.abs(t0 * r21 - t2 * r01) > a0 * ar21 + a2 * ar01 + b0 * ar12 + b2 * ar10) return false;
+    if (Math.abs(t0 * r22 - t2 * r02) > a0 * ar22 + a2 * ar02 + b0 * ar11 + b1 * ar10) return false;
+    if (Math.abs(t1 * r00 - t0 * r10) > a0 * ar10 + a1 * ar00 + b1 * ar22 + b2 * ar21) return false;
+    if (Math.abs(t1 * r01 - t0 * r11) > a0 * ar11 + a1 * ar01 + b0 * ar22 + b2 * ar20) return false;
+    if (Math.abs(t1 * r02 - t0 * r12) > a0 * ar12 + a1 * ar02 + b0 * ar21 + b1 * ar20) return false;
+
+    return true;
+  }
+
+  intersectsAABB(aabb: AABB): boolean {
+    return this.intersectsOBB(_aabbBox.setFromAABB(aabb));
+  }
+
+  /** Tight world AABB of the box: extent_i = Σ_j |basis_ij| · halfExtents_j. */
+  getBoundingAABB(out: AABB | null = null): AABB {
+    if (out === null) out = new AABB();
+    const b = this.basis, e = this.halfExtents, c = this.center;
+    const ex = Math.abs(b.m00) * e.x + Math.abs(b.m03) * e.y + Math.abs(b.m06) * e.z;
+    const ey = Math.abs(b.m01) * e.x + Math.abs(b.m04) * e.y + Math.abs(b.m07) * e.z;
+    const ez = Math.abs(b.m02) * e.x + Math.abs(b.m05) * e.y + Math.abs(b.m08) * e.z;
+    return out.set(c.x - ex, c.y - ey, c.z - ez, c.x + ex, c.y + ey, c.z + ez);
+  }
+
+  /** The 8 corners; bit 0/1/2 of the index selects +/− along local x/y/z (set = +). */
+  getCorners(out: Vec3[] | null = null): Vec3[] {
+    if (out === null) {
+      out = [new Vec3(), new Vec3(), new Vec3(), new Vec3(), new Vec3(), new Vec3(), new Vec3(), new Vec3()];
+    }
+    const b = this.basis, e = this.halfExtents, c = this.center;
+    for (let i = 0; i < 8; i++) {
+      const u = i & 1 ? e.x : -e.x;
+      const v = i & 2 ? e.y : -e.y;
+      const w = i & 4 ? e.z : -e.z;
+      out[i].set(
+        c.x + b.m00 * u + b.m03 * v + b.m06 * w,
+        c.y + b.m01 * u + b.m04 * v + b.m07 * w,
+        c.z + b.m02 * u + b.m05 * v + b.m08 * w
+      );
+    }
+    return out;
+  }
+
+  equals(other: OBB, epsilon: number = EPSILON): boolean {
+    return this.center.equals(other.center, epsilon) &&
+           this.halfExtents.equals(other.halfExtents, epsilon) &&
+           this.basis.equals(other.basis, epsilon);
+  }
+}
+
+// Scratch state — keeps intersectsAABB / intersectsSphere / setFromPoints allocation-free
+const _aabbBox = new OBB();
+const _closest = new Vec3();
+const _cov = new Float64Array(9);
+
+/**
+ * Cyclic Jacobi eigen-decomposition of the symmetric 3x3 `a` (row-major, destroyed).
+ * Writes the eigenvectors as the columns of `out`.
+ */
+function symmetricEigenvectors(a: Float64Array, out: Mat3): void {
+  let v00 = 1, v01 = 0, v02 = 0;
+  let v10 = 0, v11 = 1, v12 = 0;
+  let v20 = 0, v21 = 0, v22 = 1;
+
+  for (let sweep = 0; sweep < 32; sweep++) {
+    const off: number = a[1] * a[1] + a[2] * a[2] + a[5] * a[5];
+    const diag: number = a[0] * a[0] + a[4] * a[4] + a[8] * a[8];
+    if (off <= 1e-24 * diag || off === 0) break;
+
+    for (let pair = 0; pair < 3; pair++) {
+      const p = pair === 2 ? 1 : 0;
+      const q = pair === 0 ? 1 : 2;
+      const apq: number = a[p * 3 + q];
+      if (apq === 0) continue;
+
+      // Rotation that zeroes a[p][q] (Numerical Recipes §11.1)
+      const theta: number = (a[q * 4] - a[p * 4]) / (2.0 * apq);
+      const t: number = (theta >= 0 ? 1.0 : -1.0) / (Math.abs(theta) + Math.sqrt(theta * theta + 1.0));
+      const c: number = 1.0 / Math.sqrt(t * t + 1.0);
+      const s: number = t * c;
+
+      for (let k = 0; k < 3; k++) {
+        const akp = a[k * 3 + p], akq = a[k * 3 + q];
+        a[k * 3 + p] = c * akp - s * akq;
+        a[k * 3 + q] = s * akp + c * akq;
+      }
+      for (let k = 0; k < 3; k++) {
+        const apk = a[p * 3 + k], aqk = a[q * 3 + k];
+        a[p * 3 + k] = c * apk - s * aqk;
+        a[q * 3 + k] = s * apk + c * aqk;
+      }
+
+      // V ← V · J (columns p, q)
+      if (p === 0 && q === 1) {
+        let x = v00, y = v01; v00 = c * x - s * y; v01 = s * x + c * y;
+        x = v10; y = v11; v10 = c * x - s * y; v11 = s * x + c * y;
+        x = v20; y = v21; v20 = c * x - s * y; v21 = s * x + c * y;
+      } else if (p === 0) {
+        let x = v00, y = v02; v00 = c * x - s * y; v02 = s * x + c * y;
+        x = v10; y = v12; v10 = c * x - s * y; v12 = s * x + c * y;
+        x = v20; y = v22; v20 = c * x - s * y; v22 = s * x + c * y;
+      } else {
+        let x = v01, y = v02; v01 = c * x - s * y; v02 = s * x + c * y;
+        x = v11; y = v12; v11 = c * x - s * y; v12 = s * x + c * y;
+        x = v21; y = v22; v21 = c * x - s * y; v22 = s * x + c * y;
+      }
+    }
+  }
+
+  // Column j of V is eigenvector j
+  out.m00 = v00; out.m01 = v10; out.m02 = v20;
+  out.m03 = v01; out.m04 = v11; out.m05 = v21;
+  out.m06 = v02; out.m07 = v12; out.m08 = v22;
+}
@@ -0,0 +1,185 @@
+import { EPSILON, approxEqual } from './constants';
+import { Vec3 } from './Vec3';
+import { Mat4 } from './Mat4';
+
+// Scratch for transform() — keeps per-frame clip/mirror plane updates allocation-free
+const _inv = new Mat4();
+
+/**
+ * Plane n·p + d = 0 — the same (nx, ny, nz, d) convention as `Ray.intersectPlane`.
+ * `normal` points to the positive half-space; it is unit length after {@link normalize}
+ * and after every `fromX`/`setFromX` builder, which the distance queries assume.
+ */
+export class Plane {
+  normal: Vec3;
+  d: number;
+
+  constructor() {
+    this.normal = new Vec3(0, 1, 0);
+    this.d = 0;
+  }
+
+  static create(nx: number, ny: number, nz: number, d: number): Plane {
+    return new Plane().set(nx, ny, nz, d);
+  }
+
+  static fromNormalAndPoint(normal: Vec3, point: Vec3): Plane {
+    return new Plane().setFromNormalAndPoint(normal, point);
+  }
+
+  /** Plane through `a`, `b`, `c`; counter-clockwise winding faces the normal. */
+  static fromPoints(a: Vec3, b: Vec3, c: Vec3): Plane {
+    return new Plane().setFromPoints(a, b, c);
+  }
+
+  /** Raw set — not normalised (see {@link normalize}). */
+  set(nx: number, ny: number, nz: number, d: number): this {
+    this.normal.set(nx, ny, nz);
+    this.d = d;
+    return this;
+  }
+
+  setFromNormalAndPoint(normal: Vec3, point: Vec3): this {
+    this.normal.copy(normal).normalize();
+    this.d = -this.normal.dot(point);
+    return this;
+  }
+
+  setFromPoints(a: Vec3, b: Vec3, c: Vec3): this {
+    const e1x = b.x - a.x, e1y = b.y - a.y, e1z = b.z - a.z;
+    const e2x = c.x - a.x, e2y = c.y - a.y, e2z = c.z - a.z;
+    this.normal.set(
+      e1y * e2z - e1z * e2y,
+      e1z * e2x - e1x * e2z,
+      e1x * e2y - e1y * e2x
+    ).normalize();
+    this.d = -this.normal.dot(a);
+    return this;
+  }
+
+  copy(src: Plane): this {
+    this.normal.copy(src.normal);
+    this.d = src.d;
+    return this;
+  }
+
+  clone(): Plane {
+    return new Plane().copy(this);
+  }
+
+  /** Scale (normal, d) so the normal is unit length. A zero normal is left untouched. */
+  normalize(): this {
+    const len: number = this.normal.length();
+    if (len > EPSILON) {
+      const invLen: number = 1.0 / len;
+      this.normal.mulScalar(invLen);
+      this.d *= invLen;
+    }
+    return this;
+  }
+
+  /** Same plane, opposite facing. */
+  negate(): this {
+    this.normal.negate();
+    this.d = -this.d;
+    return this;
+  }
+
+  signedDistanceToPoint(x: number, y: number, z: number): number {
+    return this.normal.x * x + this.normal.y * y + this.normal.z * z + this.d;
+  }
+
+  signedDistanceToPointVec(p: Vec3): number {
+    return this.signedDistanceToPoint(p.x, p.y, p.z);
+  }
+
+  projectPoint(p: Vec3, out: Vec3 | null = null): Vec3 {
+    if (out === null) out = new Vec3();
+    const dist: number = this.signedDistanceToPointVec(p);
+    out.x = p.x - this.normal.x * dist;
+    out.y = p.y - this.normal.y * dist;
+    out.z = p.z - this.normal.z * dist;
+    return out;
+  }
+
+  /** The point of the plane closest to the origin. */
+  coplanarPoint(out: Vec3 | null = null): Vec3 {
+    if (out === null) out = new Vec3();
+    out.x = -this.normal.x * this.d;
+    out.y = -this.normal.y * this.d;
+    out.z = -this.normal.z * this.d;
+    return out;
+  }
+
+  /**
+   * Intersect the segment `start`→`end`. Returns the segment parameter t in [0, 1]
+   * (and writes the point to `out`), or -1 when the segment misses or lies in the plane.
+   */
+  intersectLine(start: Vec3, end: Vec3, out: Vec3 | null = null): number {
+    const dx = end.x - start.x, dy = end.y - start.y, dz = end.z - start.z;
+    const denom: number = this.normal.x * dx + this.normal.y * dy + this.normal.z * dz;
+
+    if (denom > -EPSILON && denom < EPSILON) {
+      return -1; // Parallel
+    }
+
+    const t: number = -this.signedDistanceToPointVec(start) / denom;
+    if (t < 0 || t > 1) {
+      return -1;
+    }
+
+    if (out !== null) {
+      out.x = start.x + dx * t;
+      out.y = start.y + dy * t;
+      out.z = start.z + dz * t;
+    }
+    return t;
+  }
+
+  /**
+   * Transform by `m`. Planes are covectors: (n, d) maps through the inverse-transpose,
+   * so non-uniform scale and shear keep the plane attached to the transformed points.
+   * A singular `m` leaves the plane unchanged (same policy as `Mat4.invert`).
+   */
+  transform(m: Mat4): this {
+    if (m.determinant() === 0) return this;
+    const inv = _inv.copy(m).invert();
+
+    const nx = this.normal.x, ny = this.normal.y, nz = this.normal.z, d = this.d;
+    // (inv^T · p)_i = column i of inv · p
+    this.normal.x = inv.m00 * nx + inv.m01 * ny + inv.m02 * nz + inv.m03 * d;
+    this.normal.y = inv.m04 * nx + inv.m05 * ny + inv.m06 * nz + inv.m07 * d;
+    this.normal.z = inv.m08 * nx + inv.m09 * ny + inv.m10 * nz + inv.m11 * d;
+    this.d = inv.m12 * nx + inv.m13 * ny + inv.m14 * nz + inv.m15 * d;
+
+    return this.normalize();
+  }
+
+  equals(other: Plane, epsilon: number = EPSILON): boolean {
+    return this.normal.equals(other.normal, epsilon) && approxEqual(this.d, other.d, epsilon);
+  }
+
+  /**
+   * Point common to three planes, written to `out`. Returns false (out untouched) when
+   * any two are parallel — no single intersection point exists.
+   */
+  static intersectPlanes(a: Plane, b: Plane, c: Plane, out: Vec3): boolean {
+    const an = a.normal, bn = b.normal, cn = c.normal;
+    const bcx = bn.y * cn.z - bn.z * cn.y, bcy = bn.z * cn.x - bn.x * cn.z, bcz = bn.x * cn.y - bn.y * cn.x;
+    const det: number = an.x * bcx + an.y * bcy + an.z * bcz;
+
+    if (det > -EPSILON && det < EPSILON) {
+      return false;
+    }
+
+    const cax = cn.y * an.z - cn.z * an.y, cay = cn.z * an.x - cn.x * an.z, caz = cn.x * an.y - cn.y * an.x;
+    const abx = an.y * bn.z - an.z * bn.y, aby = an.z * bn.x - an.x * bn.z, abz = an.x * bn.y - an.y * bn.x;
+
+    // p = −(d_a (n_b×n_c) + d_b (n_c×n_a) + d_c (n_a×n_b)) / (n_a·(n_b×n_c))
+    const invDet: number = -1.0 / det;
+    out.x = (a.d * bcx + b.d * cax + c.d * abx) * invDet;
+    out.y = (a.d * bcy + b.d * cay + c.d * aby) * invDet;
+    out.z = (a.d * bcz + b.d * caz + c.d * abz) * invDet;
+    return true;
+  }
+}
@@ -0,0 +1,312 @@
+import { Rect } from './Rect';
+import type { Vec2 } from './Vec2';
+
+/** Query visitor. Return false to stop the query early. */
+export type QuadtreeQueryCallback = (id: number) => boolean | void;
+
+class QuadNode {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+  depth: number;
+  parent: QuadNode | null;
+  /** Quadrant i: bit 0/1 set = +x/+y half. Null for a leaf. */
+  children: QuadNode[] | null;
+  items: number[];
+
+  constructor(minX: number, minY: number, maxX: number, maxY: number, depth: number, parent: QuadNode | null) {
+    this.minX = minX;
+    this.minY = minY;
+    this.maxX = maxX;
+    this.maxY = maxY;
+    this.depth = depth;
+    this.parent = parent;
+    this.children = null;
+    this.items = [];
+  }
+}
+
+/**
+ * Region quadtree of id-keyed `Rect`s. A leaf splits into four equal quadrants once it
+ * holds more than `maxItems` (down to `maxDepth`); each item lives in the deepest node
+ * whose region contains it entirely, so items straddling a split line stay in the parent.
+ * Siblings merge back when their items fit in one node again. Items outside the root
+ * region stay in the root.
+ *
+ * Queries reuse one node stack and do not allocate; callbacks must not start another
+ * query on the same tree.
+ */
+export class Quadtree {
+  readonly maxItems: number;
+  readonly maxDepth: number;
+  private root: QuadNode;
+
+  private bounds: Float64Array;
+  private owner: (QuadNode | null)[];
+  /** Index of each item in its node's `items`. */
+  private slot: Int32Array;
+  private size: number;
+  private stack: QuadNode[];
+
+  constructor(bounds: Rect, maxItems: number = 8, maxDepth: number = 8) {
+    this.maxItems = maxItems;
+    this.maxDepth = maxDepth;
+    this.root = new QuadNode(bounds.min.x, bounds.min.y, bounds.max.x, bounds.max.y, 0, null);
+    this.bounds = new Float64Array(0);
+    this.owner = [];
+    this.slot = new Int32Array(0);
+    this.size = 0;
+    this.stack = [];
+  }
+
+  get count(): number {
+    return this.size;
+  }
+
+  /** False for ids that are negative, fractional or not in the tree. */
+  has(id: number): boolean {
+    return (id | 0) === id && id >= 0 && id < this.owner.length && this.owner[id] !== null;
+  }
+
+  getRect(id: number, out: Rect | null = null): Rect {
+    if (out === null) out = new Rect();
+    const b = this.bounds, o = id * 4;
+    return out.set(b[o], b[o + 1], b[o + 2], b[o + 3]);
+  }
+
+  /** Add `id` with bounds `rect`; an id already present is moved instead. Invalid ids are ignored. */
+  insert(id: number, rect: Rect): this {
+    if (this.has(id)) return this.update(id, rect);
+    if ((id | 0) !== id || id < 0) return this;
+    if (id >= this.owner.length) this.grow(id + 1);
+
+    this.writeBounds(id, rect);
+    this.place(id, this.root);
+    this.size++;
+    return this;
+  }
+
+  /** Move `id` to `rect`; stays put while its node still fits it best. Ignored for absent ids. */
+  update(id: number, rect: Rect): this {
+    if (!this.has(id)) return this;
+    this.writeBounds(id, rect);
+
+    const node = this.owner[id] as QuadNode;
+    // Still contained by its node, and not pushable into a child: nothing to do
+    if (node === this.root || this.fits(id, node)) {
+      if (node.children === null || this.childFor(id, node) === null) return this;
+    }
+
+    this.detach(id);
+    this.place(id, this.root);
+    this.tryMerge(node);
+    return this;
+  }
+
+  remove(id: number): boolean {
+    if (!this.has(id)) return false;
+    const node = this.owner[id] as QuadNode;
+    this.detach(id);
+    this.tryMerge(node);
+    this.size--;
+    return true;
+  }
+
+  /** Report items overlapping `rect` — e.g. a camera's visible bounds. Returns the number reported. */
+  queryRect(rect: Rect, callback: QuadtreeQueryCallback): number {
+    return this.query(rect.min.x, rect.min.y, rect.max.x, rect.max.y, callback);
+  }
+
+  /** Report items containing (x, y) — UI hit-testing. Returns the number reported. */
+  queryPoint(x: number, y: number, callback: QuadtreeQueryCallback): number {
+    return this.query(x, y, x, y, callback);
+  }
+
+  queryPointVec(p: Vec2, callback: QuadtreeQueryCallback): number {
+    return this.queryPoint(p.x, p.y, callback);
+  }
+
+  /**
+   * Item whose rect is nearest to (x, y) — distance 0 inside — within `maxDistance`.
+   * Branch and bound: nodes farther than the best candidate are skipped. Returns the id,
+   * or -1 when nothing is in range.
+   */
+  nearest(x: number, y: number, maxDistance: number = Infinity): number {
+    let bestSq = maxDistance * maxDistance;
+    let bestId = -1;
+    const b = this.bounds;
+
+    const stack = this.stack;
+    stack.length = 0;
+    stack.push(this.root);
+    while (stack.length > 0) {
+      const node = stack.pop() as QuadNode;
+      if (node !== this.root && rectDistanceSq(node.minX, node.minY, node.maxX, node.maxY, x, y) > bestSq) continue;
+
+      for (let i = 0; i < node.items.length; i++) {
+        const id = node.items[i], o = id * 4;
+        const d = rectDistanceSq(b[o], b[o + 1], b[o + 2], b[o + 3], x, y);
+        if (d < bestSq || (d === bestSq && bestId < 0)) {
+          bestSq = d;
+          bestId = id;
+        }
+      }
+
+      if (node.children !== null) {
+        // Push the quadrant holding the point last so it is searched first
+        const near = (x >= node.children[0].maxX ? 1 : 0) | (y >= node.children[0].maxY ? 2 : 0);
+        for (let i = 0; i < 4; i++) {
+          if (i !== near) stack.push(node.children[i]);
+        }
+        stack.push(node.children[near]);
+      }
+    }
+
+    return bestId;
+  }
+
+  nearestVec(p: Vec2, maxDistance: number = Infinity): number {
+    return this.nearest(p.x, p.y, maxDistance);
+  }
+
+  private query(minX: number, minY: number, maxX: number, maxY: number, callback: QuadtreeQueryCallback): number {
+    const b = this.bounds;
+    let reported = 0;
+
+    const stack = this.stack;
+    stack.length = 0;
+    stack.push(this.root);
+    while (stack.length > 0) {
+      const node = stack.pop() as QuadNode;
+      if (node !== this.root && (node.minX > maxX || node.maxX < minX || node.minY > maxY || node.maxY < minY)) continue;
+
+      for (let i = 0; i < node.items.length; i++) {
+        const id = node.items[i], o = id * 4;
+        if (b[o] > maxX || b[o + 2] < minX || b[o + 1] > maxY || b[o + 3] < minY) continue;
+        reported++;
+        if (callback(id) === false) return reported;
+      }
+
+      if (node.children !== null) {
+        for (let i = 3; i >= 0; i--) stack.push(node.children[i]);
+      }
+    }
+
+    return reported;
+  }
+
+  /** Descend from `node` to the deepest node containing the item, splitting full leaves. */
+  private place(id: number, node: QuadNode): void {
+    for (;;) {
+      if (node.children === null) {
+        this.attach(id, node);
+        if (node.items.length > this.maxItems && node.depth < this.maxDepth) this.split(node);
+        return;
+      }
+      const child = this.childFor(id, node);
+      if (child === null) {
+        this.attach(id, node);
+        return;
+      }
+      node = child;
+    }
+  }
+
+  private split(node: QuadNode): void {
+    const midX = (node.minX + node.maxX) * 0.5, midY = (node.minY + node.maxY) * 0.5;
+    const d = node.depth + 1;
+    node.children = [
+      new QuadNode(node.minX, node.minY, midX, midY, d, node),
+      new QuadNode(midX, node.minY, node.maxX, midY, d, node),
+      new QuadNode(node.minX, midY, midX, node.maxY, d, node),
+      new QuadNode(midX, midY, node.maxX, node.maxY, d, node),
+    ];
+
+    // Push down every item that fits a quadrant; straddlers stay
+    const items = node.items;
+    for (let i = items.length - 1; i >= 0; i--) {
+      const id = items[i];
+      const child = this.childFor(id, node);
+      if (child === null) continue;
+      this.detach(id);
+      this.place(id, child);
+    }
+  }
+
+  /** Collapse `node`'s parent chain while a split node and its leaf children fit in one node. */
+  private tryMerge(node: QuadNode): void {
+    let n: QuadNode | null = node.children === null ? node.parent : node;
+    while (n !== null) {
+      const children = n.children as QuadNode[];
+      let total = n.items.length;
+      for (let i = 0; i < 4; i++) {
+        if (children[i].children !== null) return;
+        total += children[i].items.length;
+      }
+      if (total > this.maxItems) return;
+
+      for (let i = 0; i < 4; i++) {
+        const items = children[i].items;
+        for (let j = 0; j < items.length; j++) {
+          this.slot[items[j]] = n.items.length;
+          this.owner[items[j]] = n;
+          n.items.push(items[j]);
+        }
+      }
+      n.children = null;
+      n = n.parent;
+    }
+  }
+
+  private fits(id: number, node: QuadNode): boolean {
+    const b = this.bounds, o = id * 4;
+    return b[o] >= node.minX && b[o + 1] >= node.minY && b[o + 2] <= node.maxX && b[o + 3] <= node.maxY;
+  }
+
+  /** The child of split `node` that wholly contains the item, or null when it straddles. */
+  private childFor(id: number, node: QuadNode): QuadNode | null {
+    const children = node.children as QuadNode[];
+    for (let i = 0; i < 4; i++) {
+      if (this.fits(id, children[i])) return children[i];
+    }
+    return null;
+  }
+
+  private attach(id: number, node: QuadNode): void {
+    this.owner[id] = node;
+    this.slot[id] = node.items.length;
+    node.items.push(id);
+  }
+
+  private detach(id: number): void {
+    const node = this.owner[id] as QuadNode;
+    const i = this.slot[id];
+    const last = node.items[node.items.length - 1];
+    node.items[i] = last;
+    this.slot[last] = i;
+    node.items.length--;
+    this.owner[id] = null;
+  }
+
+  private writeBounds(id: number, rect: Rect): void {
+    const b = this.bounds, o = id * 4;
+    b[o + 0] = rect.min.x; b[o + 1] = rect.min.y;
+    b[o + 2] = rect.max.x; b[o + 3] = rect.max.y;
+  }
+
+  private grow(minCapacity: number): void {
+    let capacity = this.owner.length > 0 ? this.owner.length * 2 : 64;
+    while (capacity < minCapacity) capacity *= 2;
+
+    const bounds = new Float64Array(capacity * 4); bounds.set(this.bounds); this.bounds = bounds;
+    const slot = new Int32Array(capacity); slot.set(this.slot); this.slot = slot;
+    for (let i = this.owner.length; i < capacity; i++) this.owner.push(null);
+  }
+}
+
+function rectDistanceSq(minX: number, minY: number, maxX: number, maxY: number, x: number, y: number): number {
+  const dx = x < minX ? minX - x : (x > maxX ? x - maxX : 0);
+  const dy = y < minY ? minY - y : (y > maxY ? y - maxY : 0);
+  return dx * dx + dy * dy;
+}
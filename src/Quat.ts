@@ -1,6 +1,7 @@
-import { EPSILON, approxEqual } from './constants';
+import { EPSILON, approxEqual, clamp, wrapAngle } from './constants';
 import { Vec3 } from './Vec3';
 import { Mat4 } from './Mat4';
+import { EULER_EXTRINSIC, EulerOrder } from './EulerOrder';
 
 export class Quat {
   x: number;
@@ -28,59 +29,30 @@ export class Quat {
     );
   }
 
-  /** Euler (radians, intrinsic XYZ order — the inverse of {@link toEuler}) → quaternion. */
-  static fromEuler(x: number, y: number, z: number): Quat {
-    const hx: number = x * 0.5;
-    const hy: number = y * 0.5;
-    const hz: number = z * 0.5;
-
-    const cx: number = Math.cos(hx);
-    const sx: number = Math.sin(hx);
-    const cy: number = Math.cos(hy);
-    const sy: number = Math.sin(hy);
-    const cz: number = Math.cos(hz);
-    const sz: number = Math.sin(hz);
-
-    // XYZ product signs (was ZYX, which made fromEuler/toEuler a non-inverse pair)
-    return new Quat(
-      sx * cy * cz + cx * sy * sz,
-      cx * sy * cz - sx * cy * sz,
-      cx * cy * sz + sx * sy * cz,
-      cx * cy * cz - sx * sy * sz
-    );
+  /**
+   * Euler angles (radians) → quaternion. `a`, `b` and `c` are the angles of the first,
+   * second and third rotation of `order` — for the default intrinsic XYZ, the x, y and z
+   * angles. The inverse of {@link toEuler} for the same order.
+   */
+  static fromEuler(a: number, b: number, c: number, order: EulerOrder = EulerOrder.IntrinsicXYZ): Quat {
+    return new Quat().setFromEuler(a, b, c, order);
   }
 
+  /** Rotation part of `m`'s upper 3x3 — scale and mirroring are factored out first (see {@link setFromRotationMatrix}). */
   static fromRotationMatrix(m: Mat4): Quat {
-    const q = new Quat();
-    const trace: number = m.m00 + m.m05 + m.m10;
-
-    if (trace > 0) {
-      const s: number = 0.5 / Math.sqrt(trace + 1.0);
-      q.w = 0.25 / s;
-      q.x = (m.m06 - m.m09) * s;
-      q.y = (m.m08 - m.m02) * s;
-      q.z = (m.m01 - m.m04) * s;
-    } else if (m.m00 > m.m05 && m.m00 > m.m10) {
-      const s: number = 2.0 * Math.sqrt(1.0 + m.m00 - m.m05 - m.m10);
-      q.w = (m.m06 - m.m09) / s;
-      q.x = 0.25 * s;
-      q.y = (m.m04 + m.m01) / s;
-      q.z = (m.m08 + m.m02) / s;
-    } else if (m.m05 > m.m10) {
-      const s: number = 2.0 * Math.sqrt(1.0 + m.m05 - m.m00 - m.m10);
-      q.w = (m.m08 - m.m02) / s;
-      q.x = (m.m04 + m.m01) / s;
-      q.y = 0.25 * s;
-      q.z = (m.m09 + m.m06) / s;
-    } else {
-      const s: number = 2.0 * Math.sqrt(1.0 + m.m10 - m.m00 - m.m05);
-      q.w = (m.m01 - m.m04) / s;
-      q.x = (m.m08 + m.m02) / s;
-      q.y = (m.m09 + m.m06) / s;
-      q.z = 0.25 * s;
-    }
+    return new Quat().setFromRotationMatrix(m);
+  }
 
-    return q;
+  /** Shortest-arc rotation from unit `from` to unit `to` (see {@link setFromUnitVectors}). */
+  static fromUnitVectors(from: Vec3, to: Vec3, out: Quat | null = null): Quat {
+    if (out === null) out = new Quat();
+    return out.setFromUnitVectors(from, to);
+  }
+
+  /** Orientation facing `forward` with `up` as the roll hint (see {@link setFromLookRotation}). */
+  static lookRotation(forward: Vec3, up: Vec3, out: Quat | null = null): Quat {
+    if (out === null) out = new Quat();
+    return out.setFromLookRotation(forward, up);
   }
 
   set(x: number, y: number, z: number, w: number): this {
@@ -220,25 +192,114 @@ export class Quat {
     return this;
   }
 
-  /** Euler (radians, intrinsic XYZ order — the inverse of {@link toEuler}) → this quaternion. */
-  setFromEuler(x: number, y: number, z: number): this {
-    const hx: number = x * 0.5;
-    const hy: number = y * 0.5;
-    const hz: number = z * 0.5;
+  /** Euler angles in sequence order (see {@link fromEuler}) → this quaternion. */
+  setFromEuler(a: number, b: number, c: number, order: EulerOrder = EulerOrder.IntrinsicXYZ): this {
+    const first: number = order & 3, second: number = (order >> 2) & 3, third: number = (order >> 4) & 3;
+
+    // Intrinsic R1·R2·R3 and extrinsic R3·R2·R1, each built by post-multiplying
+    this.setIdentity();
+    if ((order & EULER_EXTRINSIC) === 0) {
+      rotateAxis(this, first, a);
+      rotateAxis(this, second, b);
+      rotateAxis(this, third, c);
+    } else {
+      rotateAxis(this, third, c);
+      rotateAxis(this, second, b);
+      rotateAxis(this, first, a);
+    }
+
+    return this;
+  }
+
+  /**
+   * Rotation part of `m`'s upper 3x3. Each column is divided by its length first, so a
+   * scaled matrix yields the same quaternion as its pure rotation; a mirrored basis
+   * (negative determinant) has its X column flipped — the same sign convention as
+   * {@link Mat4.decompose}, which puts the reflection into a negative `scale.x`.
+   * A collapsed axis (zero-length column) carries no rotation: this becomes identity.
+   */
+  setFromRotationMatrix(m: Mat4): this {
+    let sx: number = Math.sqrt(m.m00 * m.m00 + m.m01 * m.m01 + m.m02 * m.m02);
+    const sy: number = Math.sqrt(m.m04 * m.m04 + m.m05 * m.m05 + m.m06 * m.m06);
+    const sz: number = Math.sqrt(m.m08 * m.m08 + m.m09 * m.m09 + m.m10 * m.m10);
+
+    if (sx === 0 || sy === 0 || sz === 0) return this.setIdentity();
+
+    const det: number = m.m00 * (m.m05 * m.m10 - m.m06 * m.m09) +
+                        m.m01 * (m.m06 * m.m08 - m.m04 * m.m10) +
+                        m.m02 * (m.m04 * m.m09 - m.m05 * m.m08);
+    if (det < 0) sx = -sx;
+
+    const isx: number = 1.0 / sx, isy: number = 1.0 / sy, isz: number = 1.0 / sz;
+    const r00 = m.m00 * isx, r01 = m.m01 * isx, r02 = m.m02 * isx;
+    const r04 = m.m04 * isy, r05 = m.m05 * isy, r06 = m.m06 * isy;
+    const r08 = m.m08 * isz, r09 = m.m09 * isz, r10 = m.m10 * isz;
+
+    setFromBasis(this, r00, r01, r02, r04, r05, r06, r08, r09, r10);
+    return this;
+  }
+
+  /**
+   * Shortest-arc rotation taking unit vector `from` onto unit vector `to`. Antiparallel
+   * vectors have no unique shortest arc: this turns π about an axis perpendicular to
+   * `from`. A zero vector yields identity.
+   */
+  setFromUnitVectors(from: Vec3, to: Vec3): this {
+    const r: number = from.x * to.x + from.y * to.y + from.z * to.z + 1;
+
+    if (r < EPSILON) {
+      // Antiparallel — any perpendicular axis works; take the one off the larger component
+      if (Math.abs(from.x) > Math.abs(from.z)) {
+        this.x = -from.y; this.y = from.x; this.z = 0;
+      } else {
+        this.x = 0; this.y = -from.z; this.z = from.y;
+      }
+      this.w = 0;
+    } else {
+      this.x = from.y * to.z - from.z * to.y;
+      this.y = from.z * to.x - from.x * to.z;
+      this.z = from.x * to.y - from.y * to.x;
+      this.w = r;
+    }
 
-    const cx: number = Math.cos(hx);
-    const sx: number = Math.sin(hx);
-    const cy: number = Math.cos(hy);
-    const sy: number = Math.sin(hy);
-    const cz: number = Math.cos(hz);
-    const sz: number = Math.sin(hz);
+    return this.normalize();
+  }
+
+  /**
+   * Orientation whose local +Z (`Vec3.forward()`) points along `forward` and whose +Y leans
+   * towards `up` — right-handed, with +X = up × forward as in `Mat4.lookAt`. Neither vector
+   * needs to be unit length. An object at `p` faces `target` with
+   * `lookRotation(target - p, up)`; a camera (which looks down −Z) uses `eye - target`,
+   * and that rotation is the inverse of `Mat4.lookAt(eye, target, up)`'s.
+   *
+   * Fallbacks: a zero `forward` gives identity; an `up` that is zero or parallel to
+   * `forward` leaves roll undefined, so the shortest arc from +Z to `forward` is used.
+   */
+  setFromLookRotation(forward: Vec3, up: Vec3): this {
+    let zx = forward.x, zy = forward.y, zz = forward.z;
+    let len: number = zx * zx + zy * zy + zz * zz;
+    if (len === 0 || !Number.isFinite(len)) return this.setIdentity();
+    len = 1.0 / Math.sqrt(len);
+    zx *= len; zy *= len; zz *= len;
+
+    let xx = up.y * zz - up.z * zy;
+    let xy = up.z * zx - up.x * zz;
+    let xz = up.x * zy - up.y * zx;
+    len = xx * xx + xy * xy + xz * xz;
+
+    const upLenSq: number = up.x * up.x + up.y * up.y + up.z * up.z;
+    if (len <= EPSILON * EPSILON * upLenSq) {
+      _dir.x = zx; _dir.y = zy; _dir.z = zz;
+      return this.setFromUnitVectors(_forward, _dir);
+    }
+    len = 1.0 / Math.sqrt(len);
+    xx *= len; xy *= len; xz *= len;
 
-    // XYZ product signs — must stay the inverse of toEuler (see fromEuler)
-    this.x = sx * cy * cz + cx * sy * sz;
-    this.y = cx * sy * cz - sx * cy * sz;
-    this.z = cx * cy * sz + sx * sy * cz;
-    this.w = cx * cy * cz - sx * sy * sz;
+    const yx = zy * xz - zz * xy;
+    const yy = zz * xx - zx * xz;
+    const yz = zx * xy - zy * xx;
 
+    setFromBasis(this, xx, xy, xz, yx, yy, yz, zx, zy, zz);
     return this;
   }
 
@@ -284,10 +345,118 @@ export class Quat {
     return this;
   }
 
+  /**
+   * Normalised linear interpolation, flipping `q` into this hemisphere first so the
+   * shortest arc is taken. Cheaper than {@link slerp}; the angular speed is not constant,
+   * which blending many small steps (animation mixing) does not notice.
+   */
+  nlerp(q: Quat, t: number): this {
+    let bx = q.x, by = q.y, bz = q.z, bw = q.w;
+    if (this.x * bx + this.y * by + this.z * bz + this.w * bw < 0) {
+      bx = -bx; by = -by; bz = -bz; bw = -bw;
+    }
+    this.x += t * (bx - this.x);
+    this.y += t * (by - this.y);
+    this.z += t * (bz - this.z);
+    this.w += t * (bw - this.w);
+    return this.normalize();
+  }
+
+  /**
+   * Natural logarithm. For a unit quaternion this is the pure quaternion
+   * (axis · angle/2, 0); in general w becomes ln|q|.
+   */
+  log(): this {
+    const x = this.x, y = this.y, z = this.z, w = this.w;
+    const vLenSq: number = x * x + y * y + z * z;
+    const vLen: number = Math.sqrt(vLenSq);
+    const k: number = vLen > 0 ? Math.atan2(vLen, w) / vLen : 0;
+    this.x = x * k;
+    this.y = y * k;
+    this.z = z * k;
+    this.w = 0.5 * Math.log(vLenSq + w * w);
+    return this;
+  }
+
+  /** Exponential — the inverse of {@link log}; a pure quaternion (v, 0) maps to a unit one. */
+  exp(): this {
+    const x = this.x, y = this.y, z = this.z;
+    const vLen: number = Math.sqrt(x * x + y * y + z * z);
+    const ew: number = Math.exp(this.w);
+    const k: number = vLen > 0 ? ew * Math.sin(vLen) / vLen : ew;
+    this.x = x * k;
+    this.y = y * k;
+    this.z = z * k;
+    this.w = ew * Math.cos(vLen);
+    return this;
+  }
+
+  /**
+   * Raise this unit quaternion to the power `t` — the same axis with the angle scaled by
+   * `t`. q and −q give different results: use the w ≥ 0 form for the shorter rotation.
+   */
+  pow(t: number): this {
+    this.log();
+    this.x *= t;
+    this.y *= t;
+    this.z *= t;
+    this.w *= t;
+    return this.exp();
+  }
+
+  /**
+   * Turn towards `target` by at most `maxRadians` along the shortest arc — a capped angular
+   * rate for turrets and characters (`maxRadians = speed * dt`). Lands exactly on `target`
+   * once it is within reach; a non-positive `maxRadians` leaves this unchanged.
+   */
+  rotateTowards(target: Quat, maxRadians: number): this {
+    const angle: number = this.angleTo(target);
+    if (angle <= maxRadians) return this.copy(target);
+    if (maxRadians <= 0) return this;
+    return this.slerp(target, maxRadians / angle);
+  }
+
   dot(q: Quat): number {
     return this.x * q.x + this.y * q.y + this.z * q.z + this.w * q.w;
   }
 
+  /**
+   * Angle in [0, π] of the rotation taking this unit quaternion to `q` — the geodesic
+   * distance between orientations, with q and −q equal. Accurate for tiny angles too
+   * (no acos of a dot product near 1).
+   */
+  angleTo(q: Quat): number {
+    // Vector part of this⁻¹ · q has length sin(angle / 2), its w is cos(angle / 2)
+    const ax = this.x, ay = this.y, az = this.z, aw = this.w;
+    const vx = aw * q.x - q.w * ax - (ay * q.z - az * q.y);
+    const vy = aw * q.y - q.w * ay - (az * q.x - ax * q.z);
+    const vz = aw * q.z - q.w * az - (ax * q.y - ay * q.x);
+    const d: number = ax * q.x + ay * q.y + az * q.z + aw * q.w;
+    return 2 * Math.atan2(Math.sqrt(vx * vx + vy * vy + vz * vz), d < 0 ? -d : d);
+  }
+
+  /**
+   * Chordal distance min(|this − q|, |this + q|) = 2·sin(angle / 4) for unit quaternions:
+   * a true metric on orientations, monotonic in {@link angleTo} and cheaper (no trig).
+   * Use it for thresholds and error terms; use `angleTo` when radians are needed.
+   */
+  distance(q: Quat): number {
+    const d: number = this.x * q.x + this.y * q.y + this.z * q.z + this.w * q.w;
+    const distSq: number = this.lengthSq() + q.lengthSq() - 2 * (d < 0 ? -d : d);
+    return distSq > 0 ? Math.sqrt(distSq) : 0;
+  }
+
+  /**
+   * Advance this orientation by world-space angular velocity `omega` (rad/s) over `dt`:
+   * exp(½·ω·dt) · this — the exact rotation of |ω|·dt about ω, however large, unlike the
+   * first-order q + ½·(0, ω)·q·dt. Renormalised to keep long integrations on the unit sphere.
+   */
+  integrate(omega: Vec3, dt: number): this {
+    const hx: number = omega.x * dt * 0.5, hy: number = omega.y * dt * 0.5, hz: number = omega.z * dt * 0.5;
+    _sa.set(hx, hy, hz, 0).exp();
+    return this.premultiply(_sa).normalize();
+  }
+
   lengthSq(): number {
     return this.x * this.x + this.y * this.y + this.z * this.z + this.w * this.w;
   }
@@ -299,7 +468,8 @@ export class Quat {
   getAxisAngle(outAxis: Vec3 | null = null): number {
     if (outAxis === null) outAxis = new Vec3();
 
-    const rad: number = Math.acos(this.w) * 2.0;
+    // Clamped: products of unit quaternions can drift just past |w| = 1
+    const rad: number = Math.acos(clamp(this.w, -1, 1)) * 2.0;
     const s: number = Math.sin(rad / 2.0);
 
     if (s > EPSILON) {
@@ -315,31 +485,127 @@ export class Quat {
     return rad;
   }
 
-  toEuler(out: Vec3 | null = null): Vec3 {
+  /** Signed twist angle of this rotation about unit `axis`, in [−π, π] (see {@link swingTwist}). */
+  getTwistAngle(axis: Vec3): number {
+    let d: number = this.x * axis.x + this.y * axis.y + this.z * axis.z;
+    let w: number = this.w;
+    if (w < 0) { d = -d; w = -w; }
+    return 2 * Math.atan2(d, w);
+  }
+
+  /** Limit the twist about unit `axis` to [minRadians, maxRadians], keeping the swing. */
+  clampTwist(axis: Vec3, minRadians: number, maxRadians: number): this {
+    const angle: number = Quat.swingTwist(this, axis, _swing, _twist);
+    const clamped: number = clamp(angle, minRadians, maxRadians);
+    if (clamped === angle) return this;
+
+    _twist.setFromAxisAngle(axis, clamped);
+    return this.copy(_swing).multiply(_twist);
+  }
+
+  /**
+   * Limit the swing away from unit `axis` to a circular cone of half-angle `maxRadians`,
+   * keeping the twist — the swing's own axis is preserved, only its angle shrinks.
+   */
+  clampSwingCone(axis: Vec3, maxRadians: number): this {
+    Quat.swingTwist(this, axis, _swing, _twist);
+    if (_swing.w < 0) _swing.set(-_swing.x, -_swing.y, -_swing.z, -_swing.w);
+    const angle: number = _swing.getAxisAngle(_dir);
+    if (angle <= maxRadians) return this;
+
+    _swing.setFromAxisAngle(_dir, maxRadians);
+    return this.copy(_swing).multiply(_twist);
+  }
+
+  /**
+   * Limit the swing away from unit `axis` to an elliptical cone, keeping the twist. The
+   * swing's rotation vector r (perpendicular to `axis`) must satisfy
+   * (r·u / maxRadiansU)² + (r·v / maxRadiansV)² ≤ 1, where `axisU` is a unit vector
+   * perpendicular to `axis` and v = axis × u. Swinging about u tips `axis` towards ±v,
+   * so `maxRadiansU` limits motion in the axis–v plane. Both limits must be positive.
+   *
+   * Outside swings are scaled radially onto the ellipse rather than to the nearest
+   * point on it — exact on the principal axes and continuous, with no iteration.
+   */
+  clampSwingEllipse(axis: Vec3, axisU: Vec3, maxRadiansU: number, maxRadiansV: number): this {
+    Quat.swingTwist(this, axis, _swing, _twist);
+    if (_swing.w < 0) _swing.set(-_swing.x, -_swing.y, -_swing.z, -_swing.w);
+    const angle: number = _swing.getAxisAngle(_dir);
+
+    const vx = axis.y * axisU.z - axis.z * axisU.y;
+    const vy = axis.z * axisU.x - axis.x * axisU.z;
+    const vz = axis.x * axisU.y - axis.y * axisU.x;
+    const ru: number = (_dir.x * axisU.x + _dir.y * axisU.y + _dir.z * axisU.z) * angle / maxRadiansU;
+    const rv: number = (_dir.x * vx + _dir.y * vy + _dir.z * vz) * angle / maxRadiansV;
+    const k: number = ru * ru + rv * rv;
+    if (k <= 1) return this;
+
+    _swing.setFromAxisAngle(_dir, angle / Math.sqrt(k));
+    return this.copy(_swing).multiply(_twist);
+  }
+
+  /**
+   * Euler angles (radians) of this unit quaternion for `order`, written in sequence order:
+   * `out.x`, `out.y` and `out.z` are the first, second and third angle — the inverse of
+   * {@link fromEuler}. The first and third angles lie in [−π, π]; the middle one in
+   * [−π/2, π/2] for Tait-Bryan orders and [0, π] for proper Euler orders.
+   *
+   * At gimbal lock only the sum (or difference) of the outer angles is defined; the
+   * angle of the rightmost matrix factor — the third for intrinsic orders, the first for
+   * extrinsic ones — is then 0.
+   *
+   * Quaternion-direct method of Bernardes & Viollet (2022), which covers all 12 sequences.
+   */
+  toEuler(out: Vec3 | null = null, order: EulerOrder = EulerOrder.IntrinsicXYZ): Vec3 {
     if (out === null) out = new Vec3();
 
-    const x = this.x, y = this.y, z = this.z, w = this.w;
-    const x2 = x + x, y2 = y + y, z2 = z + z;
-    const xx = x * x2, xy = x * y2, xz = x * z2;
-    const yy = y * y2, yz = y * z2, zz = z * z2;
-    const wx = w * x2, wy = w * y2, wz = w * z2;
+    // Work on the extrinsic sequence i, j, k (intrinsic ABC is extrinsic CBA)
+    const extrinsic: boolean = (order & EULER_EXTRINSIC) !== 0;
+    const i: number = extrinsic ? order & 3 : (order >> 4) & 3;
+    const j: number = (order >> 2) & 3;
+    let k: number = extrinsic ? (order >> 4) & 3 : order & 3;
+
+    const proper: boolean = i === k;
+    if (proper) k = 3 - i - j;
+    const sign: number = (i - j) * (j - k) * (k - i) / 2; // Parity of (i, j, k)
+
+    const qi: number = component(this, i), qj: number = component(this, j), qk: number = component(this, k) * sign;
+    const w: number = this.w;
+    let a: number, b: number, c: number, d: number;
+    if (proper) {
+      a = w; b = qi; c = qj; d = qk;
+    } else {
+      a = w - qj; b = qi + qk; c = qj + w; d = qk - qi;
+    }
+
+    let theta2: number = 2 * Math.atan2(Math.sqrt(c * c + d * d), Math.sqrt(a * a + b * b));
+    const halfSum: number = Math.atan2(b, a);
+    const halfDiff: number = Math.atan2(d, c);
+
+    let theta1: number, theta3: number;
+    if (theta2 < EPSILON) {
+      theta1 = 0;
+      theta3 = 2 * halfSum;
+    } else if (theta2 > Math.PI - EPSILON) {
+      theta1 = 0;
+      theta3 = 2 * halfDiff;
+    } else {
+      theta1 = halfSum - halfDiff;
+      theta3 = halfSum + halfDiff;
+    }
 
-    // Assuming XYZ rotation order
-    const m11: number = 1.0 - (yy + zz);
-    const m12: number = xy - wz;
-    const m13: number = xz + wy;
-    const m22: number = 1.0 - (xx + zz);
-    const m23: number = yz - wx;
-    const m33: number = 1.0 - (xx + yy);
+    if (!proper) {
+      theta3 *= sign;
+      theta2 -= Math.PI / 2;
+    }
 
-    out.y = Math.asin(m13 < -1 ? -1 : (m13 > 1 ? 1 : m13));
+    theta1 = wrapAngle(theta1);
+    theta3 = wrapAngle(theta3);
 
-    if (m13 < 0.999999 && m13 > -0.999999) {
-      out.x = Math.atan2(-m23, m33);
-      out.z = Math.atan2(-m12, m11);
+    if (extrinsic) {
+      out.x = theta1; out.y = theta2; out.z = theta3;
     } else {
-      out.x = Math.atan2(m23, m22);
-      out.z = 0;
+      out.x = theta3; out.y = theta2; out.z = theta1;
     }
 
     return out;
@@ -428,10 +694,147 @@ export class Quat {
     return out;
   }
 
+  static nlerp(a: Quat, b: Quat, t: number, out: Quat | null = null): Quat {
+    if (out === null) out = new Quat();
+    return out.copy(a).nlerp(b, t);
+  }
+
+  static log(q: Quat, out: Quat | null = null): Quat {
+    if (out === null) out = new Quat();
+    return out.copy(q).log();
+  }
+
+  static exp(q: Quat, out: Quat | null = null): Quat {
+    if (out === null) out = new Quat();
+    return out.copy(q).exp();
+  }
+
+  static pow(q: Quat, t: number, out: Quat | null = null): Quat {
+    if (out === null) out = new Quat();
+    return out.copy(q).pow(t);
+  }
+
+  /**
+   * Squad inner control point for key `q` between neighbours `prev` and `next`:
+   * q · exp(−(log(q⁻¹·next) + log(q⁻¹·prev)) / 4). The neighbours are taken in q's
+   * hemisphere. At the ends of a track pass the end key itself as the missing neighbour.
+   */
+  static squadControlPoint(prev: Quat, q: Quat, next: Quat, out: Quat | null = null): Quat {
+    if (out === null) out = new Quat();
+
+    Quat.conjugate(q, _inv);
+    Quat.multiply(_inv, next, _sa);
+    if (q.dot(next) < 0) _sa.set(-_sa.x, -_sa.y, -_sa.z, -_sa.w);
+    Quat.multiply(_inv, prev, _sb);
+    if (q.dot(prev) < 0) _sb.set(-_sb.x, -_sb.y, -_sb.z, -_sb.w);
+    _sa.log();
+    _sb.log();
+
+    _sa.set(-0.25 * (_sa.x + _sb.x), -0.25 * (_sa.y + _sb.y), -0.25 * (_sa.z + _sb.z), 0).exp();
+    return Quat.multiply(q, _sa, out);
+  }
+
+  /**
+   * Spherical quadrangle interpolation from `q0` to `q1` (t in [0, 1]) with inner control
+   * points `a` and `b` from {@link squadControlPoint} — C¹ across keys, unlike chained
+   * {@link slerp}. Keys should be in one hemisphere (flip q1 when q0·q1 < 0).
+   */
+  static squad(q0: Quat, a: Quat, b: Quat, q1: Quat, t: number, out: Quat | null = null): Quat {
+    if (out === null) out = new Quat();
+    Quat.slerp(q0, q1, t, _sa);
+    Quat.slerp(a, b, t, _sb);
+    return Quat.slerp(_sa, _sb, 2 * t * (1 - t), out);
+  }
+
+  /**
+   * glTF `CUBICSPLINE` rotation: the cubic Hermite of `v0` (with out-tangent `b0`) and
+   * `v1` (with in-tangent `a1`) at t in [0, 1], for keys `deltaTime` seconds apart,
+   * normalised as the glTF spec requires. Tangents are used as authored — no sign fixing.
+   */
+  static cubicSpline(v0: Quat, b0: Quat, a1: Quat, v1: Quat, t: number, deltaTime: number, out: Quat | null = null): Quat {
+    if (out === null) out = new Quat();
+
+    const t2: number = t * t, t3: number = t2 * t;
+    const h00: number = 2 * t3 - 3 * t2 + 1;
+    const h10: number = (t3 - 2 * t2 + t) * deltaTime;
+    const h01: number = -2 * t3 + 3 * t2;
+    const h11: number = (t3 - t2) * deltaTime;
+
+    out.x = h00 * v0.x + h10 * b0.x + h01 * v1.x + h11 * a1.x;
+    out.y = h00 * v0.y + h10 * b0.y + h01 * v1.y + h11 * a1.y;
+    out.z = h00 * v0.z + h10 * b0.z + h01 * v1.z + h11 * a1.z;
+    out.w = h00 * v0.w + h10 * b0.w + h01 * v1.w + h11 * a1.w;
+    return out.normalize();
+  }
+
+  static rotateTowards(a: Quat, b: Quat, maxRadians: number, out: Quat | null = null): Quat {
+    if (out === null) out = new Quat();
+    return out.copy(a).rotateTowards(b, maxRadians);
+  }
+
+  /**
+   * Swing-twist decomposition: `q = swing · twist`, where `twist` rotates about unit `axis`
+   * (applied first, in the joint's local frame) and `swing` about an axis perpendicular to
+   * it. Returns the signed twist angle in [−π, π].
+   *
+   * A swing of exactly π leaves the twist undefined; it is then taken as identity.
+   */
+  static swingTwist(q: Quat, axis: Vec3, outSwing: Quat, outTwist: Quat): number {
+    const d: number = q.x * axis.x + q.y * axis.y + q.z * axis.z;
+    outTwist.set(axis.x * d, axis.y * d, axis.z * d, q.w);
+
+    const lenSq: number = d * d + q.w * q.w;
+    if (lenSq < EPSILON * EPSILON) {
+      outTwist.setIdentity();
+      outSwing.copy(q);
+      return 0;
+    }
+    outTwist.normalize();
+    if (outTwist.w < 0) outTwist.set(-outTwist.x, -outTwist.y, -outTwist.z, -outTwist.w);
+
+    // swing = q · twist⁻¹
+    Quat.multiply(q, Quat.conjugate(outTwist, outSwing), outSwing);
+    return 2 * Math.atan2(outTwist.x * axis.x + outTwist.y * axis.y + outTwist.z * axis.z, outTwist.w);
+  }
+
   static dot(a: Quat, b: Quat): number {
     return a.x * b.x + a.y * b.y + a.z * b.z + a.w * b.w;
   }
 
+  static angleTo(a: Quat, b: Quat): number {
+    return a.angleTo(b);
+  }
+
+  static distance(a: Quat, b: Quat): number {
+    return a.distance(b);
+  }
+
+  /** `q` advanced by world-space angular velocity `omega` over `dt` (see {@link integrate}). */
+  static integrate(q: Quat, omega: Vec3, dt: number, out: Quat | null = null): Quat {
+    if (out === null) out = new Quat();
+    return out.copy(q).integrate(omega, dt);
+  }
+
+  /**
+   * World-space angular velocity (rad/s) carrying `a` to `b` in `dt` along the shortest
+   * arc — the inverse of {@link integrate}: `integrate(a, ω, dt)` reproduces `b`. Exact
+   * for rotations up to π per step; beyond that the shorter way round is reported.
+   */
+  static angularVelocity(a: Quat, b: Quat, dt: number, out: Vec3 | null = null): Vec3 {
+    if (out === null) out = new Vec3();
+
+    // Delta b · a⁻¹ in the w ≥ 0 hemisphere, then ω = 2·log(delta) / dt
+    Quat.multiply(b, Quat.conjugate(a, _sa), _sa);
+    if (_sa.w < 0) _sa.set(-_sa.x, -_sa.y, -_sa.z, -_sa.w);
+    _sa.log();
+
+    const k: number = 2 / dt;
+    out.x = _sa.x * k;
+    out.y = _sa.y * k;
+    out.z = _sa.z * k;
+    return out;
+  }
+
   static conjugate(q: Quat, out: Quat | null = null): Quat {
     if (out === null) out = new Quat();
     out.x = -q.x;
@@ -477,3 +880,58 @@ export class Quat {
     return out;
   }
 }
+
+/** Shepperd's method: unit quaternion of the orthonormal basis with columns (r00 r01 r02), (r04 r05 r06), (r08 r09 r10). */
+function setFromBasis(
+  out: Quat,
+  r00: number, r01: number, r02: number,
+  r04: number, r05: number, r06: number,
+  r08: number, r09: number, r10: number
+): void {
+  const trace: number = r00 + r05 + r10;
+
+  if (trace > 0) {
+    const s: number = 0.5 / Math.sqrt(trace + 1.0);
+    out.w = 0.25 / s;
+    out.x = (r06 - r09) * s;
+    out.y = (r08 - r02) * s;
+    out.z = (r01 - r04) * s;
+  } else if (r00 > r05 && r00 > r10) {
+    const s: number = 2.0 * Math.sqrt(1.0 + r00 - r05 - r10);
+    out.w = (r06 - r09) / s;
+    out.x = 0.25 * s;
+    out.y = (r04 + r01) / s;
+    out.z = (r08 + r02) / s;
+  } else if (r05 > r10) {
+    const s: number = 2.0 * Math.sqrt(1.0 + r05 - r00 - r10);
+    out.w = (r08 - r02) / s;
+    out.x = (r04 + r01) / s;
+    out.y = 0.25 * s;
+    out.z = (r09 + r06) / s;
+  } else {
+    const s: number = 2.0 * Math.sqrt(1.0 + r10 - r00 - r05);
+    out.w = (r01 - r04) / s;
+    out.x = (r08 + r02) / s;
+    out.y = (r09 + r06) / s;
+    out.z = 0.25 * s;
+  }
+}
+
+/** Post-multiply `q` by a rotation of `radians` about axis 0/1/2 = X/Y/Z. */
+function rotateAxis(q: Quat, axis: number, radians: number): void {
+  if (axis === 0) q.rotateX(radians);
+  else if (axis === 1) q.rotateY(radians);
+  else q.rotateZ(radians);
+}
+
+function component(q: Quat, axis: number): number {
+  return axis === 0 ? q.x : (axis === 1 ? q.y : q.z);
+}
+
+const _forward = new Vec3(0, 0, 1);
+const _dir = new Vec3();
+const _swing = new Quat();
+const _twist = new Quat();
+const _inv = new Quat();
+const _sa = new Quat();
+const _sb = new Quat();
@@ -1,6 +1,9 @@
 import { EPSILON, approxEqual } from './constants';
 import { Vec3 } from './Vec3';
 import { AABB } from './AABB';
+import type { RayHit } from './RayHit';
+import type { Plane } from './Plane';
+import type { OBB } from './OBB';
 
 export class Ray {
   origin: Vec3;
@@ -186,6 +189,102 @@ export class Ray {
     return this.intersectAABB(aabb) >= 0;
   }
 
+  /**
+   * {@link intersectAABB}, filling `out` with the face crossed: the entry face, or the
+   * exit face (`frontFace` false) when the origin is inside the box.
+   */
+  intersectAABBHit(aabb: AABB, out: RayHit): boolean {
+    const o = this.origin, d = this.direction;
+    let tmin: number = -Infinity, tmax: number = Infinity;
+    let minFace: number = -1, maxFace: number = -1;
+
+    for (let axis = 0; axis < 3; axis++) {
+      const oa: number = axis === 0 ? o.x : (axis === 1 ? o.y : o.z);
+      const da: number = axis === 0 ? d.x : (axis === 1 ? d.y : d.z);
+      const lo: number = axis === 0 ? aabb.min.x : (axis === 1 ? aabb.min.y : aabb.min.z);
+      const hi: number = axis === 0 ? aabb.max.x : (axis === 1 ? aabb.max.y : aabb.max.z);
+
+      if (da == 0) {
+        if (oa < lo || oa > hi) return false; // Parallel to and outside this slab
+        continue;
+      }
+
+      const inv: number = 1.0 / da;
+      // Entering through the min face when travelling +axis, else the max face
+      const tNear: number = ((inv > 0 ? lo : hi) - oa) * inv;
+      const tFar: number = ((inv > 0 ? hi : lo) - oa) * inv;
+      if (tNear > tmin) { tmin = tNear; minFace = axis * 2 + (inv > 0 ? 0 : 1); }
+      if (tFar < tmax) { tmax = tFar; maxFace = axis * 2 + (inv > 0 ? 1 : 0); }
+    }
+
+    if (tmax < 0 || tmin > tmax) {
+      return false;
+    }
+
+    const inside: boolean = tmin < 0;
+    const face: number = inside ? maxFace : minFace;
+    out.t = inside ? tmax : tmin;
+    this.getPoint(out.t, out.point);
+    const axis: number = face >> 1;
+    const sign: number = face & 1 ? 1 : -1;
+    out.normal.set(axis === 0 ? sign : 0, axis === 1 ? sign : 0, axis === 2 ? sign : 0);
+    out.u = 0;
+    out.v = 0;
+    out.frontFace = !inside;
+    out.face = face;
+    return true;
+  }
+
+  /**
+   * Slab test in the box's local frame. `t` is in world units along `direction` — the
+   * basis is orthonormal, so the box-space transform preserves ray parameters.
+   */
+  intersectOBB(obb: OBB): number {
+    const b = obb.basis, e = obb.halfExtents;
+    const px = this.origin.x - obb.center.x, py = this.origin.y - obb.center.y, pz = this.origin.z - obb.center.z;
+    const dx = this.direction.x, dy = this.direction.y, dz = this.direction.z;
+
+    // Origin and direction projected on the box axes (basis columns)
+    const ox: number = px * b.m00 + py * b.m01 + pz * b.m02;
+    const oy: number = px * b.m03 + py * b.m04 + pz * b.m05;
+    const oz: number = px * b.m06 + py * b.m07 + pz * b.m08;
+    const lx: number = dx * b.m00 + dy * b.m01 + dz * b.m02;
+    const ly: number = dx * b.m03 + dy * b.m04 + dz * b.m05;
+    const lz: number = dx * b.m06 + dy * b.m07 + dz * b.m08;
+
+    const invDx: number = lx == 0 ? Infinity : 1.0 / lx;
+    const invDy: number = ly == 0 ? Infinity : 1.0 / ly;
+    const invDz: number = lz == 0 ? Infinity : 1.0 / lz;
+
+    const t1: number = (-e.x - ox) * invDx;
+    const t2: number = (e.x - ox) * invDx;
+    const t3: number = (-e.y - oy) * invDy;
+    const t4: number = (e.y - oy) * invDy;
+    const t5: number = (-e.z - oz) * invDz;
+    const t6: number = (e.z - oz) * invDz;
+
+    let tmin: number = t1 < t2 ? t1 : t2;
+    let tmax: number = t1 > t2 ? t1 : t2;
+    const tmin2: number = t3 < t4 ? t3 : t4;
+    const tmax2: number = t3 > t4 ? t3 : t4;
+    const tmin3: number = t5 < t6 ? t5 : t6;
+    const tmax3: number = t5 > t6 ? t5 : t6;
+    if (tmin2 > tmin) tmin = tmin2;
+    if (tmin3 > tmin) tmin = tmin3;
+    if (tmax2 < tmax) tmax = tmax2;
+    if (tmax3 < tmax) tmax = tmax3;
+
+    if (tmax < 0 || tmin > tmax) {
+      return -1;
+    }
+
+    return tmin >= 0 ? tmin : tmax;
+  }
+
+  intersectsOBB(obb: OBB): boolean {
+    return this.intersectOBB(obb) >= 0;
+  }
+
   intersectSphere(centerX: number, centerY: number, centerZ: number, radius: number): number {
     const ox = this.origin.x - centerX;
     const oy = this.origin.y - centerY;
@@ -216,7 +315,41 @@ export class Ray {
     return this.intersectSphere(center.x, center.y, center.z, radius);
   }
 
-  intersectPlane(nx: number, ny: number, nz: number, d: number): number {
+  /** {@link intersectSphere}, filling `out`; from inside, the exit point (`frontFace` false). */
+  intersectSphereHit(centerX: number, centerY: number, centerZ: number, radius: number, out: RayHit): boolean {
+    const t: number = this.intersectSphere(centerX, centerY, centerZ, radius);
+    if (t < 0) {
+      return false;
+    }
+
+    out.t = t;
+    const p = this.getPoint(t, out.point);
+    const invR: number = radius > 0 ? 1.0 / radius : 0;
+    out.normal.set((p.x - centerX) * invR, (p.y - centerY) * invR, (p.z - centerZ) * invR);
+    out.u = 0;
+    out.v = 0;
+    out.frontFace = out.normal.x * this.direction.x + out.normal.y * this.direction.y + out.normal.z * this.direction.z < 0;
+    out.face = -1;
+    return true;
+  }
+
+  intersectSphereVecHit(center: Vec3, radius: number, out: RayHit): boolean {
+    return this.intersectSphereHit(center.x, center.y, center.z, radius, out);
+  }
+
+  intersectPlane(plane: Plane): number;
+  intersectPlane(nx: number, ny: number, nz: number, d: number): number;
+  intersectPlane(planeOrNx: Plane | number, ny: number = 0, nz: number = 0, d: number = 0): number {
+    let nx: number;
+    if (typeof planeOrNx === 'number') {
+      nx = planeOrNx;
+    } else {
+      nx = planeOrNx.normal.x;
+      ny = planeOrNx.normal.y;
+      nz = planeOrNx.normal.z;
+      d = planeOrNx.d;
+    }
+
     const denom: number = nx * this.direction.x + ny * this.direction.y + nz * this.direction.z;
     
     if (denom > -EPSILON && denom < EPSILON) {
@@ -232,53 +365,104 @@ export class Ray {
     return this.intersectPlane(normal.x, normal.y, normal.z, d);
   }
 
-  intersectTriangle(v0: Vec3, v1: Vec3, v2: Vec3): number {
+  /**
+   * Möller–Trumbore. Returns t in [tMin, tMax] or -1. With `cullBackface`, triangles
+   * seen from their clockwise side are ignored.
+   */
+  intersectTriangle(
+    v0: Vec3, v1: Vec3, v2: Vec3,
+    cullBackface: boolean = false, tMin: number = 0, tMax: number = Infinity
+  ): number {
+    return mollerTrumbore(this, v0, v1, v2, cullBackface, tMin, tMax);
+  }
+
+  /** {@link intersectTriangle}, filling `out` (barycentrics, CCW normal, facing) on a hit. */
+  intersectTriangleHit(
+    v0: Vec3, v1: Vec3, v2: Vec3, out: RayHit,
+    cullBackface: boolean = false, tMin: number = 0, tMax: number = Infinity
+  ): boolean {
+    const t: number = mollerTrumbore(this, v0, v1, v2, cullBackface, tMin, tMax);
+    if (t < 0) return false;
+
     const edge1x = v1.x - v0.x, edge1y = v1.y - v0.y, edge1z = v1.z - v0.z;
     const edge2x = v2.x - v0.x, edge2y = v2.y - v0.y, edge2z = v2.z - v0.z;
 
-    // P = D x edge2
-    const px = this.direction.y * edge2z - this.direction.z * edge2y;
-    const py = this.direction.z * edge2x - this.direction.x * edge2z;
-    const pz = this.direction.x * edge2y - this.direction.y * edge2x;
+    out.t = t;
+    this.getPoint(t, out.point);
+    out.normal.set(
+      edge1y * edge2z - edge1z * edge2y,
+      edge1z * edge2x - edge1x * edge2z,
+      edge1x * edge2y - edge1y * edge2x
+    ).normalize();
+    out.u = _tri.u;
+    out.v = _tri.v;
+    out.frontFace = _tri.det > 0;
+    out.face = -1;
+    return true;
+  }
 
-    const det: number = edge1x * px + edge1y * py + edge1z * pz;
+  equals(other: Ray, epsilon: number = EPSILON): boolean {
+    return this.origin.equals(other.origin, epsilon) && 
+           this.direction.equals(other.direction, epsilon);
+  }
+}
 
-    if (det > -EPSILON && det < EPSILON) {
-      return -1; // Ray parallel to triangle
-    }
+/** Barycentrics and determinant of the last {@link mollerTrumbore} hit. */
+const _tri = { u: 0, v: 0, det: 0 };
 
-    const invDet: number = 1.0 / det;
+/** Ray/triangle core shared by the triangle queries: t in [tMin, tMax] or -1; fills `_tri` on a hit. */
+function mollerTrumbore(
+  ray: Ray, v0: Vec3, v1: Vec3, v2: Vec3,
+  cullBackface: boolean, tMin: number, tMax: number
+): number {
+  const dir = ray.direction, origin = ray.origin;
+  const edge1x = v1.x - v0.x, edge1y = v1.y - v0.y, edge1z = v1.z - v0.z;
+  const edge2x = v2.x - v0.x, edge2y = v2.y - v0.y, edge2z = v2.z - v0.z;
 
-    // T = O - v0
-    const tx = this.origin.x - v0.x;
-    const ty = this.origin.y - v0.y;
-    const tz = this.origin.z - v0.z;
+  // P = D x edge2
+  const px = dir.y * edge2z - dir.z * edge2y;
+  const py = dir.z * edge2x - dir.x * edge2z;
+  const pz = dir.x * edge2y - dir.y * edge2x;
 
-    // u = T . P * invDet
-    const u: number = (tx * px + ty * py + tz * pz) * invDet;
-    if (u < 0 || u > 1) {
-      return -1;
-    }
+  // det = -D . (edge1 x edge2): positive when the ray meets the counter-clockwise side
+  const det: number = edge1x * px + edge1y * py + edge1z * pz;
 
-    // Q = T x edge1
-    const qx = ty * edge1z - tz * edge1y;
-    const qy = tz * edge1x - tx * edge1z;
-    const qz = tx * edge1y - ty * edge1x;
+  if (cullBackface ? det < EPSILON : (det > -EPSILON && det < EPSILON)) {
+    return -1; // Parallel, or back face when culling
+  }
 
-    // v = D . Q * invDet
-    const v: number = (this.direction.x * qx + this.direction.y * qy + this.direction.z * qz) * invDet;
-    if (v < 0 || u + v > 1) {
-      return -1;
-    }
+  const invDet: number = 1.0 / det;
 
-    // t = edge2 . Q * invDet
-    const t: number = (edge2x * qx + edge2y * qy + edge2z * qz) * invDet;
+  // T = O - v0
+  const tx = origin.x - v0.x;
+  const ty = origin.y - v0.y;
+  const tz = origin.z - v0.z;
 
-    return t >= 0 ? t : -1;
+  // u = T . P * invDet
+  const u: number = (tx * px + ty * py + tz * pz) * invDet;
+  if (u < 0 || u > 1) {
+    return -1;
   }
 
-  equals(other: Ray, epsilon: number = EPSILON): boolean {
-    return this.origin.equals(other.origin, epsilon) && 
-           this.direction.equals(other.direction, epsilon);
+  // Q = T x edge1
+  const qx = ty * edge1z - tz * edge1y;
+  const qy = tz * edge1x - tx * edge1z;
+  const qz = tx * edge1y - ty * edge1x;
+
+  // v = D . Q * invDet
+  const v: number = (dir.x * qx + dir.y * qy + dir.z * qz) * invDet;
+  if (v < 0 || u + v > 1) {
+    return -1;
   }
+
+  // t = edge2 . Q * invDet
+  const t: number = (edge2x * qx + edge2y * qy + edge2z * qz) * invDet;
+  if (t < tMin || t > tMax) {
+    return -1;
+  }
+
+  _tri.u = u;
+  _tri.v = v;
+  _tri.det = det;
+  return t;
 }
@@ -0,0 +1,48 @@
+import { Vec3 } from './Vec3';
+
+/**
+ * Reusable output of the `Ray.intersect*Hit` queries — allocate one per caller and pass
+ * it to every query; the queries only write to it on a hit.
+ *
+ * `normal` is the unit geometric normal of the surface (outward for boxes and spheres,
+ * the counter-clockwise side for triangles), independent of which side was hit;
+ * `frontFace` is true when the ray hit that side (direction · normal < 0). Flip
+ * `normal` when `frontFace` is false to get the normal facing the ray.
+ */
+export class RayHit {
+  /** Distance along the ray direction. */
+  t: number;
+  point: Vec3;
+  normal: Vec3;
+  /** Barycentrics of `point` (weights of v1 and v2; v0 is 1 − u − v). Triangles only, else 0. */
+  u: number;
+  v: number;
+  frontFace: boolean;
+  /** AABB face: 0/1 = −x/+x, 2/3 = −y/+y, 4/5 = −z/+z. -1 for other primitives. */
+  face: number;
+
+  constructor() {
+    this.t = -1;
+    this.point = new Vec3(0, 0, 0);
+    this.normal = new Vec3(0, 0, 0);
+    this.u = 0;
+    this.v = 0;
+    this.frontFace = true;
+    this.face = -1;
+  }
+
+  copy(src: RayHit): this {
+    this.t = src.t;
+    this.point.copy(src.point);
+    this.normal.copy(src.normal);
+    this.u = src.u;
+    this.v = src.v;
+    this.frontFace = src.frontFace;
+    this.face = src.face;
+    return this;
+  }
+
+  clone(): RayHit {
+    return new RayHit().copy(this);
+  }
+}
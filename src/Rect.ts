@@ -0,0 +1,230 @@
+import { EPSILON } from './constants';
+import { Vec2 } from './Vec2';
+
+/** 2D axis-aligned box — the `AABB` API in the plane (sprites, viewports, UI hit areas). */
+export class Rect {
+  min: Vec2;
+  max: Vec2;
+
+  constructor() {
+    // Initialize to "empty" state (inverted)
+    this.min = new Vec2(Infinity, Infinity);
+    this.max = new Vec2(-Infinity, -Infinity);
+  }
+
+  static empty(): Rect {
+    return new Rect();
+  }
+
+  static fromMinMax(minX: number, minY: number, maxX: number, maxY: number): Rect {
+    const rect = new Rect();
+    rect.min.set(minX, minY);
+    rect.max.set(maxX, maxY);
+    return rect;
+  }
+
+  static fromMinMaxVec(min: Vec2, max: Vec2): Rect {
+    const rect = new Rect();
+    rect.min.copy(min);
+    rect.max.copy(max);
+    return rect;
+  }
+
+  /** From a top-left-style origin and size — the layout most 2D/UI code stores. */
+  static fromXYWH(x: number, y: number, width: number, height: number): Rect {
+    return Rect.fromMinMax(x, y, x + width, y + height);
+  }
+
+  static fromCenterExtents(cx: number, cy: number, ex: number, ey: number): Rect {
+    const rect = new Rect();
+    rect.min.set(cx - ex, cy - ey);
+    rect.max.set(cx + ex, cy + ey);
+    return rect;
+  }
+
+  static fromCenterExtentsVec(center: Vec2, extents: Vec2): Rect {
+    return Rect.fromCenterExtents(center.x, center.y, extents.x, extents.y);
+  }
+
+  setEmpty(): this {
+    this.min.set(Infinity, Infinity);
+    this.max.set(-Infinity, -Infinity);
+    return this;
+  }
+
+  set(minX: number, minY: number, maxX: number, maxY: number): this {
+    this.min.set(minX, minY);
+    this.max.set(maxX, maxY);
+    return this;
+  }
+
+  copy(src: Rect): this {
+    this.min.copy(src.min);
+    this.max.copy(src.max);
+    return this;
+  }
+
+  clone(): Rect {
+    return new Rect().copy(this);
+  }
+
+  expandByPoint(x: number, y: number): this {
+    if (x < this.min.x) this.min.x = x;
+    if (y < this.min.y) this.min.y = y;
+    if (x > this.max.x) this.max.x = x;
+    if (y > this.max.y) this.max.y = y;
+    return this;
+  }
+
+  expandByPointVec(p: Vec2): this {
+    return this.expandByPoint(p.x, p.y);
+  }
+
+  expandByScalar(s: number): this {
+    this.min.x -= s;
+    this.min.y -= s;
+    this.max.x += s;
+    this.max.y += s;
+    return this;
+  }
+
+  union(other: Rect): this {
+    if (other.min.x < this.min.x) this.min.x = other.min.x;
+    if (other.min.y < this.min.y) this.min.y = other.min.y;
+    if (other.max.x > this.max.x) this.max.x = other.max.x;
+    if (other.max.y > this.max.y) this.max.y = other.max.y;
+    return this;
+  }
+
+  intersect(other: Rect): this {
+    if (other.min.x > this.min.x) this.min.x = other.min.x;
+    if (other.min.y > this.min.y) this.min.y = other.min.y;
+    if (other.max.x < this.max.x) this.max.x = other.max.x;
+    if (other.max.y < this.max.y) this.max.y = other.max.y;
+    return this;
+  }
+
+  translate(x: number, y: number): this {
+    this.min.x += x;
+    this.min.y += y;
+    this.max.x += x;
+    this.max.y += y;
+    return this;
+  }
+
+  translateVec(v: Vec2): this {
+    return this.translate(v.x, v.y);
+  }
+
+  setFromCenterExtents(cx: number, cy: number, ex: number, ey: number): this {
+    this.min.set(cx - ex, cy - ey);
+    this.max.set(cx + ex, cy + ey);
+    return this;
+  }
+
+  isEmpty(): boolean {
+    return this.max.x < this.min.x || this.max.y < this.min.y;
+  }
+
+  getCenter(out: Vec2 | null = null): Vec2 {
+    if (out === null) out = new Vec2();
+    out.x = (this.min.x + this.max.x) * 0.5;
+    out.y = (this.min.y + this.max.y) * 0.5;
+    return out;
+  }
+
+  getSize(out: Vec2 | null = null): Vec2 {
+    if (out === null) out = new Vec2();
+    out.x = this.max.x - this.min.x;
+    out.y = this.max.y - this.min.y;
+    return out;
+  }
+
+  getExtents(out: Vec2 | null = null): Vec2 {
+    if (out === null) out = new Vec2();
+    out.x = (this.max.x - this.min.x) * 0.5;
+    out.y = (this.max.y - this.min.y) * 0.5;
+    return out;
+  }
+
+  getArea(): number {
+    return (this.max.x - this.min.x) * (this.max.y - this.min.y);
+  }
+
+  getPerimeter(): number {
+    return 2.0 * ((this.max.x - this.min.x) + (this.max.y - this.min.y));
+  }
+
+  containsPoint(x: number, y: number): boolean {
+    return x >= this.min.x && x <= this.max.x &&
+           y >= this.min.y && y <= this.max.y;
+  }
+
+  containsPointVec(p: Vec2): boolean {
+    return this.containsPoint(p.x, p.y);
+  }
+
+  containsRect(other: Rect): boolean {
+    return other.min.x >= this.min.x && other.max.x <= this.max.x &&
+           other.min.y >= this.min.y && other.max.y <= this.max.y;
+  }
+
+  intersectsRect(other: Rect): boolean {
+    return this.min.x <= other.max.x && this.max.x >= other.min.x &&
+           this.min.y <= other.max.y && this.max.y >= other.min.y;
+  }
+
+  distanceToPoint(x: number, y: number): number {
+    return Math.sqrt(this.distanceToPointSq(x, y));
+  }
+
+  distanceToPointVec(p: Vec2): number {
+    return this.distanceToPoint(p.x, p.y);
+  }
+
+  distanceToPointSq(x: number, y: number): number {
+    let dx: number = 0;
+    let dy: number = 0;
+
+    if (x < this.min.x) dx = this.min.x - x;
+    else if (x > this.max.x) dx = x - this.max.x;
+
+    if (y < this.min.y) dy = this.min.y - y;
+    else if (y > this.max.y) dy = y - this.max.y;
+
+    return dx * dx + dy * dy;
+  }
+
+  clampPoint(x: number, y: number, out: Vec2 | null = null): Vec2 {
+    if (out === null) out = new Vec2();
+    out.x = x < this.min.x ? this.min.x : (x > this.max.x ? this.max.x : x);
+    out.y = y < this.min.y ? this.min.y : (y > this.max.y ? this.max.y : y);
+    return out;
+  }
+
+  clampPointVec(p: Vec2, out: Vec2 | null = null): Vec2 {
+    return this.clampPoint(p.x, p.y, out);
+  }
+
+  equals(other: Rect, epsilon: number = EPSILON): boolean {
+    return this.min.equals(other.min, epsilon) && this.max.equals(other.max, epsilon);
+  }
+
+  static union(a: Rect, b: Rect, out: Rect | null = null): Rect {
+    if (out === null) out = new Rect();
+    out.min.x = a.min.x < b.min.x ? a.min.x : b.min.x;
+    out.min.y = a.min.y < b.min.y ? a.min.y : b.min.y;
+    out.max.x = a.max.x > b.max.x ? a.max.x : b.max.x;
+    out.max.y = a.max.y > b.max.y ? a.max.y : b.max.y;
+    return out;
+  }
+
+  static intersection(a: Rect, b: Rect, out: Rect | null = null): Rect {
+    if (out === null) out = new Rect();
+    out.min.x = a.min.x > b.min.x ? a.min.x : b.min.x;
+    out.min.y = a.min.y > b.min.y ? a.min.y : b.min.y;
+    out.max.x = a.max.x < b.max.x ? a.max.x : b.max.x;
+    out.max.y = a.max.y < b.max.y ? a.max.y : b.max.y;
+    return out;
+  }
+}
@@ -0,0 +1,294 @@
+import { Vec3 } from './Vec3';
+import type { AABB } from './AABB';
+import type { Ray } from './Ray';
+
+/** Entry visitor. Return false to stop the query early. */
+export type SpatialHashCallback = (id: number) => boolean | void;
+
+/**
+ * Cell visitor for {@link SpatialHashGrid.traverseRay}: integer cell coordinates and the
+ * ray's [tEnter, tExit] span inside it. Return false to stop the traversal.
+ */
+export type SpatialHashCellCallback = (cellX: number, cellY: number, cellZ: number, tEnter: number, tExit: number) => boolean | void;
+
+const NONE = -1;
+
+/**
+ * Uniform grid of point entries hashed into a fixed bucket table. Cell = floor(p / cellSize)
+ * (see {@link cellOf}), so negative and large coordinates need no special casing: the grid
+ * works the same fed absolute world positions or camera-relative ones, as long as one grid
+ * is fed one frame consistently. Cell coordinates must fit in int32.
+ *
+ * Entries are keyed by small non-negative integer ids (array indices, entity ids) and
+ * stored intrusively in typed arrays — one doubly-linked list per bucket — so insert,
+ * update, remove and every query are allocation-free once capacity is reached. Hash
+ * collisions only cost time: queries check each entry's own cell.
+ */
+export class SpatialHashGrid {
+  readonly cellSize: number;
+  private readonly invCellSize: number;
+  private readonly mask: number;
+  private readonly heads: Int32Array;
+
+  private posX: Float64Array;
+  private posY: Float64Array;
+  private posZ: Float64Array;
+  private cellX: Int32Array;
+  private cellY: Int32Array;
+  private cellZ: Int32Array;
+  private next: Int32Array;
+  private prev: Int32Array;
+  /** Bucket index of each entry; -1 when the id is not in the grid. */
+  private bucket: Int32Array;
+  private size: number;
+
+  /** `bucketCount` is rounded up to a power of two. */
+  constructor(cellSize: number, bucketCount: number = 4096) {
+    this.cellSize = cellSize;
+    this.invCellSize = 1.0 / cellSize;
+    let buckets = 1;
+    while (buckets < bucketCount) buckets <<= 1;
+    this.mask = buckets - 1;
+    this.heads = new Int32Array(buckets).fill(NONE);
+
+    this.posX = new Float64Array(0);
+    this.posY = new Float64Array(0);
+    this.posZ = new Float64Array(0);
+    this.cellX = new Int32Array(0);
+    this.cellY = new Int32Array(0);
+    this.cellZ = new Int32Array(0);
+    this.next = new Int32Array(0);
+    this.prev = new Int32Array(0);
+    this.bucket = new Int32Array(0);
+    this.size = 0;
+  }
+
+  get count(): number {
+    return this.size;
+  }
+
+  /** Integer cell containing `p`, as a Vec3 of whole numbers. */
+  cellOf(p: Vec3, out: Vec3 | null = null): Vec3 {
+    if (out === null) out = new Vec3();
+    return out.copy(p).mulScalar(this.invCellSize).floor();
+  }
+
+  /** False for ids that are negative, fractional or not in the grid. */
+  has(id: number): boolean {
+    return (id | 0) === id && id >= 0 && id < this.bucket.length && this.bucket[id] !== NONE;
+  }
+
+  getPosition(id: number, out: Vec3 | null = null): Vec3 {
+    if (out === null) out = new Vec3();
+    return out.set(this.posX[id], this.posY[id], this.posZ[id]);
+  }
+
+  /** Add `id` at (x, y, z); an id already present is moved instead. Invalid ids are ignored. */
+  insert(id: number, x: number, y: number, z: number): this {
+    if (this.has(id)) return this.update(id, x, y, z);
+    if ((id | 0) !== id || id < 0) return this;
+    if (id >= this.bucket.length) this.grow(id + 1);
+
+    this.posX[id] = x; this.posY[id] = y; this.posZ[id] = z;
+    this.link(id);
+    this.size++;
+    return this;
+  }
+
+  insertVec(id: number, p: Vec3): this {
+    return this.insert(id, p.x, p.y, p.z);
+  }
+
+  /** Move `id` to (x, y, z); only relinks when the cell changes. Ignored for absent ids. */
+  update(id: number, x: number, y: number, z: number): this {
+    if (!this.has(id)) return this;
+    this.posX[id] = x; this.posY[id] = y; this.posZ[id] = z;
+
+    const cx = Math.floor(x * this.invCellSize), cy = Math.floor(y * this.invCellSize), cz = Math.floor(z * this.invCellSize);
+    if (cx !== this.cellX[id] || cy !== this.cellY[id] || cz !== this.cellZ[id]) {
+      this.unlink(id);
+      this.link(id);
+    }
+    return this;
+  }
+
+  updateVec(id: number, p: Vec3): this {
+    return this.update(id, p.x, p.y, p.z);
+  }
+
+  remove(id: number): boolean {
+    if (!this.has(id)) return false;
+    this.unlink(id);
+    this.size--;
+    return true;
+  }
+
+  clear(): this {
+    this.heads.fill(NONE);
+    this.bucket.fill(NONE);
+    this.size = 0;
+    return this;
+  }
+
+  /** Report the ids stored in one cell. Returns the number reported. */
+  queryCell(cellX: number, cellY: number, cellZ: number, callback: SpatialHashCallback): number {
+    let reported = 0;
+    for (let e = this.heads[this.hash(cellX, cellY, cellZ)]; e !== NONE; e = this.next[e]) {
+      if (this.cellX[e] !== cellX || this.cellY[e] !== cellY || this.cellZ[e] !== cellZ) continue;
+      reported++;
+      if (callback(e) === false) return reported;
+    }
+    return reported;
+  }
+
+  /** Report ids within `radius` of (x, y, z) (inclusive). Returns the number reported. */
+  queryRadius(x: number, y: number, z: number, radius: number, callback: SpatialHashCallback): number {
+    const r2 = radius * radius;
+    return this.queryRange(x - radius, y - radius, z - radius, x + radius, y + radius, z + radius, callback, x, y, z, r2);
+  }
+
+  queryRadiusVec(center: Vec3, radius: number, callback: SpatialHashCallback): number {
+    return this.queryRadius(center.x, center.y, center.z, radius, callback);
+  }
+
+  /** Report ids inside `aabb` (inclusive). Returns the number reported. */
+  queryAABB(aabb: AABB, callback: SpatialHashCallback): number {
+    return this.queryRange(aabb.min.x, aabb.min.y, aabb.min.z, aabb.max.x, aabb.max.y, aabb.max.z, callback, 0, 0, 0, -1);
+  }
+
+  /**
+   * 3D-DDA (Amanatides–Woo) walk of the cells pierced by `ray` from t = 0 to `maxDistance`,
+   * nearest first. Use {@link queryCell} from the callback to visit each cell's entries.
+   * Returns the number of cells visited. The grid is unbounded, so `maxDistance` must be
+   * finite — an infinite or NaN distance visits nothing.
+   */
+  traverseRay(ray: Ray, maxDistance: number, callback: SpatialHashCellCallback): number {
+    if (!Number.isFinite(maxDistance)) return 0;
+
+    const s = this.invCellSize;
+    const ox = ray.origin.x, oy = ray.origin.y, oz = ray.origin.z;
+    const dx = ray.direction.x, dy = ray.direction.y, dz = ray.direction.z;
+
+    let cx = Math.floor(ox * s), cy = Math.floor(oy * s), cz = Math.floor(oz * s);
+    const stepX = dx > 0 ? 1 : (dx < 0 ? -1 : 0);
+    const stepY = dy > 0 ? 1 : (dy < 0 ? -1 : 0);
+    const stepZ = dz > 0 ? 1 : (dz < 0 ? -1 : 0);
+
+    // Ray distance to cross one cell, and to the first boundary, per axis
+    const deltaX = stepX !== 0 ? this.cellSize / Math.abs(dx) : Infinity;
+    const deltaY = stepY !== 0 ? this.cellSize / Math.abs(dy) : Infinity;
+    const deltaZ = stepZ !== 0 ? this.cellSize / Math.abs(dz) : Infinity;
+    let tMaxX = stepX !== 0 ? ((cx + (stepX > 0 ? 1 : 0)) * this.cellSize - ox) / dx : Infinity;
+    let tMaxY = stepY !== 0 ? ((cy + (stepY > 0 ? 1 : 0)) * this.cellSize - oy) / dy : Infinity;
+    let tMaxZ = stepZ !== 0 ? ((cz + (stepZ > 0 ? 1 : 0)) * this.cellSize - oz) / dz : Infinity;
+
+    let t = 0;
+    let visited = 0;
+    while (t <= maxDistance) {
+      const tExit = Math.min(tMaxX, tMaxY, tMaxZ, maxDistance);
+      visited++;
+      if (callback(cx, cy, cz, t, tExit) === false) break;
+
+      if (tMaxX <= tMaxY && tMaxX <= tMaxZ) {
+        t = tMaxX; cx += stepX; tMaxX += deltaX;
+      } else if (tMaxY <= tMaxZ) {
+        t = tMaxY; cy += stepY; tMaxY += deltaY;
+      } else {
+        t = tMaxZ; cz += stepZ; tMaxZ += deltaZ;
+      }
+      if (t === Infinity) break; // Zero direction
+    }
+    return visited;
+  }
+
+  /** Box query with an optional sphere filter (`r2` < 0 disables it). */
+  private queryRange(
+    minX: number, minY: number, minZ: number, maxX: number, maxY: number, maxZ: number,
+    callback: SpatialHashCallback, sx: number, sy: number, sz: number, r2: number
+  ): number {
+    const s = this.invCellSize;
+    const c0x = Math.floor(minX * s), c0y = Math.floor(minY * s), c0z = Math.floor(minZ * s);
+    const c1x = Math.floor(maxX * s), c1y = Math.floor(maxY * s), c1z = Math.floor(maxZ * s);
+    const cells = (c1x - c0x + 1) * (c1y - c0y + 1) * (c1z - c0z + 1);
+    let reported = 0;
+
+    // Range covers more cells than there are buckets: scanning every bucket once is cheaper
+    if (cells > this.heads.length) {
+      for (let b = 0; b < this.heads.length; b++) {
+        for (let e = this.heads[b]; e !== NONE; e = this.next[e]) {
+          if (!this.accept(e, minX, minY, minZ, maxX, maxY, maxZ, sx, sy, sz, r2)) continue;
+          reported++;
+          if (callback(e) === false) return reported;
+        }
+      }
+      return reported;
+    }
+
+    for (let cz = c0z; cz <= c1z; cz++) {
+      for (let cy = c0y; cy <= c1y; cy++) {
+        for (let cx = c0x; cx <= c1x; cx++) {
+          for (let e = this.heads[this.hash(cx, cy, cz)]; e !== NONE; e = this.next[e]) {
+            // Other cells of the range may share this bucket — count each entry from its own cell only
+            if (this.cellX[e] !== cx || this.cellY[e] !== cy || this.cellZ[e] !== cz) continue;
+            if (!this.accept(e, minX, minY, minZ, maxX, maxY, maxZ, sx, sy, sz, r2)) continue;
+            reported++;
+            if (callback(e) === false) return reported;
+          }
+        }
+      }
+    }
+    return reported;
+  }
+
+  private accept(
+    e: number, minX: number, minY: number, minZ: number, maxX: number, maxY: number, maxZ: number,
+    sx: number, sy: number, sz: number, r2: number
+  ): boolean {
+    const x = this.posX[e], y = this.posY[e], z = this.posZ[e];
+    if (r2 >= 0) {
+      const ex = x - sx, ey = y - sy, ez = z - sz;
+      return ex * ex + ey * ey + ez * ez <= r2;
+    }
+    return x >= minX && x <= maxX && y >= minY && y <= maxY && z >= minZ && z <= maxZ;
+  }
+
+  private hash(cx: number, cy: number, cz: number): number {
+    // Teschner et al. 2003, "Optimized Spatial Hashing for Collision Detection of Deformable Objects"
+    return (Math.imul(cx, 73856093) ^ Math.imul(cy, 19349663) ^ Math.imul(cz, 83492791)) & this.mask;
+  }
+
+  private link(id: number): void {
+    const s = this.invCellSize;
+    const cx = Math.floor(this.posX[id] * s), cy = Math.floor(this.posY[id] * s), cz = Math.floor(this.posZ[id] * s);
+    const b = this.hash(cx, cy, cz);
+    this.cellX[id] = cx; this.cellY[id] = cy; this.cellZ[id] = cz;
+    this.bucket[id] = b;
+    this.prev[id] = NONE;
+    this.next[id] = this.heads[b];
+    if (this.heads[b] !== NONE) this.prev[this.heads[b]] = id;
+    this.heads[b] = id;
+  }
+
+  private unlink(id: number): void {
+    const p = this.prev[id], n = this.next[id];
+    if (p !== NONE) this.next[p] = n;
+    else this.heads[this.bucket[id]] = n;
+    if (n !== NONE) this.prev[n] = p;
+    this.bucket[id] = NONE;
+  }
+
+  private grow(minCapacity: number): void {
+    let capacity = this.bucket.length > 0 ? this.bucket.length * 2 : 64;
+    while (capacity < minCapacity) capacity *= 2;
+
+    const posX = new Float64Array(capacity); posX.set(this.posX); this.posX = posX;
+    const posY = new Float64Array(capacity); posY.set(this.posY); this.posY = posY;
+    const posZ = new Float64Array(capacity); posZ.set(this.posZ); this.posZ = posZ;
+    const cellX = new Int32Array(capacity); cellX.set(this.cellX); this.cellX = cellX;
+    const cellY = new Int32Array(capacity); cellY.set(this.cellY); this.cellY = cellY;
+    const cellZ = new Int32Array(capacity); cellZ.set(this.cellZ); this.cellZ = cellZ;
+    const next = new Int32Array(capacity); next.set(this.next); this.next = next;
+    const prev = new Int32Array(capacity); prev.set(this.prev); this.prev = prev;
+    const bucket = new Int32Array(capacity).fill(NONE); bucket.set(this.bucket); this.bucket = bucket;
+  }
+}
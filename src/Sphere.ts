@@ -0,0 +1,351 @@
+import { EPSILON, approxEqual } from './constants';
+import { Vec3 } from './Vec3';
+import { AABB } from './AABB';
+import type { Mat4 } from './Mat4';
+
+// Containment slack for the exact fit — keeps points on the boundary from re-triggering
+// a rebuild through f64 round-off (relative to the coordinate scale of the input).
+const FIT_TOLERANCE: number = 1e-9;
+
+export class Sphere {
+  center: Vec3;
+  radius: number;
+
+  constructor() {
+    // Initialize to "empty" state (negative radius)
+    this.center = new Vec3(0, 0, 0);
+    this.radius = -1;
+  }
+
+  static empty(): Sphere {
+    return new Sphere();
+  }
+
+  static create(cx: number, cy: number, cz: number, radius: number): Sphere {
+    return new Sphere().set(cx, cy, cz, radius);
+  }
+
+  static fromCenterRadius(center: Vec3, radius: number): Sphere {
+    return new Sphere().set(center.x, center.y, center.z, radius);
+  }
+
+  static fromAABB(aabb: AABB): Sphere {
+    return new Sphere().setFromAABB(aabb);
+  }
+
+  /** Fast approximate fit (Ritter) — see {@link setFromPoints}. */
+  static fromPoints(points: Vec3[]): Sphere {
+    return new Sphere().setFromPoints(points);
+  }
+
+  /** Exact minimal enclosing sphere (Welzl) — see {@link setFromPointsMinimal}. */
+  static fromPointsMinimal(points: Vec3[]): Sphere {
+    return new Sphere().setFromPointsMinimal(points);
+  }
+
+  set(cx: number, cy: number, cz: number, radius: number): this {
+    this.center.set(cx, cy, cz);
+    this.radius = radius;
+    return this;
+  }
+
+  setEmpty(): this {
+    this.center.set(0, 0, 0);
+    this.radius = -1;
+    return this;
+  }
+
+  copy(src: Sphere): this {
+    this.center.copy(src.center);
+    this.radius = src.radius;
+    return this;
+  }
+
+  clone(): Sphere {
+    return new Sphere().copy(this);
+  }
+
+  isEmpty(): boolean {
+    return this.radius < 0;
+  }
+
+  /** Circumscribed sphere of the box: center + half-diagonal. An empty box gives an empty sphere. */
+  setFromAABB(aabb: AABB): this {
+    if (aabb.isEmpty()) return this.setEmpty();
+    aabb.getCenter(this.center);
+    const ex = (aabb.max.x - aabb.min.x) * 0.5;
+    const ey = (aabb.max.y - aabb.min.y) * 0.5;
+    const ez = (aabb.max.z - aabb.min.z) * 0.5;
+    this.radius = Math.sqrt(ex * ex + ey * ey + ez * ez);
+    return this;
+  }
+
+  /**
+   * Ritter's bounding sphere: start from the most separated pair of axis-extreme points,
+   * then grow over one pass. O(n), no allocation; typically within 5–20 % of the minimal
+   * radius — use {@link setFromPointsMinimal} when tightness matters more than speed.
+   */
+  setFromPoints(points: Vec3[]): this {
+    const n = points.length;
+    if (n === 0) return this.setEmpty();
+
+    let minX = points[0], maxX = points[0];
+    let minY = points[0], maxY = points[0];
+    let minZ = points[0], maxZ = points[0];
+    for (let i = 1; i < n; i++) {
+      const p = points[i];
+      if (p.x < minX.x) minX = p;
+      if (p.x > maxX.x) maxX = p;
+      if (p.y < minY.y) minY = p;
+      if (p.y > maxY.y) maxY = p;
+      if (p.z < minZ.z) minZ = p;
+      if (p.z > maxZ.z) maxZ = p;
+    }
+
+    let a = minX, b = maxX;
+    let best: number = Vec3.distanceSq(minX, maxX);
+    const dy: number = Vec3.distanceSq(minY, maxY);
+    if (dy > best) { best = dy; a = minY; b = maxY; }
+    const dz: number = Vec3.distanceSq(minZ, maxZ);
+    if (dz > best) { a = minZ; b = maxZ; }
+
+    this.setDiametral(a, b);
+    for (let i = 0; i < n; i++) {
+      this.expandByPointVec(points[i]);
+    }
+    return this;
+  }
+
+  /**
+   * Exact minimal enclosing sphere — Welzl's algorithm, unrolled into nested loops over a
+   * deterministically shuffled order (expected O(n), reproducible results). Allocates one
+   * index array; meant for asset/tool time, not per frame.
+   */
+  setFromPointsMinimal(points: Vec3[]): this {
+    const n = points.length;
+    if (n === 0) return this.setEmpty();
+
+    // Random order is what makes Welzl expected-linear; a fixed seed keeps output stable
+    const order: number[] = new Array<number>(n);
+    for (let i = 0; i < n; i++) order[i] = i;
+    let seed: number = 0x2545f491;
+    for (let i = n - 1; i > 0; i--) {
+      seed ^= seed << 13; seed ^= seed >>> 17; seed ^= seed << 5;
+      const j = (seed >>> 0) % (i + 1);
+      const t = order[i]; order[i] = order[j]; order[j] = t;
+    }
+
+    const p0 = points[order[0]];
+    this.set(p0.x, p0.y, p0.z, 0);
+    for (let i = 1; i < n; i++) {
+      const pi = points[order[i]];
+      if (this.containsFit(pi)) continue;
+      this.set(pi.x, pi.y, pi.z, 0);
+      for (let j = 0; j < i; j++) {
+        const pj = points[order[j]];
+        if (this.containsFit(pj)) continue;
+        this.setDiametral(pi, pj);
+        for (let k = 0; k < j; k++) {
+          const pk = points[order[k]];
+          if (this.containsFit(pk)) continue;
+          this.setCircumscribed3(pi, pj, pk);
+          for (let l = 0; l < k; l++) {
+            const pl = points[order[l]];
+            if (this.containsFit(pl)) continue;
+            this.setCircumscribed4(pi, pj, pk, pl);
+          }
+        }
+      }
+    }
+    return this;
+  }
+
+  /** Grow minimally (moving the center) so the point is inside. */
+  expandByPoint(x: number, y: number, z: number): this {
+    if (this.radius < 0) return this.set(x, y, z, 0);
+
+    const dx = x - this.center.x, dy = y - this.center.y, dz = z - this.center.z;
+    const distSq: number = dx * dx + dy * dy + dz * dz;
+    if (distSq <= this.radius * this.radius) return this;
+
+    const dist: number = Math.sqrt(distSq);
+    const newRadius: number = (this.radius + dist) * 0.5;
+    const k: number = (newRadius - this.radius) / dist;
+    this.center.x += dx * k;
+    this.center.y += dy * k;
+    this.center.z += dz * k;
+    this.radius = newRadius;
+    return this;
+  }
+
+  expandByPointVec(p: Vec3): this {
+    return this.expandByPoint(p.x, p.y, p.z);
+  }
+
+  /** Smallest sphere enclosing both this and `other`. */
+  union(other: Sphere): this {
+    if (other.radius < 0) return this;
+    if (this.radius < 0) return this.copy(other);
+
+    const dx = other.center.x - this.center.x;
+    const dy = other.center.y - this.center.y;
+    const dz = other.center.z - this.center.z;
+    const dist: number = Math.sqrt(dx * dx + dy * dy + dz * dz);
+
+    if (dist + other.radius <= this.radius) return this;
+    if (dist + this.radius <= other.radius) return this.copy(other);
+
+    const newRadius: number = (dist + this.radius + other.radius) * 0.5;
+    const k: number = (newRadius - this.radius) / dist;
+    this.center.x += dx * k;
+    this.center.y += dy * k;
+    this.center.z += dz * k;
+    this.radius = newRadius;
+    return this;
+  }
+
+  translate(x: number, y: number, z: number): this {
+    this.center.x += x;
+    this.center.y += y;
+    this.center.z += z;
+    return this;
+  }
+
+  /**
+   * Transform by a TRS `m`: the center maps as a point, the radius scales by the largest
+   * axis scale of `m` — conservative (exact for uniform scale, loose along the shorter axes
+   * of a non-uniform one, whose true image is an ellipsoid). Sheared matrices can stretch
+   * further than any single axis; bound those through `AABB` instead.
+   */
+  transform(m: Mat4): this {
+    if (this.radius < 0) return this;
+    m.transformVec3(this.center, this.center);
+    const sx: number = m.m00 * m.m00 + m.m01 * m.m01 + m.m02 * m.m02;
+    const sy: number = m.m04 * m.m04 + m.m05 * m.m05 + m.m06 * m.m06;
+    const sz: number = m.m08 * m.m08 + m.m09 * m.m09 + m.m10 * m.m10;
+    let maxSq: number = sx;
+    if (sy > maxSq) maxSq = sy;
+    if (sz > maxSq) maxSq = sz;
+    this.radius *= Math.sqrt(maxSq);
+    return this;
+  }
+
+  getBoundingAABB(out: AABB | null = null): AABB {
+    if (out === null) out = new AABB();
+    if (this.radius < 0) return out.setEmpty();
+    const c = this.center, r = this.radius;
+    return out.set(c.x - r, c.y - r, c.z - r, c.x + r, c.y + r, c.z + r);
+  }
+
+  containsPoint(x: number, y: number, z: number): boolean {
+    if (this.radius < 0) return false;
+    const dx = x - this.center.x, dy = y - this.center.y, dz = z - this.center.z;
+    return dx * dx + dy * dy + dz * dz <= this.radius * this.radius;
+  }
+
+  containsPointVec(p: Vec3): boolean {
+    return this.containsPoint(p.x, p.y, p.z);
+  }
+
+  containsSphere(other: Sphere): boolean {
+    if (this.radius < 0 || other.radius < 0) return false;
+    return Vec3.distance(this.center, other.center) + other.radius <= this.radius;
+  }
+
+  intersectsSphere(other: Sphere): boolean {
+    if (this.radius < 0 || other.radius < 0) return false;
+    const r: number = this.radius + other.radius;
+    return Vec3.distanceSq(this.center, other.center) <= r * r;
+  }
+
+  intersectsAABB(aabb: AABB): boolean {
+    if (this.radius < 0) return false;
+    const c = this.center;
+    return aabb.distanceToPointSq(c.x, c.y, c.z) <= this.radius * this.radius;
+  }
+
+  /** Signed: negative inside the sphere. */
+  distanceToPoint(x: number, y: number, z: number): number {
+    const dx = x - this.center.x, dy = y - this.center.y, dz = z - this.center.z;
+    return Math.sqrt(dx * dx + dy * dy + dz * dz) - this.radius;
+  }
+
+  distanceToPointVec(p: Vec3): number {
+    return this.distanceToPoint(p.x, p.y, p.z);
+  }
+
+  equals(other: Sphere, epsilon: number = EPSILON): boolean {
+    return this.center.equals(other.center, epsilon) && approxEqual(this.radius, other.radius, epsilon);
+  }
+
+  private containsFit(p: Vec3): boolean {
+    const dist: number = Vec3.distance(this.center, p);
+    return dist <= this.radius + FIT_TOLERANCE * (1.0 + this.radius);
+  }
+
+  private setDiametral(a: Vec3, b: Vec3): this {
+    this.center.set((a.x + b.x) * 0.5, (a.y + b.y) * 0.5, (a.z + b.z) * 0.5);
+    this.radius = Vec3.distance(a, b) * 0.5;
+    return this;
+  }
+
+  /** Smallest sphere through a, b, c (center in their plane). Collinear → longest-pair diametral. */
+  private setCircumscribed3(a: Vec3, b: Vec3, c: Vec3): this {
+    const ux = b.x - a.x, uy = b.y - a.y, uz = b.z - a.z;
+    const vx = c.x - a.x, vy = c.y - a.y, vz = c.z - a.z;
+    // n = u × v
+    const nx = uy * vz - uz * vy, ny = uz * vx - ux * vz, nz = ux * vy - uy * vx;
+    const nLenSq: number = nx * nx + ny * ny + nz * nz;
+    const uLenSq: number = ux * ux + uy * uy + uz * uz;
+    const vLenSq: number = vx * vx + vy * vy + vz * vz;
+
+    if (nLenSq <= EPSILON * EPSILON * uLenSq * vLenSq) {
+      const bc: number = Vec3.distanceSq(b, c);
+      if (uLenSq >= vLenSq && uLenSq >= bc) return this.setDiametral(a, b);
+      if (vLenSq >= bc) return this.setDiametral(a, c);
+      return this.setDiametral(b, c);
+    }
+
+    // offset = (|v|² (n × u) + |u|² (v × n)) / (2 |n|²)
+    const inv: number = 0.5 / nLenSq;
+    const ox = (vLenSq * (ny * uz - nz * uy) + uLenSq * (vy * nz - vz * ny)) * inv;
+    const oy = (vLenSq * (nz * ux - nx * uz) + uLenSq * (vz * nx - vx * nz)) * inv;
+    const oz = (vLenSq * (nx * uy - ny * ux) + uLenSq * (vx * ny - vy * nx)) * inv;
+
+    this.center.set(a.x + ox, a.y + oy, a.z + oz);
+    this.radius = Math.sqrt(ox * ox + oy * oy + oz * oz);
+    return this;
+  }
+
+  /** Sphere through a, b, c, d. Coplanar (round-off only, in Welzl) → grow the abc sphere over d. */
+  private setCircumscribed4(a: Vec3, b: Vec3, c: Vec3, d: Vec3): this {
+    const ux = b.x - a.x, uy = b.y - a.y, uz = b.z - a.z;
+    const vx = c.x - a.x, vy = c.y - a.y, vz = c.z - a.z;
+    const wx = d.x - a.x, wy = d.y - a.y, wz = d.z - a.z;
+
+    // v × w, w × u, u × v
+    const vwx = vy * wz - vz * wy, vwy = vz * wx - vx * wz, vwz = vx * wy - vy * wx;
+    const wux = wy * uz - wz * uy, wuy = wz * ux - wx * uz, wuz = wx * uy - wy * ux;
+    const uvx = uy * vz - uz * vy, uvy = uz * vx - ux * vz, uvz = ux * vy - uy * vx;
+
+    const det: number = ux * vwx + uy * vwy + uz * vwz;
+    const uLenSq: number = ux * ux + uy * uy + uz * uz;
+    const vLenSq: number = vx * vx + vy * vy + vz * vz;
+    const wLenSq: number = wx * wx + wy * wy + wz * wz;
+
+    const scale: number = Math.sqrt(uLenSq * vLenSq * wLenSq);
+    if (det > -EPSILON * scale && det < EPSILON * scale) {
+      return this.setCircumscribed3(a, b, c).expandByPointVec(d);
+    }
+
+    // offset = (|u|² (v × w) + |v|² (w × u) + |w|² (u × v)) / (2 u·(v × w))
+    const inv: number = 0.5 / det;
+    const ox = (uLenSq * vwx + vLenSq * wux + wLenSq * uvx) * inv;
+    const oy = (uLenSq * vwy + vLenSq * wuy + wLenSq * uvy) * inv;
+    const oz = (uLenSq * vwz + vLenSq * wuz + wLenSq * uvz) * inv;
+
+    this.center.set(a.x + ox, a.y + oy, a.z + oz);
+    this.radius = Math.sqrt(ox * ox + oy * oy + oz * oz);
+    return this;
+  }
+}
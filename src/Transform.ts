@@ -0,0 +1,199 @@
+import { Vec3 } from './Vec3';
+import { Quat } from './Quat';
+import { Mat4 } from './Mat4';
+
+/**
+ * Scene-graph node: local `position`, `rotation` and `scale` relative to an optional
+ * parent. Local and world matrices are computed lazily and cached; changing a node marks
+ * its world matrix — and every descendant's — dirty, so a frame that moves nothing
+ * recomputes nothing.
+ *
+ * Use the setters, or edit `position`/`rotation`/`scale` in place and call
+ * {@link markDirty}. Everything is f64: rebase world positions with
+ * `worldToCameraRelative` before narrowing to f32 for upload.
+ */
+export class Transform {
+  readonly position: Vec3;
+  readonly rotation: Quat;
+  readonly scale: Vec3;
+
+  private parentNode: Transform | null;
+  private readonly childNodes: Transform[];
+  private readonly localMatrix: Mat4;
+  private readonly worldMatrix: Mat4;
+  private localDirty: boolean;
+  /** When set, every descendant's is set too — so invalidation can stop early. */
+  private worldDirty: boolean;
+
+  constructor() {
+    this.position = new Vec3(0, 0, 0);
+    this.rotation = new Quat(0, 0, 0, 1);
+    this.scale = new Vec3(1, 1, 1);
+    this.parentNode = null;
+    this.childNodes = [];
+    this.localMatrix = new Mat4();
+    this.worldMatrix = new Mat4();
+    this.localDirty = false;
+    this.worldDirty = false;
+  }
+
+  get parent(): Transform | null {
+    return this.parentNode;
+  }
+
+  get children(): readonly Transform[] {
+    return this.childNodes;
+  }
+
+  setPosition(x: number, y: number, z: number): this {
+    this.position.set(x, y, z);
+    return this.markDirty();
+  }
+
+  setPositionVec(v: Vec3): this {
+    return this.setPosition(v.x, v.y, v.z);
+  }
+
+  setRotation(q: Quat): this {
+    this.rotation.copy(q);
+    return this.markDirty();
+  }
+
+  setScale(x: number, y: number, z: number): this {
+    this.scale.set(x, y, z);
+    return this.markDirty();
+  }
+
+  setScaleVec(v: Vec3): this {
+    return this.setScale(v.x, v.y, v.z);
+  }
+
+  /** Flag the local TRS as changed — needed after editing `position`/`rotation`/`scale` directly. */
+  markDirty(): this {
+    this.localDirty = true;
+    this.invalidateWorld();
+    return this;
+  }
+
+  /**
+   * Attach to `parent` (null detaches). With `keepWorld` the local TRS is recomputed so the
+   * node stays where it is in the world; otherwise it keeps its local values and moves with
+   * the new parent. Returns false — changing nothing — when `parent` is this node or one of
+   * its descendants.
+   */
+  setParent(parent: Transform | null, keepWorld: boolean = false): boolean {
+    if (parent === this.parentNode) return true;
+    for (let p = parent; p !== null; p = p.parentNode) {
+      if (p === this) return false; // Would create a cycle
+    }
+
+    if (keepWorld) _world.copy(this.getWorldMatrix());
+
+    if (this.parentNode !== null) {
+      const siblings = this.parentNode.childNodes;
+      siblings.splice(siblings.indexOf(this), 1);
+    }
+    this.parentNode = parent;
+    if (parent !== null) parent.childNodes.push(this);
+
+    if (keepWorld) {
+      // local = parentWorld⁻¹ · world; shear from non-uniform parent scale is dropped
+      if (parent !== null) Mat4.multiply(_inv.copy(parent.getWorldMatrix()).invert(), _world, _world);
+      Mat4.decompose(_world, this.position, this.rotation, this.scale);
+      this.localDirty = true;
+    }
+    this.invalidateWorld();
+    return true;
+  }
+
+  addChild(child: Transform, keepWorld: boolean = false): boolean {
+    return child.setParent(this, keepWorld);
+  }
+
+  removeChild(child: Transform, keepWorld: boolean = false): boolean {
+    if (child.parentNode !== this) return false;
+    return child.setParent(null, keepWorld);
+  }
+
+  /** T · R · S of the local values. Cached — treat as read-only. */
+  getLocalMatrix(): Mat4 {
+    if (this.localDirty) {
+      Mat4.compose(this.position, this.rotation, this.scale, this.localMatrix);
+      this.localDirty = false;
+    }
+    return this.localMatrix;
+  }
+
+  /** parentWorld · local. Cached — treat as read-only. */
+  getWorldMatrix(): Mat4 {
+    if (this.worldDirty) {
+      const local = this.getLocalMatrix();
+      if (this.parentNode === null) this.worldMatrix.copy(local);
+      else Mat4.multiply(this.parentNode.getWorldMatrix(), local, this.worldMatrix);
+      this.worldDirty = false;
+    }
+    return this.worldMatrix;
+  }
+
+  getWorldPosition(out: Vec3 | null = null): Vec3 {
+    if (out === null) out = new Vec3();
+    const m = this.getWorldMatrix();
+    out.x = m.m12;
+    out.y = m.m13;
+    out.z = m.m14;
+    return out;
+  }
+
+  /** Move so the world position is `p`, through the inverse of the parent's world matrix. */
+  setWorldPosition(p: Vec3): this {
+    if (this.parentNode === null) {
+      this.position.copy(p);
+    } else {
+      _inv.copy(this.parentNode.getWorldMatrix()).invert().transformVec3(p, this.position);
+    }
+    return this.markDirty();
+  }
+
+  /**
+   * Product of the rotations up the chain. Scale is ignored: under a non-uniformly scaled,
+   * rotated ancestor the world basis is sheared and has no exact rotation.
+   */
+  getWorldRotation(out: Quat | null = null): Quat {
+    if (out === null) out = new Quat();
+    if (this.parentNode === null) return out.copy(this.rotation);
+    return this.parentNode.getWorldRotation(out).multiply(this.rotation);
+  }
+
+  /** Rotate so the world rotation (see {@link getWorldRotation}) is unit `q`. */
+  setWorldRotation(q: Quat): this {
+    if (this.parentNode === null) {
+      this.rotation.copy(q);
+    } else {
+      this.parentNode.getWorldRotation(this.rotation).conjugate().multiply(q);
+    }
+    return this.markDirty();
+  }
+
+  /**
+   * Turn so local +Z (`Vec3.forward()`) points at world-space `target`, with +Y towards
+   * `up` — `Quat.lookRotation` conventions and fallbacks. A camera node, which looks down
+   * −Z, should be turned with `Quat.lookRotation(eye - target, up)` instead.
+   */
+  lookAt(target: Vec3, up: Vec3 = _up): this {
+    this.getWorldPosition(_dir);
+    _dir.set(target.x - _dir.x, target.y - _dir.y, target.z - _dir.z);
+    return this.setWorldRotation(Quat.lookRotation(_dir, up, _look));
+  }
+
+  private invalidateWorld(): void {
+    if (this.worldDirty) return;
+    this.worldDirty = true;
+    for (let i = 0; i < this.childNodes.length; i++) this.childNodes[i].invalidateWorld();
+  }
+}
+
+const _world = new Mat4();
+const _inv = new Mat4();
+const _dir = new Vec3();
+const _look = new Quat();
+const _up = new Vec3(0, 1, 0);
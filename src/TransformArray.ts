@@ -0,0 +1,226 @@
+import { Vec3 } from './Vec3';
+import { Quat } from './Quat';
+import { Mat4 } from './Mat4';
+
+const INITIAL_CAPACITY = 64;
+const LOCAL_DIRTY = 1;
+const WORLD_CHANGED = 2;
+
+/**
+ * Flat, array-backed transform hierarchy for ECS-style iteration — the data-oriented
+ * counterpart of {@link Transform}. Entity `i` owns `positions[i*3 ..]`, `rotations[i*4 ..]`,
+ * `scales[i*3 ..]`, and column-major `localMatrices`/`worldMatrices[i*16 ..]`, all f64.
+ *
+ * Parents must precede their children (`parent < i`), so {@link updateWorld} resolves the
+ * whole hierarchy in one forward pass with no recursion. Writes through the setters (or
+ * directly into the arrays followed by {@link markDirty}) are picked up on the next pass.
+ *
+ * The arrays are replaced when capacity grows — re-read them after {@link create}.
+ */
+export class TransformArray {
+  positions: Float64Array;
+  rotations: Float64Array;
+  scales: Float64Array;
+  localMatrices: Float64Array;
+  worldMatrices: Float64Array;
+
+  private parents: Int32Array;
+  private flags: Uint8Array;
+  private size: number;
+
+  constructor(capacity: number = INITIAL_CAPACITY) {
+    this.positions = new Float64Array(0);
+    this.rotations = new Float64Array(0);
+    this.scales = new Float64Array(0);
+    this.localMatrices = new Float64Array(0);
+    this.worldMatrices = new Float64Array(0);
+    this.parents = new Int32Array(0);
+    this.flags = new Uint8Array(0);
+    this.size = 0;
+    this.grow(Math.max(capacity, 1));
+  }
+
+  get count(): number {
+    return this.size;
+  }
+
+  /**
+   * Append an identity transform under `parent` (-1 for a root) and return its index, or -1
+   * when `parent` is not an existing entity.
+   */
+  create(parent: number = -1): number {
+    if (parent < -1 || parent >= this.size) return -1;
+    if (this.size === this.parents.length) this.grow(this.size * 2);
+
+    const i = this.size++;
+    this.positions.fill(0, i * 3, i * 3 + 3);
+    this.rotations.fill(0, i * 4, i * 4 + 3);
+    this.rotations[i * 4 + 3] = 1;
+    this.scales.fill(1, i * 3, i * 3 + 3);
+    this.parents[i] = parent;
+    this.flags[i] = LOCAL_DIRTY;
+    return i;
+  }
+
+  /** Remove every entity; capacity is kept. */
+  clear(): void {
+    this.size = 0;
+  }
+
+  getParent(i: number): number {
+    return this.parents[i];
+  }
+
+  /** Reparent `i`, keeping its local values. Returns false unless `parent` is -1 or below `i`. */
+  setParent(i: number, parent: number): boolean {
+    if (parent < -1 || parent >= i) return false;
+    this.parents[i] = parent;
+    this.flags[i] |= LOCAL_DIRTY;
+    return true;
+  }
+
+  setPosition(i: number, x: number, y: number, z: number): void {
+    const p = this.positions;
+    p[i * 3] = x; p[i * 3 + 1] = y; p[i * 3 + 2] = z;
+    this.flags[i] |= LOCAL_DIRTY;
+  }
+
+  setRotation(i: number, q: Quat): void {
+    const r = this.rotations;
+    r[i * 4] = q.x; r[i * 4 + 1] = q.y; r[i * 4 + 2] = q.z; r[i * 4 + 3] = q.w;
+    this.flags[i] |= LOCAL_DIRTY;
+  }
+
+  setScale(i: number, x: number, y: number, z: number): void {
+    const s = this.scales;
+    s[i * 3] = x; s[i * 3 + 1] = y; s[i * 3 + 2] = z;
+    this.flags[i] |= LOCAL_DIRTY;
+  }
+
+  getPosition(i: number, out: Vec3 | null = null): Vec3 {
+    if (out === null) out = new Vec3();
+    const p = this.positions;
+    return out.set(p[i * 3], p[i * 3 + 1], p[i * 3 + 2]);
+  }
+
+  getRotation(i: number, out: Quat | null = null): Quat {
+    if (out === null) out = new Quat();
+    const r = this.rotations;
+    return out.set(r[i * 4], r[i * 4 + 1], r[i * 4 + 2], r[i * 4 + 3]);
+  }
+
+  getScale(i: number, out: Vec3 | null = null): Vec3 {
+    if (out === null) out = new Vec3();
+    const s = this.scales;
+    return out.set(s[i * 3], s[i * 3 + 1], s[i * 3 + 2]);
+  }
+
+  /** Flag `i`'s local values as changed after writing to the arrays directly. */
+  markDirty(i: number): void {
+    this.flags[i] |= LOCAL_DIRTY;
+  }
+
+  /**
+   * Recompute dirty local matrices and every world matrix they affect. An entity is
+   * updated when its own local values changed or its parent's world matrix changed in this
+   * same pass. Returns the number of world matrices written.
+   */
+  updateWorld(): number {
+    const flags = this.flags, parents = this.parents;
+    const local = this.localMatrices, world = this.worldMatrices;
+    let updated = 0;
+
+    for (let i = 0; i < this.size; i++) {
+      const f = flags[i];
+      const p = parents[i];
+      const parentChanged = p >= 0 && (flags[p] & WORLD_CHANGED) !== 0;
+
+      if ((f & LOCAL_DIRTY) === 0 && !parentChanged) {
+        flags[i] = 0;
+        continue;
+      }
+
+      if ((f & LOCAL_DIRTY) !== 0) composeInto(this.positions, this.rotations, this.scales, i, local);
+      if (p < 0) world.set(local.subarray(i * 16, i * 16 + 16), i * 16);
+      else multiplyAffine(world, p * 16, local, i * 16, world, i * 16);
+
+      flags[i] = WORLD_CHANGED;
+      updated++;
+    }
+
+    return updated;
+  }
+
+  /** Whether `i`'s world matrix was rewritten by the last {@link updateWorld} — e.g. to upload only what moved. */
+  worldChanged(i: number): boolean {
+    return (this.flags[i] & WORLD_CHANGED) !== 0;
+  }
+
+  /** World matrix of `i` as of the last {@link updateWorld}. */
+  getWorldMatrix(i: number, out: Mat4 | null = null): Mat4 {
+    if (out === null) out = new Mat4();
+    const w = this.worldMatrices, o = i * 16;
+    out.m00 = w[o]; out.m01 = w[o + 1]; out.m02 = w[o + 2]; out.m03 = w[o + 3];
+    out.m04 = w[o + 4]; out.m05 = w[o + 5]; out.m06 = w[o + 6]; out.m07 = w[o + 7];
+    out.m08 = w[o + 8]; out.m09 = w[o + 9]; out.m10 = w[o + 10]; out.m11 = w[o + 11];
+    out.m12 = w[o + 12]; out.m13 = w[o + 13]; out.m14 = w[o + 14]; out.m15 = w[o + 15];
+    return out;
+  }
+
+  /** f64 world position of `i` as of the last {@link updateWorld} — rebase with `worldToCameraRelative`. */
+  getWorldPosition(i: number, out: Vec3 | null = null): Vec3 {
+    if (out === null) out = new Vec3();
+    const w = this.worldMatrices, o = i * 16;
+    return out.set(w[o + 12], w[o + 13], w[o + 14]);
+  }
+
+  private grow(capacity: number): void {
+    const positions = new Float64Array(capacity * 3); positions.set(this.positions); this.positions = positions;
+    const rotations = new Float64Array(capacity * 4); rotations.set(this.rotations); this.rotations = rotations;
+    const scales = new Float64Array(capacity * 3); scales.set(this.scales); this.scales = scales;
+    const local = new Float64Array(capacity * 16); local.set(this.localMatrices); this.localMatrices = local;
+    const world = new Float64Array(capacity * 16); world.set(this.worldMatrices); this.worldMatrices = world;
+    const parents = new Int32Array(capacity); parents.set(this.parents); this.parents = parents;
+    const flags = new Uint8Array(capacity); flags.set(this.flags); this.flags = flags;
+  }
+}
+
+/** T · R · S of entity `i`, written column-major to `out[i*16 ..]` (as `Mat4.compose`). */
+function composeInto(pos: Float64Array, rot: Float64Array, scl: Float64Array, i: number, out: Float64Array): void {
+  const x = rot[i * 4], y = rot[i * 4 + 1], z = rot[i * 4 + 2], w = rot[i * 4 + 3];
+  const sx = scl[i * 3], sy = scl[i * 3 + 1], sz = scl[i * 3 + 2];
+  const x2 = x + x, y2 = y + y, z2 = z + z;
+  const xx = x * x2, xy = x * y2, xz = x * z2;
+  const yy = y * y2, yz = y * z2, zz = z * z2;
+  const wx = w * x2, wy = w * y2, wz = w * z2;
+  const o = i * 16;
+
+  out[o] = (1 - (yy + zz)) * sx;
+  out[o + 1] = (xy + wz) * sx;
+  out[o + 2] = (xz - wy) * sx;
+  out[o + 3] = 0;
+  out[o + 4] = (xy - wz) * sy;
+  out[o + 5] = (1 - (xx + zz)) * sy;
+  out[o + 6] = (yz + wx) * sy;
+  out[o + 7] = 0;
+  out[o + 8] = (xz + wy) * sz;
+  out[o + 9] = (yz - wx) * sz;
+  out[o + 10] = (1 - (xx + yy)) * sz;
+  out[o + 11] = 0;
+  out[o + 12] = pos[i * 3];
+  out[o + 13] = pos[i * 3 + 1];
+  out[o + 14] = pos[i * 3 + 2];
+  out[o + 15] = 1;
+}
+
+/** out[o ..] = a[ao ..] · b[bo ..] for affine column-major matrices; `out` must not overlap b. */
+function multiplyAffine(a: Float64Array, ao: number, b: Float64Array, bo: number, out: Float64Array, o: number): void {
+  for (let c = 0; c < 4; c++) {
+    const b0 = b[bo + c * 4], b1 = b[bo + c * 4 + 1], b2 = b[bo + c * 4 + 2];
+    const t = c === 3 ? 1 : 0;
+    out[o + c * 4] = a[ao] * b0 + a[ao + 4] * b1 + a[ao + 8] * b2 + a[ao + 12] * t;
+    out[o + c * 4 + 1] = a[ao + 1] * b0 + a[ao + 5] * b1 + a[ao + 9] * b2 + a[ao + 13] * t;
+    out[o + c * 4 + 2] = a[ao + 2] * b0 + a[ao + 6] * b1 + a[ao + 10] * b2 + a[ao + 14] * t;
+    out[o + c * 4 + 3] = t;
+  }
+}
@@ -4,13 +4,17 @@
  * The ONE seam every 3D geometry writer (mesh-instance builder, 3D light
  * collector, 3D shadow collector, debug/VFX writers) calls to rebase an
  * absolute world position around the active origin. Nobody subtracts the
- * origin by hand — when floating-origin lands, its compound offset feeds the
- * `origin` argument here and every call site keeps working unchanged.
+ * origin by hand — with a floating origin, `FloatingOrigin.origin` (its
+ * compound offset) feeds the `origin` argument here and every call site keeps
+ * working unchanged.
  *
- * All math is f64 (plain JS numbers); the f32 narrow happens later, at the
- * GPU upload seam (`Mat4.toFloat32Array` / typed-array stores) — never here.
+ * All math is f64 (plain JS numbers). `worldToCameraRelative` never narrows;
+ * the batch variants below rebase and narrow in one pass, making them the
+ * single place bulk instance data crosses from f64 to f32.
  */
 
+import type { Mat4 } from './Mat4';
+
 interface Vec3Like {
   x: number;
   y: number;
@@ -21,8 +25,8 @@ interface Vec3Like {
  * out = pos − origin, computed in f64.
  *
  * `origin` is the active rebase origin — in T1 exactly the camera's absolute
- * world position (`Camera3D.cameraWorldPos`); later possibly a compound
- * floating-origin offset. Passing it explicitly (instead of reading ambient
+ * world position (`Camera3D.cameraWorldPos`), or a `FloatingOrigin`'s
+ * compound offset. Passing it explicitly (instead of reading ambient
  * per-frame state) keeps the helper pure and testable — resolved open-Q §8.1.
  */
 export function worldToCameraRelative(pos: Vec3Like, origin: Vec3Like, out: Vec3Like): void {
@@ -30,3 +34,53 @@ export function worldToCameraRelative(pos: Vec3Like, origin: Vec3Like, out: Vec3
   out.y = pos.y - origin.y;
   out.z = pos.z - origin.z;
 }
+
+/**
+ * Batch {@link worldToCameraRelative} straight into GPU data: reads `count` packed xyz
+ * positions from `positions`, subtracts `origin` in f64, and narrows each result to f32
+ * at `out[offset + i * stride]` (three floats; `stride` ≥ 3). Floats between records are
+ * left untouched, so the rest of an interleaved instance struct can be written around it.
+ */
+export function worldToCameraRelativeBatch(
+  positions: Float64Array,
+  origin: Vec3Like,
+  out: Float32Array,
+  stride: number = 3,
+  offset: number = 0,
+  count: number = Math.floor(positions.length / 3)
+): Float32Array {
+  const ox = origin.x, oy = origin.y, oz = origin.z;
+  for (let i = 0, o = offset; i < count; i++, o += stride) {
+    out[o] = positions[i * 3] - ox;
+    out[o + 1] = positions[i * 3 + 1] - oy;
+    out[o + 2] = positions[i * 3 + 2] - oz;
+  }
+  return out;
+}
+
+/**
+ * Batch `Mat4.modelCameraRelative`: writes the first `count` models as 16 column-major
+ * floats each (the `Mat4.toFloat32Array` layout) at `out[offset + i * stride]`
+ * (`stride` ≥ 16), with `origin` subtracted from the translation in f64 before the narrow.
+ */
+export function modelsToCameraRelativeBatch(
+  models: Mat4[],
+  origin: Vec3Like,
+  out: Float32Array,
+  stride: number = 16,
+  offset: number = 0,
+  count: number = models.length
+): Float32Array {
+  const ox = origin.x, oy = origin.y, oz = origin.z;
+  for (let i = 0, o = offset; i < count; i++, o += stride) {
+    const m = models[i];
+    out[o] = m.m00; out[o + 1] = m.m01; out[o + 2] = m.m02; out[o + 3] = m.m03;
+    out[o + 4] = m.m04; out[o + 5] = m.m05; out[o + 6] = m.m06; out[o + 7] = m.m07;
+    out[o + 8] = m.m08; out[o + 9] = m.m09; out[o + 10] = m.m10; out[o + 11] = m.m11;
+    out[o + 12] = m.m12 - ox;
+    out[o + 13] = m.m13 - oy;
+    out[o + 14] = m.m14 - oz;
+    out[o + 15] = m.m15;
+  }
+  return out;
+}
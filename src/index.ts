@@ -12,14 +12,36 @@ export {
 } from './constants';
 
 export { srgbToLinear, linearToSrgb } from './color';
-export { worldToCameraRelative } from './cameraRelative';
+export { worldToCameraRelative, worldToCameraRelativeBatch, modelsToCameraRelativeBatch } from './cameraRelative';
+export { FloatingOrigin, type FloatingOriginListener } from './FloatingOrigin';
 
 export { Vec2, type Vec2Like, type Vec2Mut } from './Vec2';
 export { Vec3 } from './Vec3';
 export { Vec4 } from './Vec4';
 
+export { Mat2D, type Mat2DComponents } from './Mat2D';
+export { Mat3 } from './Mat3';
 export { Mat4 } from './Mat4';
 export { Quat } from './Quat';
+export { DualQuat } from './DualQuat';
+export { EulerOrder } from './EulerOrder';
+export { sampleQuatKeyframes, QuatInterpolation } from './quatKeyframes';
+export { Transform } from './Transform';
+export { TransformArray } from './TransformArray';
 
 export { AABB } from './AABB';
+export { Rect } from './Rect';
 export { Ray } from './Ray';
+export { RayHit } from './RayHit';
+export { Plane } from './Plane';
+export { Sphere } from './Sphere';
+export { OBB } from './OBB';
+export { Frustum, Containment } from './Frustum';
+export { BVH, type BVHRayCallback, type BVHQueryCallback } from './BVH';
+export {
+  DynamicAABBTree,
+  type DynamicTreeRayCallback, type DynamicTreeQueryCallback, type DynamicTreePairCallback
+} from './DynamicAABBTree';
+export { SpatialHashGrid, type SpatialHashCallback, type SpatialHashCellCallback } from './SpatialHashGrid';
+export { LooseOctree, type OctreeQueryCallback, type OctreeRayCallback } from './LooseOctree';
+export { Quadtree, type QuadtreeQueryCallback } from './Quadtree';
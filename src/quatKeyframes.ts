@@ -0,0 +1,96 @@
+/**
+ * @engine/math - Rotation track sampling
+ *
+ * Samples a keyframed rotation track (glTF animation sampler layout: ascending key
+ * times plus packed xyzw values) at an arbitrary time. Works on plain or typed arrays
+ * straight from the asset buffers and never allocates, so it can run per bone per frame.
+ */
+
+import { Quat } from './Quat';
+
+export enum QuatInterpolation {
+  /** Hold each key until the next (glTF `STEP`). */
+  Step = 0,
+  /** Shortest-arc slerp between keys (glTF `LINEAR`). */
+  Linear = 1,
+  /** Squad with automatic control points — C¹ through every key, no tangents needed. */
+  Squad = 2,
+  /** Cubic Hermite with authored tangents (glTF `CUBICSPLINE`). */
+  CubicSpline = 3,
+}
+
+/**
+ * Rotation of the track at `time`, written to `out`. `times` must be ascending; times
+ * outside the track clamp to the first or last key, and an empty track yields identity.
+ *
+ * `values` holds 4 floats (x, y, z, w) per key — except for `CubicSpline`, which uses
+ * glTF's 12 per key: in-tangent, value, out-tangent.
+ */
+export function sampleQuatKeyframes(
+  times: ArrayLike<number>,
+  values: ArrayLike<number>,
+  time: number,
+  interpolation: QuatInterpolation,
+  out: Quat
+): Quat {
+  const count: number = times.length;
+  const stride: number = interpolation === QuatInterpolation.CubicSpline ? 12 : 4;
+  const valueOffset: number = interpolation === QuatInterpolation.CubicSpline ? 4 : 0;
+
+  if (count === 0) return out.setIdentity();
+  if (time <= times[0]) return readKey(values, valueOffset, out);
+  if (time >= times[count - 1]) return readKey(values, (count - 1) * stride + valueOffset, out);
+
+  // Last key with times[i] <= time
+  let lo: number = 0, hi: number = count - 1;
+  while (hi - lo > 1) {
+    const mid: number = (lo + hi) >> 1;
+    if (times[mid] <= time) lo = mid;
+    else hi = mid;
+  }
+  const i: number = lo;
+  const dt: number = times[i + 1] - times[i];
+  const t: number = (time - times[i]) / dt;
+
+  switch (interpolation) {
+    case QuatInterpolation.Step:
+      return readKey(values, i * 4, out);
+
+    case QuatInterpolation.Linear:
+      readKey(values, i * 4, _q0);
+      readKey(values, (i + 1) * 4, _q1);
+      return Quat.slerp(_q0, _q1, t, out);
+
+    case QuatInterpolation.Squad: {
+      readKey(values, i * 4, _q0);
+      readKey(values, (i + 1) * 4, _q1);
+      if (_q0.dot(_q1) < 0) _q1.set(-_q1.x, -_q1.y, -_q1.z, -_q1.w);
+      readKey(values, (i > 0 ? i - 1 : 0) * 4, _prev);
+      readKey(values, (i + 2 < count ? i + 2 : count - 1) * 4, _next);
+
+      Quat.squadControlPoint(_prev, _q0, _q1, _a);
+      Quat.squadControlPoint(_q0, _q1, _next, _b);
+      return Quat.squad(_q0, _a, _b, _q1, t, out);
+    }
+
+    default: {
+      const o: number = i * 12;
+      readKey(values, o + 4, _q0);
+      readKey(values, o + 8, _b);
+      readKey(values, o + 12, _a);
+      readKey(values, o + 16, _q1);
+      return Quat.cubicSpline(_q0, _b, _a, _q1, t, dt, out);
+    }
+  }
+}
+
+function readKey(values: ArrayLike<number>, offset: number, out: Quat): Quat {
+  return out.set(values[offset], values[offset + 1], values[offset + 2], values[offset + 3]);
+}
+
+const _q0 = new Quat();
+const _q1 = new Quat();
+const _prev = new Quat();
+const _next = new Quat();
+const _a = new Quat();
+const _b = new Quat();
@@ -0,0 +1,145 @@
+/**
+ * Tests for BVH — every query is checked against a brute-force scan of the same boxes
+ */
+
+import { describe, expect, it } from 'bun:test';
+import { AABB, BVH, Frustum, Mat4, Ray, RayHit, Vec3 } from '../src';
+import { collect, rng } from './helpers';
+
+/** Deterministic boxes (xorshift) scattered in a 200-unit cube. */
+function scatter(count: number, seed: number): AABB[] {
+  const next = rng(seed);
+  const boxes: AABB[] = [];
+  for (let i = 0; i < count; i++) {
+    const cx = next() * 200 - 100, cy = next() * 200 - 100, cz = next() * 200 - 100;
+    boxes.push(AABB.fromCenterExtents(cx, cy, cz, 0.5 + next() * 3, 0.5 + next() * 3, 0.5 + next() * 3));
+  }
+  return boxes;
+}
+
+describe('BVH', () => {
+  const boxes = scatter(2000, 0x9e3779b9);
+  const bvh = BVH.fromAABBs(boxes);
+
+  describe('build', () => {
+    it('should cover every primitive once', () => {
+      expect(bvh.primCount).toBe(2000);
+      const seen = new Set(bvh.primIds);
+      expect(seen.size).toBe(2000);
+      expect(bvh.nodeCount).toBeLessThanOrEqual(2 * 2000 - 1);
+    });
+
+    it('should bound all boxes at the root', () => {
+      const all = AABB.empty();
+      for (const b of boxes) all.union(b);
+      expect(bvh.getBounds().equals(all)).toBe(true);
+    });
+
+    it('should report user ids and skip empty boxes', () => {
+      const tree = BVH.fromAABBs([AABB.fromMinMax(0, 0, 0, 1, 1, 1), AABB.empty(), AABB.fromMinMax(5, 0, 0, 6, 1, 1)], [10, 20, 30]);
+      expect(tree.primCount).toBe(2);
+      expect(collect((cb) => tree.queryAABB(AABB.fromMinMax(-10, -10, -10, 10, 10, 10), cb))).toEqual([10, 30]);
+    });
+
+    it('should handle empty and degenerate inputs', () => {
+      const empty = new BVH().build([]);
+      expect(empty.raycast(Ray.create(0, 0, 0, 1, 0, 0), new RayHit())).toBe(-1);
+      expect(empty.queryAABB(AABB.fromMinMax(-1, -1, -1, 1, 1, 1), () => {})).toBe(0);
+      expect(empty.getBounds().isEmpty()).toBe(true);
+
+      // Coincident boxes cannot be separated by centroid splits
+      const same: AABB[] = [];
+      for (let i = 0; i < 100; i++) same.push(AABB.fromMinMax(0, 0, 0, 1, 1, 1));
+      const stacked = BVH.fromAABBs(same);
+      expect(stacked.queryAABB(AABB.fromMinMax(0.5, 0.5, 0.5, 2, 2, 2), () => {})).toBe(100);
+    });
+  });
+
+  describe('raycast', () => {
+    const rays: Ray[] = [];
+    for (let i = 0; i < 64; i++) {
+      const a = i * 0.7, b = i * 1.3;
+      rays.push(Ray.create(-150, Math.sin(a) * 60, Math.cos(b) * 60, 1, Math.sin(b) * 0.3, Math.cos(a) * 0.2));
+    }
+    rays.push(Ray.create(0, 0, 0, 0, 1, 0)); // Axis-aligned from inside the cloud
+
+    it('should return the closest box hit', () => {
+      const hit = new RayHit();
+      const ref = new RayHit();
+      for (const ray of rays) {
+        let bestT = Infinity, bestId = -1;
+        boxes.forEach((box, id) => {
+          if (ray.intersectAABBHit(box, ref) && ref.t < bestT) { bestT = ref.t; bestId = id; }
+        });
+        const id = bvh.raycast(ray, hit);
+        expect(id).toBe(bestId);
+        if (id >= 0) expect(hit.t).toBeCloseTo(bestT, 9);
+      }
+    });
+
+    it('should respect tMax and report any hit', () => {
+      const hit = new RayHit();
+      for (const ray of rays) {
+        const id = bvh.raycast(ray, hit);
+        if (id < 0) {
+          expect(bvh.raycastAny(ray)).toBe(-1);
+          continue;
+        }
+        expect(bvh.raycast(ray, hit, null, hit.t * 0.5)).toBe(-1);
+        expect(bvh.raycastAny(ray, null, hit.t * 0.5)).toBe(-1);
+        expect(bvh.raycastAny(ray)).toBeGreaterThanOrEqual(0);
+      }
+    });
+
+    it('should defer to the narrow phase', () => {
+      // Pretend only even ids contain geometry: a half-unit sphere at the box centre
+      const center = new Vec3();
+      const narrow = (id: number, ray: Ray, tMax: number, out: RayHit): boolean => {
+        if (id % 2 !== 0) return false;
+        boxes[id].getCenter(center);
+        return ray.intersectSphereVecHit(center, 0.5, out) && out.t <= tMax;
+      };
+      const hit = new RayHit();
+      for (const ray of rays) {
+        let bestT = Infinity, bestId = -1;
+        boxes.forEach((box, id) => {
+          if (id % 2 !== 0) return;
+          const t = ray.intersectSphereVec(box.getCenter(center), 0.5);
+          if (t >= 0 && t < bestT) { bestT = t; bestId = id; }
+        });
+        const id = bvh.raycast(ray, hit, narrow);
+        expect(id).toBe(bestId);
+        if (id >= 0) expect(hit.t).toBeCloseTo(bestT, 9);
+      }
+    });
+  });
+
+  describe('overlap queries', () => {
+    it('should match brute force for AABB queries', () => {
+      const query = AABB.fromMinMax(-30, -10, -20, 25, 40, 15);
+      const expected = boxes.map((b, id) => (b.intersectsAABB(query) ? id : -1)).filter((id) => id >= 0);
+      expect(collect((cb) => bvh.queryAABB(query, cb))).toEqual(expected);
+    });
+
+    it('should match brute force for sphere queries', () => {
+      const center = new Vec3(10, -20, 5);
+      const expected = boxes.map((b, id) => (b.distanceToPointVec(center) <= 35 ? id : -1)).filter((id) => id >= 0);
+      expect(collect((cb) => bvh.querySphere(center, 35, cb))).toEqual(expected);
+    });
+
+    it('should match brute force for frustum queries', () => {
+      const view = Mat4.lookAt(new Vec3(0, 0, -120), new Vec3(20, 10, 0), new Vec3(0, 1, 0));
+      const viewProj = Mat4.multiply(Mat4.perspectiveZO(Math.PI / 4, 1.5, 1, 200), view);
+      const frustum = Frustum.fromMat4(viewProj, true);
+      const expected = boxes.map((b, id) => (frustum.intersectsAABB(b) ? id : -1)).filter((id) => id >= 0);
+      expect(expected.length).toBeGreaterThan(0);
+      expect(collect((cb) => bvh.queryFrustum(frustum, cb))).toEqual(expected);
+    });
+
+    it('should stop when the callback returns false', () => {
+      const everything = AABB.fromMinMax(-200, -200, -200, 200, 200, 200);
+      let seen = 0;
+      expect(bvh.queryAABB(everything, () => ++seen < 5)).toBe(5);
+    });
+  });
+});
@@ -3,7 +3,7 @@
  */
 
 import { describe, expect, it } from 'bun:test';
-import { Vec3, worldToCameraRelative } from '../src';
+import { Mat4, Quat, Vec3, modelsToCameraRelativeBatch, worldToCameraRelative, worldToCameraRelativeBatch } from '../src';
 
 describe('worldToCameraRelative', () => {
   it('subtracts the origin in f64', () => {
@@ -48,3 +48,107 @@ describe('worldToCameraRelative', () => {
     expect(out.z).toBe(5);
   });
 });
+
+/** view · model · p as a GPU would: both matrices narrowed to f32, arithmetic in f32. */
+function transformF32(view: Mat4, model: Mat4, p: Vec3): Vec3 {
+  const v = view.toFloat32Array(new Float32Array(16));
+  const m = model.toFloat32Array(new Float32Array(16));
+  const f = Math.fround;
+  const apply = (a: Float32Array, x: number, y: number, z: number): number[] => [0, 1, 2].map((r) =>
+    f(f(f(f(a[r] * x) + f(a[4 + r] * y)) + f(a[8 + r] * z)) + a[12 + r]));
+  const [wx, wy, wz] = apply(m, f(p.x), f(p.y), f(p.z));
+  const [ex, ey, ez] = apply(v, wx, wy, wz);
+  return new Vec3(ex, ey, ez);
+}
+
+describe('camera-relative view and model matrices', () => {
+  // Camera and a small object ~10^7 m from the world origin
+  const eye = new Vec3(1e7 + 0.3, 2e3 + 0.7, -1e7 + 0.1);
+  const target = new Vec3(1e7 + 25.9, 2e3 - 3.2, -1e7 + 40.4);
+  const up = new Vec3(0, 1, 0);
+  const model = Mat4.compose(new Vec3(1e7 + 20.123, 2e3 - 1.456, -1e7 + 30.789), Quat.fromAxisAngle(new Vec3(0, 1, 0), 0.8), new Vec3(0.5, 0.5, 0.5));
+  const vertices = [new Vec3(0, 0, 0), new Vec3(0.001, 0, 0), new Vec3(1, -2, 0.5)];
+
+  /** Exact eye-space position, in f64. */
+  const reference = (p: Vec3): Vec3 => Mat4.lookAt(eye, target, up).transformVec3(model.transformVec3(p));
+
+  it('rotation-only view is lookAt with the eye at the origin', () => {
+    const view = Mat4.lookAtCameraRelative(eye, target, up);
+    const full = Mat4.lookAt(eye, target, up);
+    expect([view.m12, view.m13, view.m14]).toEqual([0, 0, 0]);
+    expect(view.m00).toBe(full.m00);
+    expect(view.m06).toBe(full.m06);
+    expect(view.m10).toBe(full.m10);
+  });
+
+  it('modelCameraRelative subtracts the origin from the translation in f64', () => {
+    const rel = Mat4.modelCameraRelative(model, eye);
+    expect(rel.m12).toBe(model.m12 - eye.x);
+    expect(rel.m13).toBe(model.m13 - eye.y);
+    expect(rel.m14).toBe(model.m14 - eye.z);
+    expect(rel.m05).toBe(model.m05);
+    expect(rel.m15).toBe(1);
+  });
+
+  it('stays sub-millimetre at 10^7 m after the f32 narrow', () => {
+    const view = Mat4.lookAtCameraRelative(eye, target, up);
+    const rel = Mat4.modelCameraRelative(model, eye);
+    for (const p of vertices) {
+      const got = transformF32(view, rel, p);
+      const want = reference(p);
+      expect(Math.hypot(got.x - want.x, got.y - want.y, got.z - want.z)).toBeLessThan(1e-3);
+    }
+
+    // A millimetre edge keeps its length
+    const a = transformF32(view, rel, vertices[0]);
+    const b = transformF32(view, rel, vertices[1]);
+    expect(Math.hypot(b.x - a.x, b.y - a.y, b.z - a.z)).toBeCloseTo(0.0005, 6);
+  });
+
+  it('absolute matrices lose far more than a millimetre (the whole point)', () => {
+    const view = Mat4.lookAt(eye, target, up);
+    const got = transformF32(view, model, vertices[2]);
+    const want = reference(vertices[2]);
+    expect(Math.hypot(got.x - want.x, got.y - want.y, got.z - want.z)).toBeGreaterThan(0.01);
+  });
+});
+
+describe('batched camera-relative rebase', () => {
+  const origin = { x: 16_777_216, y: -1e7, z: 3 };
+
+  it('rebases packed positions into a strided f32 buffer', () => {
+    const positions = new Float64Array([16_777_216.125, -1e7 + 0.5, 4, 16_777_220, -1e7, 3]);
+    const out = new Float32Array(2 + 2 * 5).fill(-1);
+    worldToCameraRelativeBatch(positions, origin, out, 5, 2);
+
+    expect(Array.from(out.subarray(2, 5))).toEqual([0.125, 0.5, 1]);
+    expect(Array.from(out.subarray(7, 10))).toEqual([4, 0, 0]);
+    // Padding and the prefix are left alone
+    expect([out[0], out[1], out[5], out[6], out[10], out[11]]).toEqual([-1, -1, -1, -1, -1, -1]);
+  });
+
+  it('matches worldToCameraRelative narrowed per position, and honours count', () => {
+    const positions = new Float64Array([1e7 + 0.001, 2, 3, 5, 6, 7]);
+    const out = new Float32Array(6);
+    worldToCameraRelativeBatch(positions, origin, out, 3, 0, 1);
+    const single = new Vec3();
+    worldToCameraRelative({ x: positions[0], y: positions[1], z: positions[2] }, origin, single);
+    expect(Array.from(out)).toEqual([Math.fround(single.x), Math.fround(single.y), Math.fround(single.z), 0, 0, 0]);
+  });
+
+  it('writes models like modelCameraRelative + toFloat32Array', () => {
+    const models = [
+      Mat4.compose(new Vec3(16_777_216.25, -1e7, 3.5), Quat.fromAxisAngle(new Vec3(1, 0, 0), 0.3), new Vec3(2, 2, 2)),
+      Mat4.fromTranslation(16_777_217, -1e7 - 1, 3),
+    ];
+    const out = new Float32Array(4 + 2 * 20);
+    modelsToCameraRelativeBatch(models, origin, out, 20, 4);
+
+    const o = new Vec3(origin.x, origin.y, origin.z);
+    models.forEach((m, i) => {
+      const expected = Mat4.modelCameraRelative(m, o).toFloat32Array(new Float32Array(16));
+      expect(Array.from(out.subarray(4 + i * 20, 4 + i * 20 + 16))).toEqual(Array.from(expected));
+    });
+    expect(out[4 + 12]).toBe(0.25);
+  });
+});
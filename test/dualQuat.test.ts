@@ -0,0 +1,136 @@
+/**
+ * Tests for DualQuat — agreement with Mat4, ScLERP along a screw, skinning blends and packing
+ */
+
+import { describe, expect, it } from 'bun:test';
+import { DualQuat, Mat4, Quat, Vec3 } from '../src';
+
+const expectVec = (v: Vec3, x: number, y: number, z: number, digits: number = 10) => {
+  expect(v.x).toBeCloseTo(x, digits);
+  expect(v.y).toBeCloseTo(y, digits);
+  expect(v.z).toBeCloseTo(z, digits);
+};
+
+describe('DualQuat', () => {
+  const rot = Quat.fromAxisAngle(new Vec3(1, 2, 3).normalize(), 1.1);
+  const pos = new Vec3(4, -5, 6);
+
+  describe('construction', () => {
+    it('should round-trip rotation and translation', () => {
+      const dq = DualQuat.fromRotationTranslation(rot, pos);
+      expect(dq.real.exactEquals(rot)).toBe(true);
+      expectVec(dq.getTranslation(), 4, -5, 6, 12);
+      expect(dq.real.dot(dq.dual)).toBeCloseTo(0, 12);
+    });
+
+    it('should match the rigid Mat4 it was built from', () => {
+      const m = Mat4.compose(pos, rot, new Vec3(1, 1, 1));
+      const dq = DualQuat.fromMat4(m);
+      expect(dq.toMat4().equals(m)).toBe(true);
+
+      const p = new Vec3(0.5, 7, -2);
+      const expected = m.transformVec3(p);
+      expectVec(dq.transformVec3(p), expected.x, expected.y, expected.z);
+    });
+
+    it('should ignore scale in the source matrix', () => {
+      const dq = DualQuat.fromMat4(Mat4.compose(pos, rot, new Vec3(2, 3, 4)));
+      expect(Math.abs(dq.real.dot(rot))).toBeCloseTo(1, 12);
+      expectVec(dq.getTranslation(), 4, -5, 6, 12);
+    });
+  });
+
+  describe('algebra', () => {
+    it('should multiply like the matching Mat4s', () => {
+      const a = DualQuat.fromRotationTranslation(rot, pos);
+      const b = DualQuat.fromRotationTranslation(Quat.fromAxisAngle(new Vec3(0, 1, 0), -0.4), new Vec3(1, 2, 3));
+      const expected = Mat4.multiply(a.toMat4(), b.toMat4());
+      expect(DualQuat.multiply(a, b).toMat4().equals(expected)).toBe(true);
+      expect(b.clone().premultiply(a).toMat4().equals(expected)).toBe(true);
+    });
+
+    it('should invert with the conjugate', () => {
+      const a = DualQuat.fromRotationTranslation(rot, pos);
+      expect(a.clone().multiply(DualQuat.conjugate(a)).equals(DualQuat.identity(), 1e-12)).toBe(true);
+    });
+
+    it('should normalize scaled and drifted values back to unit form', () => {
+      const a = DualQuat.fromRotationTranslation(rot, pos);
+      const drifted = a.clone();
+      drifted.real.set(rot.x * 3, rot.y * 3, rot.z * 3, rot.w * 3);
+      drifted.dual.set(a.dual.x * 3 + rot.x * 0.1, a.dual.y * 3 + rot.y * 0.1, a.dual.z * 3 + rot.z * 0.1, a.dual.w * 3 + rot.w * 0.1);
+      expect(drifted.normalize().equals(a, 1e-12)).toBe(true);
+    });
+  });
+
+  describe('sclerp', () => {
+    it('should move along the screw at constant rate', () => {
+      // Screw about the z axis through (1, 0, 0): rotate 1.2 rad while sliding 3 along z
+      const screw = (f: number): DualQuat => {
+        const q = Quat.fromAxisAngle(new Vec3(0, 0, 1), 1.2 * f);
+        const p = q.transformVec3(new Vec3(-1, 0, 0));
+        return DualQuat.fromRotationTranslation(q, new Vec3(1 + p.x, p.y, 3 * f));
+      };
+      const a = screw(0), b = screw(1);
+      for (const f of [0.25, 0.5, 0.8]) {
+        expect(DualQuat.sclerp(a, b, f).equals(screw(f), 1e-12)).toBe(true);
+      }
+      expect(DualQuat.sclerp(a, b, 1).equals(b, 1e-12)).toBe(true);
+    });
+
+    it('should interpolate pure translations linearly and take the short way round', () => {
+      const a = DualQuat.fromRotationTranslation(rot, new Vec3(0, 0, 0));
+      const b = DualQuat.fromRotationTranslation(rot, new Vec3(10, 0, 0));
+      expectVec(DualQuat.sclerp(a, b, 0.3).getTranslation(), 3, 0, 0, 12);
+
+      const c = DualQuat.fromRotationTranslation(Quat.fromAxisAngle(new Vec3(0, 1, 0), 0.6), new Vec3(0, 0, 0));
+      const negC = new DualQuat();
+      negC.real.set(-c.real.x, -c.real.y, -c.real.z, -c.real.w);
+      const mid = DualQuat.sclerp(DualQuat.identity(), negC, 0.5);
+      expect(Math.abs(mid.real.dot(Quat.fromAxisAngle(new Vec3(0, 1, 0), 0.3)))).toBeCloseTo(1, 12);
+    });
+  });
+
+  describe('blend', () => {
+    it('should correct antipodal inputs and stay rigid', () => {
+      const a = DualQuat.fromRotationTranslation(Quat.fromAxisAngle(new Vec3(1, 0, 0), 0.2), new Vec3(0, 1, 0));
+      const b = DualQuat.fromRotationTranslation(Quat.fromAxisAngle(new Vec3(1, 0, 0), 1.0), new Vec3(0, 1, 0));
+      const flippedB = b.clone();
+      flippedB.real.set(-b.real.x, -b.real.y, -b.real.z, -b.real.w);
+      flippedB.dual.set(-b.dual.x, -b.dual.y, -b.dual.z, -b.dual.w);
+
+      const blended = DualQuat.blend([a, flippedB], [0.5, 0.5]);
+      expect(blended.real.length()).toBeCloseTo(1, 12);
+      expect(Math.abs(blended.real.dot(Quat.fromAxisAngle(new Vec3(1, 0, 0), 0.6)))).toBeCloseTo(1, 12);
+      expectVec(blended.getTranslation(), 0, 1, 0, 12);
+    });
+
+    it('should preserve distance from the joint on a twisted blend (no candy wrapper)', () => {
+      // Two bones at the origin twisted 170° apart about x: LBS collapses points towards the axis
+      const a = DualQuat.identity();
+      const b = DualQuat.fromRotationTranslation(Quat.fromAxisAngle(new Vec3(1, 0, 0), 170 * Math.PI / 180), new Vec3(0, 0, 0));
+      const p = new Vec3(0, 1, 0);
+      const skinned = DualQuat.blend([a, b], [0.5, 0.5]).transformVec3(p);
+      expect(skinned.length()).toBeCloseTo(1, 12);
+    });
+
+    it('should ignore trailing entries and return identity for zero weights', () => {
+      const a = DualQuat.fromRotationTranslation(rot, pos);
+      const b = DualQuat.fromRotationTranslation(Quat.identity(), new Vec3(9, 9, 9));
+      expect(DualQuat.blend([a, b], [1]).equals(a, 1e-12)).toBe(true);
+      expect(DualQuat.blend([a, b], [0, 0]).equals(DualQuat.identity())).toBe(true);
+    });
+  });
+
+  describe('packing', () => {
+    it('should write 8 floats per bone, real then dual', () => {
+      const bones = [DualQuat.fromRotationTranslation(rot, pos), DualQuat.identity()];
+      const palette = new Float32Array(16);
+      bones.forEach((dq, i) => dq.toFloat32Array(palette, i * 8));
+      expect(palette[3]).toBeCloseTo(rot.w, 6);
+      expect(palette[4]).toBeCloseTo(bones[0].dual.x, 6);
+      expect(Array.from(palette.subarray(8))).toEqual([0, 0, 0, 1, 0, 0, 0, 0]);
+      expect(new DualQuat().fromFloat32Array(palette).equals(bones[0], 1e-6)).toBe(true);
+    });
+  });
+});
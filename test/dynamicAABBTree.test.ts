@@ -0,0 +1,148 @@
+/**
+ * Tests for DynamicAABBTree — incremental updates checked against brute force over fat AABBs
+ */
+
+import { describe, expect, it } from 'bun:test';
+import { AABB, DynamicAABBTree, Ray, RayHit, Vec3 } from '../src';
+import { rng } from './helpers';
+
+function randomBox(next: () => number): AABB {
+  return AABB.fromCenterExtents(next() * 100 - 50, next() * 100 - 50, next() * 100 - 50, 0.5 + next(), 0.5 + next(), 0.5 + next());
+}
+
+/** Populate a tree; returns proxy ids indexed like `boxes`. */
+function populate(tree: DynamicAABBTree, boxes: AABB[]): number[] {
+  return boxes.map((box, i) => tree.createProxy(box, i));
+}
+
+function sorted(ids: number[]): number[] {
+  return ids.slice().sort((a, b) => a - b);
+}
+
+describe('DynamicAABBTree', () => {
+  describe('proxies', () => {
+    it('should store fat AABBs and user ids', () => {
+      const tree = new DynamicAABBTree(0.5);
+      const proxy = tree.createProxy(AABB.fromMinMax(0, 0, 0, 1, 1, 1), 42);
+      expect(tree.getUserId(proxy)).toBe(42);
+      expect(tree.getFatAABB(proxy).equals(AABB.fromMinMax(-0.5, -0.5, -0.5, 1.5, 1.5, 1.5))).toBe(true);
+      expect(tree.proxyCount).toBe(1);
+      expect(tree.getHeight()).toBe(0);
+    });
+
+    it('should only reinsert when leaving the fat AABB', () => {
+      const tree = new DynamicAABBTree(0.5);
+      const proxy = tree.createProxy(AABB.fromMinMax(0, 0, 0, 1, 1, 1), 0);
+      expect(tree.moveProxy(proxy, AABB.fromMinMax(0.3, 0, 0, 1.3, 1, 1))).toBe(false);
+      expect(tree.moveProxy(proxy, AABB.fromMinMax(2, 0, 0, 3, 1, 1), new Vec3(1, 0, 0))).toBe(true);
+
+      // Stretched 4x the displacement ahead of the motion
+      const fat = tree.getFatAABB(proxy);
+      expect(fat.min.x).toBeCloseTo(1.5, 10);
+      expect(fat.max.x).toBeCloseTo(7.5, 10);
+    });
+
+    it('should stay balanced under sorted insertion', () => {
+      const tree = new DynamicAABBTree();
+      for (let i = 0; i < 1024; i++) tree.createProxy(AABB.fromMinMax(i * 2, 0, 0, i * 2 + 1, 1, 1), i);
+      // A degenerate (list-like) tree would be ~1023 high
+      expect(tree.getHeight()).toBeLessThanOrEqual(2 * Math.log2(1024) + 2);
+    });
+
+    it('should reuse destroyed nodes', () => {
+      const tree = new DynamicAABBTree();
+      const a = tree.createProxy(AABB.fromMinMax(0, 0, 0, 1, 1, 1), 0);
+      tree.createProxy(AABB.fromMinMax(5, 0, 0, 6, 1, 1), 1);
+      tree.destroyProxy(a);
+      expect(tree.proxyCount).toBe(1);
+      expect(tree.queryAABB(AABB.fromMinMax(-10, -10, -10, 10, 10, 10), () => {})).toBe(1);
+      tree.destroyProxy(tree.createProxy(AABB.fromMinMax(0, 0, 0, 1, 1, 1), 2));
+      expect(tree.proxyCount).toBe(1);
+    });
+  });
+
+  describe('queries', () => {
+    const next = rng(0x1234567);
+    const boxes: AABB[] = [];
+    for (let i = 0; i < 500; i++) boxes.push(randomBox(next));
+    const tree = new DynamicAABBTree(0.2);
+    const proxies = populate(tree, boxes);
+
+    // Move some, destroy some
+    const alive = new Set(proxies);
+    for (let i = 0; i < 500; i += 3) {
+      boxes[i].translate(next() * 10 - 5, next() * 10 - 5, next() * 10 - 5);
+      tree.moveProxy(proxies[i], boxes[i]);
+    }
+    for (let i = 1; i < 500; i += 7) {
+      tree.destroyProxy(proxies[i]);
+      alive.delete(proxies[i]);
+    }
+
+    it('should match brute force over fat AABBs', () => {
+      const query = AABB.fromMinMax(-20, -15, -10, 10, 25, 30);
+      const expected = [...alive].filter((p) => tree.getFatAABB(p).intersectsAABB(query));
+      const found: number[] = [];
+      tree.queryAABB(query, (p) => { found.push(p); });
+      expect(sorted(found)).toEqual(sorted(expected));
+    });
+
+    it('should return the closest ray hit', () => {
+      const hit = new RayHit();
+      const ref = new RayHit();
+      for (let i = 0; i < 32; i++) {
+        const ray = Ray.create(-80, next() * 60 - 30, next() * 60 - 30, 1, next() * 0.4 - 0.2, next() * 0.4 - 0.2);
+        let bestT = Infinity, bestId = -1;
+        for (const p of alive) {
+          if (ray.intersectAABBHit(tree.getFatAABB(p), ref) && ref.t < bestT) { bestT = ref.t; bestId = p; }
+        }
+        expect(tree.raycast(ray, hit)).toBe(bestId);
+        if (bestId >= 0) expect(hit.t).toBeCloseTo(bestT, 9);
+      }
+    });
+  });
+
+  describe('queryPairs', () => {
+    it('should report new overlaps once, then only pairs of moved proxies', () => {
+      const next = rng(0xabcdef1);
+      const boxes: AABB[] = [];
+      for (let i = 0; i < 300; i++) boxes.push(randomBox(next));
+      const tree = new DynamicAABBTree(0.1);
+      const proxies = populate(tree, boxes);
+
+      const bruteForce = (filter: (a: number, b: number) => boolean): string[] => {
+        const pairs: string[] = [];
+        for (let i = 0; i < proxies.length; i++) {
+          for (let j = i + 1; j < proxies.length; j++) {
+            const a = Math.min(proxies[i], proxies[j]), b = Math.max(proxies[i], proxies[j]);
+            if (tree.getFatAABB(a).intersectsAABB(tree.getFatAABB(b)) && filter(a, b)) pairs.push(`${a}:${b}`);
+          }
+        }
+        return pairs.sort();
+      };
+      const report = (): string[] => {
+        const pairs: string[] = [];
+        tree.queryPairs((a, b) => {
+          expect(a).toBeLessThan(b);
+          pairs.push(`${a}:${b}`);
+        });
+        return pairs.sort();
+      };
+
+      // Everything is new on the first update
+      const first = report();
+      expect(first.length).toBeGreaterThan(0);
+      expect(first).toEqual(bruteForce(() => true));
+      expect(report()).toEqual([]);
+
+      // Move a handful far enough to reinsert
+      const moved = new Set<number>();
+      for (let i = 0; i < 300; i += 10) {
+        boxes[i].translate(3, 0, 0);
+        if (tree.moveProxy(proxies[i], boxes[i])) moved.add(proxies[i]);
+      }
+      expect(moved.size).toBeGreaterThan(0);
+      expect(report()).toEqual(bruteForce((a, b) => moved.has(a) || moved.has(b)));
+    });
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Tests for FloatingOrigin — threshold rebasing, exact compound offsets, listeners and
+ * absolute/relative conversions
+ */
+
+import { describe, expect, it } from 'bun:test';
+import { AABB, FloatingOrigin, Mat4, Quat, Ray, Vec3 } from '../src';
+
+describe('FloatingOrigin', () => {
+  it('should rebase only past the threshold, snapped to the cell size', () => {
+    const fo = new FloatingOrigin(100, 16);
+    expect(fo.update({ x: 99, y: 0, z: 0 })).toBe(false);
+    expect(fo.origin.x).toBe(0);
+
+    expect(fo.update({ x: 90, y: 50, z: 0 })).toBe(true);
+    expect(fo.origin.x).toBe(96);
+    expect(fo.origin.y).toBe(48);
+    expect(fo.origin.z).toBe(0);
+  });
+
+  it('should report each delta to listeners until removed', () => {
+    const fo = new FloatingOrigin(10);
+    const deltas: number[][] = [];
+    const listener = (d: Vec3, origin: FloatingOrigin) => {
+      expect(origin).toBe(fo);
+      deltas.push([d.x, d.y, d.z]);
+    };
+    fo.addListener(listener);
+
+    fo.rebase({ x: 20, y: -5, z: 3 });
+    expect(fo.rebase({ x: 20, y: -5, z: 3 })).toBe(false);
+    fo.update({ x: 20, y: 30, z: 3 });
+    expect(deltas).toEqual([[20, -5, 3], [0, 35, 0]]);
+
+    expect(fo.removeListener(listener)).toBe(true);
+    expect(fo.removeListener(listener)).toBe(false);
+    fo.rebase({ x: 0, y: 0, z: 0 });
+    expect(deltas.length).toBe(2);
+  });
+
+  it('should accumulate exactly across a 100 km flight', () => {
+    // Rebased coordinates kept up to date by listeners must equal a fresh rebase
+    const fo = new FloatingOrigin(512);
+    const absolute = new Vec3(1.0625, 2.5, -3.25);
+    const relative = fo.toRelative(absolute);
+    fo.addListener((d) => relative.set(relative.x - d.x, relative.y - d.y, relative.z - d.z));
+
+    let rebases = 0;
+    for (let x = 0; x <= 100_000; x += 37.3) {
+      if (fo.update({ x, y: x * 0.01, z: -x })) rebases++;
+    }
+    expect(rebases).toBeGreaterThan(100);
+
+    const fresh = fo.toRelative(absolute);
+    expect(relative.x).toBe(fresh.x);
+    expect(relative.y).toBe(fresh.y);
+    expect(relative.z).toBe(fresh.z);
+    expect(fo.toAbsolute(relative).equals(absolute, 0)).toBe(true);
+  });
+
+  it('should convert boxes, rays and matrices both ways', () => {
+    const fo = new FloatingOrigin(1, 1);
+    fo.rebase({ x: 1e7, y: 0, z: -2e7 });
+
+    const box = AABB.fromMinMax(1e7 + 1, -2, -2e7 - 3, 1e7 + 4, 5, -2e7 + 6);
+    const rel = fo.aabbToRelative(box, new AABB());
+    expect([rel.min.x, rel.min.y, rel.min.z, rel.max.x, rel.max.y, rel.max.z]).toEqual([1, -2, -3, 4, 5, 6]);
+    expect(fo.aabbToAbsolute(rel, new AABB()).equals(box)).toBe(true);
+    expect(fo.aabbToRelative(AABB.empty(), new AABB()).isEmpty()).toBe(true);
+
+    const ray = new Ray().set(1e7 + 0.5, 1, -2e7, 0, 0, 1);
+    const relRay = fo.rayToRelative(ray, new Ray());
+    expect([relRay.origin.x, relRay.origin.y, relRay.origin.z, relRay.direction.z]).toEqual([0.5, 1, 0, 1]);
+    expect(fo.rayToAbsolute(relRay, new Ray()).origin.equals(ray.origin, 0)).toBe(true);
+
+    const model = Mat4.compose(new Vec3(1e7 + 0.25, 3, -2e7), Quat.fromAxisAngle(new Vec3(0, 1, 0), 0.5), new Vec3(2, 2, 2));
+    const relModel = fo.mat4ToRelative(model, new Mat4());
+    expect(relModel.m12).toBe(0.25);
+    expect(relModel.m14).toBe(0);
+    expect(relModel.m00).toBe(model.m00);
+    expect(fo.mat4ToAbsolute(relModel, new Mat4()).equals(model, 0)).toBe(true);
+  });
+});
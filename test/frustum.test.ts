@@ -0,0 +1,158 @@
+/**
+ * Tests for Frustum — plane extraction under both clip-depth conventions
+ */
+
+import { describe, expect, it } from 'bun:test';
+import { AABB, Containment, Frustum, Mat4, Vec3 } from '../src';
+
+/** Camera at (0, 0, 10) looking down −Z: view-space depth d sits at world z = 10 − d. */
+function viewProjection(proj: Mat4): Mat4 {
+  const view = Mat4.lookAt(new Vec3(0, 0, 10), new Vec3(0, 0, 0), new Vec3(0, 1, 0));
+  return Mat4.multiply(proj, view);
+}
+
+describe('Frustum', () => {
+  const near = 1;
+  const far = 100;
+  const zo = Frustum.fromMat4(viewProjection(Mat4.perspectiveZO(Math.PI / 2, 1, near, far)), true);
+  const gl = Frustum.fromMat4(viewProjection(Mat4.perspective(Math.PI / 2, 1, near, far)), false);
+
+  describe('extraction', () => {
+    it('should produce normalised planes', () => {
+      for (const p of zo.planes) {
+        expect(p.normal.length()).toBeCloseTo(1, 10);
+      }
+    });
+
+    it('should place near and far planes for the ZO convention', () => {
+      expect(zo.containsPoint(0, 0, 10 - near - 0.01)).toBe(true);
+      expect(zo.containsPoint(0, 0, 10 - near + 0.01)).toBe(false);
+      expect(zo.containsPoint(0, 0, 10 - far + 0.01)).toBe(true);
+      expect(zo.containsPoint(0, 0, 10 - far - 0.01)).toBe(false);
+    });
+
+    it('should place the same planes for the GL convention', () => {
+      for (let i = 0; i < 6; i++) {
+        expect(gl.planes[i].equals(zo.planes[i], 1e-9)).toBe(true);
+      }
+    });
+
+    it('should leak past the near plane if the convention is mismatched', () => {
+      // A ZO matrix read as GL accepts ndc depth down to −1: in front of the near plane
+      const mismatched = Frustum.fromMat4(viewProjection(Mat4.perspectiveZO(Math.PI / 2, 1, near, far)), false);
+      expect(mismatched.containsPoint(0, 0, 10 - 0.6)).toBe(true);
+      expect(zo.containsPoint(0, 0, 10 - 0.6)).toBe(false);
+    });
+
+    it('should handle reversed-Z and an infinite far plane', () => {
+      const rev = Frustum.fromMat4(viewProjection(Mat4.perspectiveReversedZO(Math.PI / 2, 1, near, far)), true, true);
+      expect(rev.containsPoint(0, 0, 10 - 50)).toBe(true);
+      expect(rev.containsPoint(0, 0, 10 - 0.5)).toBe(false);
+      expect(rev.containsPoint(0, 0, 10 - 101)).toBe(false);
+
+      const inf = Frustum.fromMat4(viewProjection(Mat4.perspectiveInfiniteReversedZO(Math.PI / 2, 1, near)), true, true);
+      expect(inf.containsPoint(0, 0, -1e9)).toBe(true);
+      expect(inf.containsPoint(0, 0, 10 - 0.5)).toBe(false);
+    });
+  });
+
+  describe('tests', () => {
+    it('should test points against the side planes', () => {
+      // 90° fov: at depth 20 the half-width is 20
+      expect(zo.containsPointVec(new Vec3(19, 0, -10))).toBe(true);
+      expect(zo.containsPointVec(new Vec3(21, 0, -10))).toBe(false);
+      expect(zo.containsPointVec(new Vec3(0, -21, -10))).toBe(false);
+    });
+
+    it('should test spheres', () => {
+      expect(zo.intersectsSphere(21, 0, -10, 2)).toBe(true);
+      expect(zo.intersectsSphere(25, 0, -10, 2)).toBe(false);
+      expect(zo.intersectsSphereVec(new Vec3(0, 0, 20), 5)).toBe(false); // behind the camera
+    });
+
+    it('should test AABBs', () => {
+      expect(zo.intersectsAABB(AABB.fromMinMax(-1, -1, -1, 1, 1, 1))).toBe(true);
+      expect(zo.intersectsAABB(AABB.fromMinMax(30, -1, -11, 32, 1, -9))).toBe(false);
+      expect(zo.intersectsAABB(AABB.fromMinMax(-1000, -1000, -1000, 1000, 1000, 1000))).toBe(true);
+    });
+
+    it('should classify AABBs', () => {
+      expect(zo.classifyAABB(AABB.fromMinMax(-1, -1, -1, 1, 1, 1))).toBe(Containment.Inside);
+      expect(zo.classifyAABB(AABB.fromMinMax(15, -1, -11, 25, 1, -9))).toBe(Containment.Intersecting);
+      expect(zo.classifyAABB(AABB.fromMinMax(30, -1, -11, 32, 1, -9))).toBe(Containment.Outside);
+    });
+
+    it('should classify spheres', () => {
+      expect(zo.classifySphere(0, 0, 0, 1)).toBe(Containment.Inside);
+      expect(zo.classifySphere(0, 0, 9.5, 1)).toBe(Containment.Intersecting);
+      expect(zo.classifySphere(0, 0, 20, 1)).toBe(Containment.Outside);
+    });
+  });
+
+  describe('corners', () => {
+    it('should return the near and far rectangles', () => {
+      const corners = zo.getCorners();
+      expect(corners.length).toBe(8);
+      expect(corners[0].equals(new Vec3(-near, -near, 10 - near), 1e-9)).toBe(true);
+      expect(corners[2].equals(new Vec3(near, near, 10 - near), 1e-9)).toBe(true);
+      expect(corners[4].equals(new Vec3(-far, -far, 10 - far), 1e-9)).toBe(true);
+      expect(corners[6].equals(new Vec3(far, far, 10 - far), 1e-9)).toBe(true);
+    });
+
+    it('should keep near then far order for reversed-Z', () => {
+      const rev = Frustum.fromMat4(viewProjection(Mat4.perspectiveReversedZO(Math.PI / 2, 1, near, far)), true, true);
+      const corners = rev.getCorners();
+      expect(corners[0].equals(new Vec3(-near, -near, 10 - near), 1e-9)).toBe(true);
+      expect(corners[2].equals(new Vec3(near, near, 10 - near), 1e-9)).toBe(true);
+      expect(corners[4].equals(new Vec3(-far, -far, 10 - far), 1e-9)).toBe(true);
+      expect(corners[6].equals(new Vec3(far, far, 10 - far), 1e-9)).toBe(true);
+    });
+
+    it('should leave the far corners untouched for an infinite reversed-Z far plane', () => {
+      const inf = Frustum.fromMat4(viewProjection(Mat4.perspectiveInfiniteReversedZO(Math.PI / 2, 1, near)), true, true);
+      const sentinel = new Vec3(7, 7, 7);
+      const corners = Array.from({ length: 8 }, () => sentinel.clone());
+      inf.getCorners(corners);
+      expect(corners[0].equals(new Vec3(-near, -near, 10 - near), 1e-9)).toBe(true);
+      expect(corners[2].equals(new Vec3(near, near, 10 - near), 1e-9)).toBe(true);
+      for (let i = 4; i < 8; i++) expect(corners[i].equals(sentinel)).toBe(true);
+    });
+
+    it('should keep near then far order for a mirrored view', () => {
+      // Planar-reflection style: flip y after the view transform
+      const mirror = Mat4.multiply(Mat4.fromScaling(1, -1, 1), viewProjection(new Mat4()));
+      const corners = Frustum.fromMat4(Mat4.multiply(Mat4.perspectiveZO(Math.PI / 2, 1, near, far), mirror), true).getCorners();
+      for (let i = 0; i < 4; i++) expect(corners[i].z).toBeCloseTo(10 - near, 9);
+      for (let i = 4; i < 8; i++) expect(corners[i].z).toBeCloseTo(10 - far, 9);
+
+      const gl = Frustum.fromMat4(Mat4.multiply(Mat4.perspective(Math.PI / 2, 1, near, far), mirror), false);
+      expect(gl.getCorners()[0].z).toBeCloseTo(10 - near, 9);
+    });
+
+    it('should match the unprojected clip-space cube', () => {
+      const vp = viewProjection(Mat4.orthoZO(-4, 4, -3, 3, 2, 50));
+      const f = Frustum.fromMat4(vp, true);
+      const inv = vp.clone().invert();
+      const ndc = [[-1, -1, 0], [1, -1, 0], [1, 1, 0], [-1, 1, 0], [-1, -1, 1], [1, -1, 1], [1, 1, 1], [-1, 1, 1]];
+      const corners = f.getCorners();
+      for (let i = 0; i < 8; i++) {
+        const expected = inv.transformVec3(new Vec3(ndc[i][0], ndc[i][1], ndc[i][2]));
+        expect(corners[i].equals(expected, 1e-9)).toBe(true);
+      }
+    });
+
+    it('should match the unprojected clip-space cube for reversed-Z ortho', () => {
+      const vp = viewProjection(Mat4.orthoReversedZO(-4, 4, -3, 3, 2, 50));
+      const f = Frustum.fromMat4(vp, true, true);
+      const inv = vp.clone().invert();
+      // Near maps to depth 1, far to depth 0
+      const ndc = [[-1, -1, 1], [1, -1, 1], [1, 1, 1], [-1, 1, 1], [-1, -1, 0], [1, -1, 0], [1, 1, 0], [-1, 1, 0]];
+      const corners = f.getCorners();
+      for (let i = 0; i < 8; i++) {
+        const expected = inv.transformVec3(new Vec3(ndc[i][0], ndc[i][1], ndc[i][2]));
+        expect(corners[i].equals(expected, 1e-9)).toBe(true);
+      }
+      expect(corners[0].z).toBeCloseTo(10 - 2, 9);
+    });
+  });
+});
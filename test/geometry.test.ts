@@ -3,7 +3,7 @@
  */
 
 import { describe, expect, it } from 'bun:test';
-import { AABB, Ray, Vec3 } from '../src';
+import { AABB, Mat4, Quat, Ray, RayHit, Vec3 } from '../src';
 
 // ============================================================================
 // AABB TESTS
@@ -123,6 +123,11 @@ describe('AABB', () => {
       expect(aabb.max.z).toBe(3);
     });
 
+    it('should expand by scalar', () => {
+      const aabb = AABB.fromMinMax(0, 0, 0, 1, 2, 3).expandByScalar(0.5);
+      expect(aabb.equals(AABB.fromMinMax(-0.5, -0.5, -0.5, 1.5, 2.5, 3.5))).toBe(true);
+    });
+
     it('should union AABBs', () => {
       const a = AABB.fromMinMax(-1, -1, -1, 0, 0, 0);
       const b = AABB.fromMinMax(0, 0, 0, 1, 1, 1);
@@ -153,6 +158,60 @@ describe('AABB', () => {
       expect(aabb.distanceToPoint(2, 0.5, 0.5)).toBeCloseTo(1, 5);
     });
   });
+
+  describe('transformMat4', () => {
+    /** Reference: the eight transformed corners, expanded one by one. */
+    function cornerBounds(aabb: AABB, m: Mat4): AABB {
+      const out = AABB.empty();
+      for (let i = 0; i < 8; i++) {
+        const p = new Vec3(i & 1 ? aabb.max.x : aabb.min.x, i & 2 ? aabb.max.y : aabb.min.y, i & 4 ? aabb.max.z : aabb.min.z);
+        out.expandByPointVec(m.transformVec3(p));
+      }
+      return out;
+    }
+
+    it('should match the transformed corners for an affine matrix', () => {
+      const aabb = AABB.fromMinMax(-1, 0, 2, 3, 1, 5);
+      const q = Quat.fromAxisAngle(new Vec3(1, 2, 3).normalize(), 0.7);
+      const m = Mat4.compose(new Vec3(10, -4, 2), q, new Vec3(2, -1, 0.5));
+
+      const out = new AABB();
+      expect(aabb.transformMat4(m, out)).toBe(true);
+      expect(out.equals(cornerBounds(aabb, m), 1e-9)).toBe(true);
+      expect(aabb.min.x).toBe(-1); // Source untouched
+    });
+
+    it('should transform in place with applyMat4', () => {
+      const aabb = AABB.fromMinMax(0, 0, 0, 1, 1, 1);
+      expect(aabb.applyMat4(Mat4.fromTranslation(5, 0, 0))).toBe(true);
+      expect(aabb.equals(AABB.fromMinMax(5, 0, 0, 6, 1, 1))).toBe(true);
+    });
+
+    it('should keep an empty box empty', () => {
+      const out = new AABB();
+      expect(AABB.empty().transformMat4(Mat4.fromTranslation(1, 2, 3), out)).toBe(true);
+      expect(out.isEmpty()).toBe(true);
+    });
+
+    it('should divide by w for a projective matrix in front of the camera', () => {
+      const proj = Mat4.perspectiveZO(Math.PI / 2, 1, 0.1, 100);
+      const aabb = AABB.fromMinMax(-1, -1, -10, 1, 1, -5);
+
+      const out = new AABB();
+      expect(aabb.transformMat4(proj, out)).toBe(true);
+      expect(out.equals(cornerBounds(aabb, proj), 1e-9)).toBe(true);
+      expect(out.min.z).toBeGreaterThan(0);
+      expect(out.max.z).toBeLessThan(1);
+    });
+
+    it('should report a box crossing w = 0', () => {
+      const proj = Mat4.perspectiveZO(Math.PI / 2, 1, 0.1, 100);
+      const out = new AABB();
+      expect(AABB.fromMinMax(-1, -1, -5, 1, 1, 5).transformMat4(proj, out)).toBe(false);
+      expect(out.min.x).toBe(-Infinity);
+      expect(out.max.z).toBe(Infinity);
+    });
+  });
 });
 
 describe('Ray', () => {
@@ -323,6 +382,112 @@ describe('Ray', () => {
       const t = ray.intersectTriangle(v0, v1, v2);
       expect(t).toBe(-1);
     });
+
+    it('should cull back faces on request', () => {
+      // Counter-clockwise seen from +z; this ray comes from -z
+      const ray = Ray.fromVecs(new Vec3(0, 0, -5), new Vec3(0, 0, 1));
+      const v0 = new Vec3(-1, -1, 0);
+      const v1 = new Vec3(1, -1, 0);
+      const v2 = new Vec3(0, 1, 0);
+
+      expect(ray.intersectTriangle(v0, v1, v2, true)).toBe(-1);
+      expect(ray.intersectTriangle(v0, v2, v1, true)).toBeCloseTo(5, 5);
+    });
+
+    it('should respect the [tMin, tMax] range', () => {
+      const ray = Ray.fromVecs(new Vec3(0, 0, -5), new Vec3(0, 0, 1));
+      const v0 = new Vec3(-1, -1, 0);
+      const v1 = new Vec3(1, -1, 0);
+      const v2 = new Vec3(0, 1, 0);
+
+      expect(ray.intersectTriangle(v0, v1, v2, false, 0, 4)).toBe(-1);
+      expect(ray.intersectTriangle(v0, v1, v2, false, 6)).toBe(-1);
+      expect(ray.intersectTriangle(v0, v1, v2, false, 4, 6)).toBeCloseTo(5, 5);
+    });
+  });
+
+  describe('hit results', () => {
+    it('should report barycentrics, normal and facing for triangles', () => {
+      const ray = Ray.fromVecs(new Vec3(0.2, -0.5, 5), new Vec3(0, 0, -1));
+      const v0 = new Vec3(-1, -1, 0);
+      const v1 = new Vec3(1, -1, 0);
+      const v2 = new Vec3(0, 1, 0);
+      const hit = new RayHit();
+
+      expect(ray.intersectTriangleHit(v0, v1, v2, hit)).toBe(true);
+      expect(hit.t).toBeCloseTo(5, 6);
+      expect(hit.point.equals(new Vec3(0.2, -0.5, 0))).toBe(true);
+      expect(hit.normal.equals(new Vec3(0, 0, 1))).toBe(true);
+      expect(hit.frontFace).toBe(true);
+      expect(hit.face).toBe(-1);
+
+      // Barycentrics reconstruct the point
+      const w = 1 - hit.u - hit.v;
+      expect(w * v0.x + hit.u * v1.x + hit.v * v2.x).toBeCloseTo(0.2, 6);
+      expect(w * v0.y + hit.u * v1.y + hit.v * v2.y).toBeCloseTo(-0.5, 6);
+
+      const back = Ray.fromVecs(new Vec3(0.2, -0.5, -5), new Vec3(0, 0, 1));
+      expect(back.intersectTriangleHit(v0, v1, v2, hit)).toBe(true);
+      expect(hit.frontFace).toBe(false);
+      expect(hit.normal.equals(new Vec3(0, 0, 1))).toBe(true);
+    });
+
+    it('should leave the hit untouched on a miss', () => {
+      const hit = new RayHit();
+      hit.t = 42;
+      const ray = Ray.fromVecs(new Vec3(5, 5, -5), new Vec3(0, 0, 1));
+      expect(ray.intersectTriangleHit(new Vec3(-1, -1, 0), new Vec3(1, -1, 0), new Vec3(0, 1, 0), hit)).toBe(false);
+      expect(ray.intersectAABBHit(AABB.fromMinMax(-1, -1, -1, 1, 1, 1), hit)).toBe(false);
+      expect(hit.t).toBe(42);
+    });
+
+    it('should report the AABB face crossed', () => {
+      const aabb = AABB.fromMinMax(-1, -1, -1, 1, 1, 1);
+      const hit = new RayHit();
+
+      expect(Ray.create(-5, 0.5, 0, 1, 0, 0).intersectAABBHit(aabb, hit)).toBe(true);
+      expect(hit.face).toBe(0);
+      expect(hit.t).toBeCloseTo(4, 6);
+      expect(hit.normal.equals(new Vec3(-1, 0, 0))).toBe(true);
+      expect(hit.frontFace).toBe(true);
+
+      expect(Ray.create(0, 0, -5, 0, 0, 1).intersectAABBHit(aabb, hit)).toBe(true);
+      expect(hit.face).toBe(4);
+
+      expect(Ray.create(0.3, 5, 0.2, 0, -1, 0).intersectAABBHit(aabb, hit)).toBe(true);
+      expect(hit.face).toBe(3);
+      expect(hit.point.equals(new Vec3(0.3, 1, 0.2))).toBe(true);
+
+      // From inside: the exit face, seen from behind
+      expect(Ray.create(0, 0, 0, 0, 0, 1).intersectAABBHit(aabb, hit)).toBe(true);
+      expect(hit.face).toBe(5);
+      expect(hit.t).toBeCloseTo(1, 6);
+      expect(hit.normal.equals(new Vec3(0, 0, 1))).toBe(true);
+      expect(hit.frontFace).toBe(false);
+    });
+
+    it('should agree with intersectAABB', () => {
+      const aabb = AABB.fromMinMax(-1, -2, -3, 4, 5, 6);
+      const ray = Ray.create(-10, -8, -7, 1, 0.9, 0.8);
+      const hit = new RayHit();
+      expect(ray.intersectAABBHit(aabb, hit)).toBe(true);
+      expect(hit.t).toBeCloseTo(ray.intersectAABB(aabb), 9);
+    });
+
+    it('should report sphere normals', () => {
+      const hit = new RayHit();
+      const center = new Vec3(0, 0, 10);
+
+      expect(Ray.create(0, 0, 0, 0, 0, 1).intersectSphereVecHit(center, 2, hit)).toBe(true);
+      expect(hit.t).toBeCloseTo(8, 6);
+      expect(hit.normal.equals(new Vec3(0, 0, -1))).toBe(true);
+      expect(hit.frontFace).toBe(true);
+
+      expect(Ray.create(0, 0, 10, 1, 0, 0).intersectSphereVecHit(center, 2, hit)).toBe(true);
+      expect(hit.point.equals(new Vec3(2, 0, 10))).toBe(true);
+      expect(hit.normal.equals(new Vec3(1, 0, 0))).toBe(true);
+      expect(hit.frontFace).toBe(false);
+    });
   });
 
   describe('closest point', () => {
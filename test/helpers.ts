@@ -0,0 +1,20 @@
+/**
+ * Shared test helpers — a seeded generator for reproducible scenes (no Math.random in
+ * tests) and id collection for comparing spatial queries against brute force
+ */
+
+/** Deterministic xorshift32 stream of numbers in [0, 1). */
+export function rng(seed: number): () => number {
+  let s = seed;
+  return (): number => {
+    s ^= s << 13; s ^= s >>> 17; s ^= s << 5;
+    return (s >>> 0) / 4294967296;
+  };
+}
+
+/** Run a callback-style query and return the reported ids, sorted ascending. */
+export function collect(query: (cb: (id: number) => void) => number): number[] {
+  const ids: number[] = [];
+  query((id) => { ids.push(id); });
+  return ids.sort((a, b) => a - b);
+}
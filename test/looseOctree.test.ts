@@ -0,0 +1,128 @@
+/**
+ * Tests for LooseOctree — placement, updates, queries against brute force, rebasing
+ */
+
+import { describe, expect, it } from 'bun:test';
+import { AABB, Frustum, LooseOctree, Mat4, Ray, RayHit, Vec3 } from '../src';
+import { collect, rng } from './helpers';
+
+function scatter(count: number, seed: number): AABB[] {
+  const next = rng(seed);
+  const boxes: AABB[] = [];
+  for (let i = 0; i < count; i++) {
+    const e = 0.2 + next() * next() * 20; // Mostly small, a few large
+    boxes.push(AABB.fromCenterExtents(next() * 240 - 120, next() * 240 - 120, next() * 240 - 120, e, e * 0.5, e));
+  }
+  return boxes;
+}
+
+describe('LooseOctree', () => {
+  describe('items', () => {
+    it('should insert, update and remove by id', () => {
+      const tree = new LooseOctree(new Vec3(0, 0, 0), 64);
+      tree.insert(4, AABB.fromMinMax(0, 0, 0, 1, 1, 1)).insert(9, AABB.fromMinMax(10, 10, 10, 12, 12, 12));
+      expect(tree.count).toBe(2);
+      expect(tree.getAABB(9).equals(AABB.fromMinMax(10, 10, 10, 12, 12, 12))).toBe(true);
+
+      tree.update(4, AABB.fromMinMax(-30, 0, 0, -29, 1, 1));
+      expect(collect((cb) => tree.queryAABB(AABB.fromMinMax(-31, -1, -1, -28, 2, 2), cb))).toEqual([4]);
+      expect(collect((cb) => tree.queryAABB(AABB.fromMinMax(-1, -1, -1, 2, 2, 2), cb))).toEqual([]);
+
+      expect(tree.remove(4)).toBe(true);
+      expect(tree.remove(4)).toBe(false);
+      expect(tree.has(4)).toBe(false);
+      expect(tree.count).toBe(1);
+    });
+
+    it('should reject negative and fractional ids without touching count', () => {
+      const tree = new LooseOctree(new Vec3(0, 0, 0), 64);
+      const box = AABB.fromMinMax(0, 0, 0, 1, 1, 1);
+      tree.insert(2, box);
+      for (const id of [-1, 0.5, 1.5]) {
+        expect(tree.has(id)).toBe(false);
+        tree.insert(id, box).update(id, box);
+        expect(tree.remove(id)).toBe(false);
+      }
+      expect(tree.count).toBe(1);
+      expect(collect((cb) => tree.queryAABB(box, cb))).toEqual([2]);
+    });
+
+    it('should keep items centred outside the root queryable', () => {
+      const tree = new LooseOctree(new Vec3(0, 0, 0), 10);
+      tree.insert(0, AABB.fromMinMax(100, 0, 0, 101, 1, 1));
+      expect(collect((cb) => tree.querySphere(new Vec3(100, 0, 0), 2, cb))).toEqual([0]);
+      expect(tree.raycast(Ray.create(90, 0.5, 0.5, 1, 0, 0), new RayHit())).toBe(0);
+    });
+  });
+
+  describe('queries', () => {
+    const boxes = scatter(1500, 0x13579bd);
+    const tree = new LooseOctree(new Vec3(0, 0, 0), 128, 2, 6, 2);
+    boxes.forEach((box, id) => tree.insert(id, box));
+    // Move a third of them and drop a few to exercise relinking and pruning
+    for (let i = 0; i < boxes.length; i += 3) {
+      boxes[i].translate(17, -9, 4);
+      tree.update(i, boxes[i]);
+    }
+    const alive = new Set(boxes.map((_, id) => id));
+    for (let i = 1; i < boxes.length; i += 11) {
+      tree.remove(i);
+      alive.delete(i);
+    }
+    const expected = (pred: (box: AABB) => boolean): number[] => [...alive].filter((id) => pred(boxes[id])).sort((a, b) => a - b);
+
+    it('should match brute force for AABB queries', () => {
+      const query = AABB.fromMinMax(-40, -25, -60, 30, 45, 10);
+      expect(collect((cb) => tree.queryAABB(query, cb))).toEqual(expected((b) => b.intersectsAABB(query)));
+    });
+
+    it('should match brute force for sphere queries', () => {
+      const center = new Vec3(20, -30, 15);
+      expect(collect((cb) => tree.querySphere(center, 45, cb))).toEqual(expected((b) => b.distanceToPointVec(center) <= 45));
+    });
+
+    it('should match brute force for frustum queries', () => {
+      const view = Mat4.lookAt(new Vec3(0, 10, -200), new Vec3(10, 0, 0), new Vec3(0, 1, 0));
+      const frustum = Frustum.fromMat4(Mat4.multiply(Mat4.perspectiveZO(Math.PI / 3, 1.5, 1, 300), view), true);
+      const ids = expected((b) => frustum.intersectsAABB(b));
+      expect(ids.length).toBeGreaterThan(0);
+      expect(ids.length).toBeLessThan(alive.size);
+      expect(collect((cb) => tree.queryFrustum(frustum, cb))).toEqual(ids);
+    });
+
+    it('should return the closest ray hit', () => {
+      const hit = new RayHit();
+      const ref = new RayHit();
+      for (let i = 0; i < 24; i++) {
+        const ray = Ray.create(-200, Math.sin(i) * 80, Math.cos(i * 1.7) * 80, 1, Math.sin(i * 2.3) * 0.2, Math.cos(i) * 0.2);
+        let bestT = Infinity, bestId = -1;
+        for (const id of alive) {
+          if (ray.intersectAABBHit(boxes[id], ref) && ref.t < bestT) { bestT = ref.t; bestId = id; }
+        }
+        expect(tree.raycast(ray, hit)).toBe(bestId);
+        if (bestId >= 0) expect(hit.t).toBeCloseTo(bestT, 9);
+      }
+    });
+  });
+
+  describe('rebase', () => {
+    it('should shift items and nodes into the new frame', () => {
+      const origin = new Vec3(1e6, 0, -2e6);
+      const tree = new LooseOctree(origin, 256);
+      const boxes = scatter(200, 0x2468).map((b) => b.translateVec(origin));
+      boxes.forEach((box, id) => tree.insert(id, box));
+
+      tree.rebase(origin);
+      expect(tree.getAABB(5).equals(boxes[5].clone().translate(-1e6, 0, 2e6), 1e-6)).toBe(true);
+
+      const query = AABB.fromMinMax(-50, -50, -50, 50, 50, 50);
+      const shifted = boxes.map((b) => b.clone().translate(-1e6, 0, 2e6));
+      const ids = shifted.map((b, id) => (b.intersectsAABB(query) ? id : -1)).filter((id) => id >= 0);
+      expect(collect((cb) => tree.queryAABB(query, cb))).toEqual(ids);
+
+      // Updates after the rebase land in the same structure
+      tree.update(5, AABB.fromMinMax(0, 0, 0, 1, 1, 1));
+      expect(collect((cb) => tree.queryAABB(AABB.fromMinMax(0.5, 0.5, 0.5, 0.6, 0.6, 0.6), cb))).toContain(5);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Tests for Mat2D — agreement with Mat4 on the XY plane, compose/decompose, std140 packing
+ */
+
+import { describe, expect, it } from 'bun:test';
+import { Mat2D, Mat3, Mat4, Vec2, Vec3, PI, type Mat2DComponents } from '../src';
+
+function parts(): Mat2DComponents {
+  return { x: 0, y: 0, rotation: 0, scaleX: 0, scaleY: 0, skew: 0 };
+}
+
+describe('Mat2D', () => {
+  describe('operations', () => {
+    it('should match Mat4 translate/rotateZ/scale on the XY plane', () => {
+      const m = Mat2D.fromTranslation(3, -2).rotate(0.7).scale(2, 0.5).translate(1, 4);
+      const m4 = Mat4.fromTranslation(3, -2, 0).rotateZ(0.7).scale(2, 0.5, 1).translate(1, 4, 0);
+      expect(m.equals(Mat2D.fromMat4(m4))).toBe(true);
+      expect(m.toMat4().equals(m4)).toBe(true);
+
+      const p = m.transformVec2(new Vec2(5, 6));
+      const p4 = m4.transformVec3(new Vec3(5, 6, 0));
+      expect(p.x).toBeCloseTo(p4.x, 12);
+      expect(p.y).toBeCloseTo(p4.y, 12);
+    });
+
+    it('should multiply like Mat4 and premultiply', () => {
+      const a = Mat2D.compose(1, 2, 0.3, 2, 3, 0.2);
+      const b = Mat2D.compose(-4, 0.5, -1.2, 0.5, 1, 0);
+      const expected = Mat2D.fromMat4(Mat4.multiply(a.toMat4(), b.toMat4()));
+      expect(Mat2D.multiply(a, b).equals(expected)).toBe(true);
+      expect(b.clone().premultiply(a).equals(expected)).toBe(true);
+      expect(a.clone().multiply(b).equals(expected)).toBe(true);
+    });
+
+    it('should invert, and leave singular matrices unchanged', () => {
+      const m = Mat2D.compose(10, -20, 1.1, 3, -0.25, 0.4);
+      expect(Mat2D.multiply(m, m.clone().invert()).equals(Mat2D.identity())).toBe(true);
+      expect(m.determinant()).toBeCloseTo(3 * -0.25, 12);
+
+      const singular = Mat2D.fromScaling(0, 2);
+      expect(singular.clone().invert().equals(singular)).toBe(true);
+    });
+
+    it('should transform into any { x, y } target, and directions without translation', () => {
+      const m = Mat2D.fromTranslation(10, 0).rotate(PI / 2);
+      const target = { x: 0, y: 0 };
+      expect(m.transformVec2({ x: 1, y: 0 }, target)).toBe(target);
+      expect(target.x).toBeCloseTo(10, 12);
+      expect(target.y).toBeCloseTo(1, 12);
+      const d = m.transformDirection(new Vec2(1, 0));
+      expect(d.equals(new Vec2(0, 1))).toBe(true);
+    });
+  });
+
+  describe('compose/decompose', () => {
+    it('should round-trip translation, rotation, scale and skew', () => {
+      const cases: [number, number, number, number, number, number][] = [
+        [0, 0, 0, 1, 1, 0],
+        [5, -3, 0.8, 2, 0.5, 0],
+        [-1, 7, -2.5, 1.5, 3, 0.6],
+        [2, 2, 3.0, -2, 1, -0.4], // Mirrored
+      ];
+      for (const [x, y, r, sx, sy, k] of cases) {
+        const m = Mat2D.compose(x, y, r, sx, sy, k);
+        const out = parts();
+        expect(Mat2D.decompose(m, out)).toBe(true);
+        expect(out.x).toBe(x);
+        expect(out.y).toBe(y);
+        expect(out.rotation).toBeCloseTo(r, 12);
+        expect(out.scaleX).toBeCloseTo(sx, 12);
+        expect(out.scaleY).toBeCloseTo(sy, 12);
+        expect(out.skew).toBeCloseTo(k, 12);
+      }
+    });
+
+    it('should move a mirror on y into scaleX and rebuild the same matrix', () => {
+      const m = Mat2D.fromRotation(0.4).scale(2, -3);
+      const out = parts();
+      expect(Mat2D.decompose(m, out)).toBe(true);
+      expect(out.scaleX).toBeLessThan(0);
+      expect(out.scaleY).toBeGreaterThan(0);
+      expect(Mat2D.compose(out.x, out.y, out.rotation, out.scaleX, out.scaleY, out.skew).equals(m)).toBe(true);
+    });
+
+    it('should reject singular matrices', () => {
+      const out = parts();
+      expect(Mat2D.decompose(Mat2D.fromTranslation(1, 2).scale(0, 1), out)).toBe(false);
+      expect(out.x).toBe(1);
+      expect(out.scaleX).toBe(0);
+    });
+  });
+
+  describe('std140', () => {
+    it('should pack as a padded mat3 readable by Mat3', () => {
+      const m = Mat2D.compose(4, 5, 0.3, 2, 3, 0.1);
+      const arr = m.toFloat32Array(new Float32Array(16).fill(9), 2);
+      expect(Array.from(arr.subarray(2, 14))).toEqual(Array.from(new Float32Array([
+        m.m00, m.m01, 0, 0, m.m02, m.m03, 0, 0, 4, 5, 1, 0,
+      ])));
+      expect(arr[14]).toBe(9);
+
+      const m3 = new Mat3().fromFloat32Array(arr, 2);
+      expect(m3.m06).toBe(4);
+      expect(m3.m08).toBe(1);
+      expect(new Mat2D().fromFloat32Array(arr, 2).equals(m, 1e-6)).toBe(true);
+    });
+  });
+});
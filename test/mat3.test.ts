@@ -0,0 +1,123 @@
+/**
+ * Tests for Mat3 — normal-matrix derivation and the std140 upload layout
+ */
+
+import { describe, expect, it } from 'bun:test';
+import { Mat3, Mat4, Vec3, PI } from '../src';
+
+describe('Mat3', () => {
+  describe('construction', () => {
+    it('should create identity matrix by default', () => {
+      const m = new Mat3();
+      expect(m.m00).toBe(1);
+      expect(m.m04).toBe(1);
+      expect(m.m08).toBe(1);
+      expect(m.m01).toBe(0);
+      expect(m.m03).toBe(0);
+    });
+
+    it('should take the upper 3x3 of a Mat4', () => {
+      const m4 = Mat4.fromTranslation(7, 8, 9).rotateZ(PI / 2).scale(2, 3, 4);
+      const m3 = Mat3.fromMat4(m4);
+      expect(m3.m00).toBe(m4.m00);
+      expect(m3.m03).toBe(m4.m04);
+      expect(m3.m05).toBe(m4.m06);
+      expect(m3.m08).toBe(m4.m10);
+    });
+  });
+
+  describe('multiplication', () => {
+    it('should match Mat4 multiplication on the upper 3x3', () => {
+      const a = Mat4.fromRotationX(0.3).scale(1, 2, 3);
+      const b = Mat4.fromRotationY(-1.1);
+      const expected = Mat3.fromMat4(Mat4.multiply(a, b));
+      const result = Mat3.multiply(Mat3.fromMat4(a), Mat3.fromMat4(b));
+      expect(result.equals(expected)).toBe(true);
+    });
+
+    it('should multiply in place and premultiply', () => {
+      const a = Mat3.fromMat4(Mat4.fromRotationZ(0.4));
+      const b = Mat3.fromMat4(Mat4.fromScaling(2, 1, 1));
+      expect(a.clone().multiply(b).equals(Mat3.multiply(a, b))).toBe(true);
+      expect(a.clone().premultiply(b).equals(Mat3.multiply(b, a))).toBe(true);
+    });
+  });
+
+  describe('transpose, determinant and inverse', () => {
+    it('should transpose', () => {
+      const m = Mat3.fromValues(1, 2, 3, 4, 5, 6, 7, 8, 9);
+      m.transpose();
+      expect(m.m01).toBe(4);
+      expect(m.m03).toBe(2);
+      expect(m.m07).toBe(6);
+      expect(Mat3.transpose(m).equals(Mat3.fromValues(1, 2, 3, 4, 5, 6, 7, 8, 9))).toBe(true);
+    });
+
+    it('should compute determinant', () => {
+      expect(Mat3.fromMat4(Mat4.fromScaling(2, 3, 4)).determinant()).toBeCloseTo(24, 10);
+      expect(Mat3.fromMat4(Mat4.fromRotationY(1.3)).determinant()).toBeCloseTo(1, 10);
+    });
+
+    it('should invert to identity', () => {
+      const m = Mat3.fromMat4(Mat4.fromRotationX(0.7).scale(2, 0.5, 3));
+      const inv = m.clone().invert();
+      expect(Mat3.multiply(m, inv).equals(Mat3.identity())).toBe(true);
+    });
+
+    it('should leave a singular matrix unchanged', () => {
+      const m = Mat3.fromMat4(Mat4.fromScaling(1, 0, 1));
+      const before = m.clone();
+      m.invert();
+      expect(m.equals(before)).toBe(true);
+    });
+  });
+
+  describe('normal matrix', () => {
+    it('should equal the transposed inverse of the full Mat4', () => {
+      const model = Mat4.fromTranslation(10, -4, 2).rotateY(0.8).rotateX(-0.3).scale(1, 4, 0.25);
+      const expected = Mat3.fromMat4(model.clone().invert().transpose());
+      expect(Mat3.normalFromMat4(model).equals(expected)).toBe(true);
+    });
+
+    it('should keep normals perpendicular under non-uniform scale', () => {
+      const model = Mat4.fromScaling(4, 1, 1).rotateZ(PI / 4);
+      const nm = Mat3.normalFromMat4(model);
+
+      // Surface spanned by tangent (1, -1, 0) with normal (1, 1, 0) in object space
+      const tangent = model.transformDirection(new Vec3(1, -1, 0));
+      const normal = nm.transformNormal(new Vec3(1, 1, 0).normalize());
+      expect(normal.dot(tangent)).toBeCloseTo(0, 10);
+      expect(normal.length()).toBeCloseTo(1, 10);
+    });
+
+    it('should reduce to the rotation for rigid transforms', () => {
+      const model = Mat4.fromRotationZ(1.1).translate(3, 3, 3);
+      expect(Mat3.normalFromMat4(model).equals(Mat3.fromMat4(model))).toBe(true);
+    });
+  });
+
+  describe('vector transformation', () => {
+    it('should transform Vec3', () => {
+      const m = Mat3.fromMat4(Mat4.fromRotationZ(PI / 2));
+      const r = m.transformVec3(new Vec3(1, 0, 0));
+      expect(r.x).toBeCloseTo(0, 10);
+      expect(r.y).toBeCloseTo(1, 10);
+      expect(r.z).toBeCloseTo(0, 10);
+    });
+  });
+
+  describe('GPU upload', () => {
+    it('should write the std140 layout with padded columns', () => {
+      const m = Mat3.fromValues(1, 2, 3, 4, 5, 6, 7, 8, 9);
+      const out = new Float32Array(14).fill(-1);
+      m.toFloat32Array(out, 1);
+      expect(Array.from(out)).toEqual([-1, 1, 2, 3, 0, 4, 5, 6, 0, 7, 8, 9, 0, -1]);
+    });
+
+    it('should round-trip through Float32Array', () => {
+      const m = Mat3.fromValues(1, 2, 3, 4, 5, 6, 7, 8, 9);
+      const arr = m.toFloat32Array(new Float32Array(12));
+      expect(new Mat3().fromFloat32Array(arr).equals(m)).toBe(true);
+    });
+  });
+});
@@ -3,7 +3,7 @@
  */
 
 import { describe, expect, it } from 'bun:test';
-import { Mat4, Quat, Vec3, Vec4, PI, EPSILON } from '../src';
+import { EulerOrder, Mat4, Quat, Vec3, Vec4, PI, EPSILON } from '../src';
 
 // ============================================================================
 // MAT4 TESTS
@@ -275,6 +275,70 @@ describe('Mat4', () => {
     });
   });
 
+  describe('compose / decompose', () => {
+    it('should build from quaternion like Quat.toMat4', () => {
+      const q = Quat.fromAxisAngle(new Vec3(1, 2, 3).normalize(), 0.9);
+      expect(Mat4.fromQuat(q).equals(q.toMat4())).toBe(true);
+    });
+
+    it('should compose T * R * S', () => {
+      const t = new Vec3(1, 2, 3);
+      const q = Quat.fromAxisAngle(new Vec3(0, 1, 0), PI / 3);
+      const s = new Vec3(2, 3, 4);
+      const expected = Mat4.fromTranslation(1, 2, 3).multiply(q.toMat4()).scale(2, 3, 4);
+      expect(Mat4.compose(t, q, s).equals(expected)).toBe(true);
+    });
+
+    it('should round-trip translation, rotation and scale', () => {
+      const q = Quat.fromAxisAngle(new Vec3(1, -1, 2).normalize(), 2.2);
+      const m = Mat4.compose(new Vec3(-5, 6, 7), q, new Vec3(0.5, 3, 8));
+
+      const t = new Vec3();
+      const r = new Quat();
+      const s = new Vec3();
+      expect(Mat4.decompose(m, t, r, s)).toBe(true);
+      expect(t.equals(new Vec3(-5, 6, 7))).toBe(true);
+      expect(s.equals(new Vec3(0.5, 3, 8))).toBe(true);
+      expect(Math.abs(r.dot(q))).toBeCloseTo(1, 10);
+      expect(Mat4.compose(t, r, s).equals(m)).toBe(true);
+    });
+
+    it('should handle negative scale (mirrored objects)', () => {
+      const q = Quat.fromAxisAngle(new Vec3(0, 0, 1), 0.4);
+      const m = Mat4.compose(new Vec3(0, 0, 0), q, new Vec3(1, -2, 1));
+
+      const t = new Vec3();
+      const r = new Quat();
+      const s = new Vec3();
+      expect(Mat4.decompose(m, t, r, s)).toBe(true);
+      expect(s.x).toBeLessThan(0);
+      expect(r.length()).toBeCloseTo(1, 10);
+      expect(Mat4.compose(t, r, s).equals(m)).toBe(true);
+    });
+
+    it('should report degenerate and sheared matrices', () => {
+      const t = new Vec3();
+      const r = new Quat();
+      const s = new Vec3();
+      expect(Mat4.decompose(Mat4.fromScaling(1, 0, 1), t, r, s)).toBe(false);
+
+      const sheared = new Mat4();
+      sheared.m04 = 0.5; // x += 0.5 * y
+      expect(Mat4.decompose(sheared, t, r, s)).toBe(false);
+
+      expect(Mat4.decompose(Mat4.perspective(1, 1, 0.1, 10), t, r, s)).toBe(false);
+    });
+  });
+
+  describe('fromEuler', () => {
+    it('should match Quat.fromEuler for every order', () => {
+      for (const order of Object.values(EulerOrder).filter((v): v is EulerOrder => typeof v === 'number')) {
+        const m = Mat4.fromEuler(0.3, -1.2, 2.1, order);
+        expect(m.equals(Quat.fromEuler(0.3, -1.2, 2.1, order).toMat4(), 1e-12)).toBe(true);
+      }
+    });
+  });
+
   describe('lookAt', () => {
     it('should create lookAt matrix', () => {
       const eye = new Vec3(0, 0, 5);
@@ -482,6 +546,67 @@ describe('Quat', () => {
       // Check euler Y is approximately PI/2
       expect(Math.abs(euler.y)).toBeCloseTo(PI / 2, 2);
     });
+
+    const orders = Object.values(EulerOrder).filter((v): v is EulerOrder => typeof v === 'number');
+    const isProper = (order: EulerOrder) => (order & 3) === ((order >> 4) & 3);
+
+    it('should cover all 24 sequences', () => {
+      expect(orders.length).toBe(24);
+    });
+
+    it('should keep the intrinsic XYZ default', () => {
+      const [hx, hy, hz] = [0.05, 0.1, 0.15];
+      const q = Quat.fromEuler(0.1, 0.2, 0.3);
+      const expected = new Quat(
+        Math.sin(hx) * Math.cos(hy) * Math.cos(hz) + Math.cos(hx) * Math.sin(hy) * Math.sin(hz),
+        Math.cos(hx) * Math.sin(hy) * Math.cos(hz) - Math.sin(hx) * Math.cos(hy) * Math.sin(hz),
+        Math.cos(hx) * Math.cos(hy) * Math.sin(hz) + Math.sin(hx) * Math.sin(hy) * Math.cos(hz),
+        Math.cos(hx) * Math.cos(hy) * Math.cos(hz) - Math.sin(hx) * Math.sin(hy) * Math.sin(hz)
+      );
+      expect(q.equals(expected, 1e-12)).toBe(true);
+      expect(Quat.fromEuler(0.1, 0.2, 0.3, EulerOrder.IntrinsicXYZ).exactEquals(q)).toBe(true);
+    });
+
+    it('should apply intrinsic sequences about body axes and extrinsic ones about world axes', () => {
+      // Intrinsic YXZ = yaw, then pitch about the yawed X, then roll
+      const yxz = Quat.fromEuler(0.4, -0.3, 0.2, EulerOrder.IntrinsicYXZ);
+      const manual = Quat.fromAxisAngle(new Vec3(0, 1, 0), 0.4)
+        .multiply(Quat.fromAxisAngle(new Vec3(1, 0, 0), -0.3))
+        .multiply(Quat.fromAxisAngle(new Vec3(0, 0, 1), 0.2));
+      expect(yxz.equals(manual, 1e-12)).toBe(true);
+
+      const extrinsic = Quat.fromEuler(0.2, -0.3, 0.4, EulerOrder.ExtrinsicZXY);
+      expect(Math.abs(extrinsic.dot(yxz))).toBeCloseTo(1, 12);
+    });
+
+    it('should round-trip every order', () => {
+      for (const order of orders) {
+        // Angles inside the principal ranges come back unchanged
+        const mid = isProper(order) ? 1.1 : -0.6;
+        const q = Quat.fromEuler(-2.5, mid, 0.9, order);
+        const e = q.toEuler(null, order);
+        expect(e.x).toBeCloseTo(-2.5, 10);
+        expect(e.y).toBeCloseTo(mid, 10);
+        expect(e.z).toBeCloseTo(0.9, 10);
+
+        // Out-of-range angles come back as an equivalent rotation
+        const r = Quat.fromEuler(3, -2, 2.5, order);
+        const f = r.toEuler(new Vec3(), order);
+        expect(Math.abs(Quat.fromEuler(f.x, f.y, f.z, order).dot(r))).toBeCloseTo(1, 10);
+      }
+    });
+
+    it('should zero the rightmost factor at gimbal lock', () => {
+      for (const order of orders) {
+        const extrinsic = EulerOrder[order].startsWith('Extrinsic');
+        for (const mid of isProper(order) ? [0, PI] : [PI / 2, -PI / 2]) {
+          const q = Quat.fromEuler(0.7, mid, -0.4, order);
+          const e = q.toEuler(null, order);
+          expect(extrinsic ? e.x : e.z).toBe(0);
+          expect(Math.abs(Quat.fromEuler(e.x, e.y, e.z, order).dot(q))).toBeCloseTo(1, 10);
+        }
+      }
+    });
   });
 
   describe('matrix conversion', () => {
@@ -515,6 +640,22 @@ describe('Quat', () => {
     });
   });
 
+  describe('rotation matrix with scale', () => {
+    it('should ignore scale when extracting rotation', () => {
+      const q = Quat.fromAxisAngle(new Vec3(1, 1, 0).normalize(), 1.2);
+      const m = q.toMat4().scale(3, 0.25, 7);
+      const r = Quat.fromRotationMatrix(m);
+      expect(Math.abs(r.dot(q))).toBeCloseTo(1, 10);
+      expect(r.length()).toBeCloseTo(1, 10);
+    });
+
+    it('should set from rotation matrix in place', () => {
+      const q = Quat.fromAxisAngle(new Vec3(0, 0, 1), -2.5);
+      const r = new Quat().setFromRotationMatrix(q.toMat4().scale(2, 2, 2));
+      expect(Math.abs(r.dot(q))).toBeCloseTo(1, 10);
+    });
+  });
+
   describe('axis-angle', () => {
     it('should get axis-angle', () => {
       const yAxis = new Vec3(0, 1, 0);
@@ -528,4 +669,239 @@ describe('Quat', () => {
       expect(outAxis.y).toBeCloseTo(1, 4);
     });
   });
+
+  describe('direction-based construction', () => {
+    const expectVec = (v: Vec3, x: number, y: number, z: number) => {
+      expect(v.x).toBeCloseTo(x, 10);
+      expect(v.y).toBeCloseTo(y, 10);
+      expect(v.z).toBeCloseTo(z, 10);
+    };
+
+    it('should rotate from one unit vector onto another', () => {
+      const from = new Vec3(1, 2, -0.5).normalize();
+      const to = new Vec3(-3, 0.2, 1).normalize();
+      const q = Quat.fromUnitVectors(from, to);
+      expect(q.length()).toBeCloseTo(1, 12);
+      expectVec(q.transformVec3(from), to.x, to.y, to.z);
+      expect(Quat.fromUnitVectors(from, from).equals(Quat.identity())).toBe(true);
+    });
+
+    it('should turn π about a perpendicular axis for antiparallel vectors', () => {
+      for (const from of [new Vec3(1, 0, 0), new Vec3(0, 0, -1), new Vec3(0.6, 0.8, 0)]) {
+        const to = from.clone().negate();
+        const q = Quat.fromUnitVectors(from, to);
+        expect(q.w).toBeCloseTo(0, 12);
+        expect(q.length()).toBeCloseTo(1, 12);
+        expectVec(q.transformVec3(from), to.x, to.y, to.z);
+      }
+    });
+
+    it('should point +Z along forward with +Y towards up', () => {
+      const forward = new Vec3(3, 1, -2);
+      const q = Quat.lookRotation(forward, new Vec3(0, 1, 0));
+      const f = forward.clone().normalize();
+      expectVec(q.transformVec3(Vec3.forward()), f.x, f.y, f.z);
+      const up = q.transformVec3(new Vec3(0, 1, 0));
+      expect(up.y).toBeGreaterThan(0);
+      expect(up.dot(f)).toBeCloseTo(0, 12);
+      // Right-handed: +X = up × forward
+      const right = q.transformVec3(new Vec3(1, 0, 0));
+      const expected = up.clone().cross(f);
+      expectVec(right, expected.x, expected.y, expected.z);
+    });
+
+    it('should be the inverse of Mat4.lookAt rotation for a camera', () => {
+      const eye = new Vec3(4, 5, 6);
+      const target = new Vec3(-1, 0, 2);
+      const up = new Vec3(0, 1, 0);
+      const view = Mat4.lookAt(eye, target, up);
+      const q = Quat.lookRotation(eye.clone().sub(target), up).conjugate();
+      expect(Math.abs(Quat.fromRotationMatrix(view).dot(q))).toBeCloseTo(1, 10);
+    });
+
+    it('should fall back for degenerate forward and up', () => {
+      expect(Quat.lookRotation(new Vec3(0, 0, 0), new Vec3(0, 1, 0)).equals(Quat.identity())).toBe(true);
+      for (const up of [new Vec3(0, 2, 0), new Vec3(0, -1, 0), new Vec3(0, 0, 0)]) {
+        const q = Quat.lookRotation(new Vec3(0, 5, 0), up);
+        expect(q.length()).toBeCloseTo(1, 12);
+        expectVec(q.transformVec3(Vec3.forward()), 0, 1, 0);
+      }
+      const back = Quat.lookRotation(new Vec3(0, 0, -1), new Vec3(0, 0, 1));
+      expectVec(back.transformVec3(Vec3.forward()), 0, 0, -1);
+    });
+  });
+
+  describe('rotateTowards', () => {
+    const a = Quat.fromAxisAngle(new Vec3(0, 1, 0), 0);
+    const b = Quat.fromAxisAngle(new Vec3(0, 1, 0), 1.5);
+
+    it('should step by at most maxRadians', () => {
+      const q = Quat.rotateTowards(a, b, 0.5);
+      expect(q.equals(Quat.fromAxisAngle(new Vec3(0, 1, 0), 0.5))).toBe(true);
+      expect(a.clone().rotateTowards(b, 0).equals(a)).toBe(true);
+    });
+
+    it('should land exactly on the target once within reach', () => {
+      const q = a.clone();
+      for (let i = 0; i < 4; i++) q.rotateTowards(b, 0.5);
+      expect(q.exactEquals(b)).toBe(true);
+    });
+
+    it('should take the shortest arc across the double cover', () => {
+      const negB = new Quat(-b.x, -b.y, -b.z, -b.w);
+      const q = Quat.rotateTowards(a, negB, 0.5);
+      expect(Math.abs(q.dot(Quat.fromAxisAngle(new Vec3(0, 1, 0), 0.5)))).toBeCloseTo(1, 10);
+    });
+  });
+
+  describe('log/exp/pow', () => {
+    const axis = new Vec3(1, 2, -2).normalize();
+
+    it('should map a rotation to axis · angle/2 and back', () => {
+      const q = Quat.fromAxisAngle(axis, 1.3);
+      const l = Quat.log(q);
+      expect(l.w).toBeCloseTo(0, 12);
+      expect(l.x).toBeCloseTo(axis.x * 0.65, 12);
+      expect(l.z).toBeCloseTo(axis.z * 0.65, 12);
+      expect(l.exp().equals(q, 1e-12)).toBe(true);
+      expect(Quat.log(Quat.identity()).exactEquals(new Quat(0, 0, 0, 0))).toBe(true);
+      expect(Quat.exp(new Quat(0, 0, 0, 0)).exactEquals(Quat.identity())).toBe(true);
+    });
+
+    it('should scale the angle with pow', () => {
+      const q = Quat.fromAxisAngle(axis, 1.3);
+      expect(Quat.pow(q, 0.5).equals(Quat.fromAxisAngle(axis, 0.65), 1e-12)).toBe(true);
+      expect(q.clone().pow(2).equals(Quat.multiply(q, q), 1e-12)).toBe(true);
+      expect(q.clone().pow(0).equals(Quat.identity(), 1e-12)).toBe(true);
+    });
+  });
+
+  describe('nlerp', () => {
+    it('should take the shortest arc and stay normalised', () => {
+      const a = Quat.fromAxisAngle(new Vec3(0, 0, 1), 0.2);
+      const b = Quat.fromAxisAngle(new Vec3(0, 0, 1), 0.8);
+      const negB = new Quat(-b.x, -b.y, -b.z, -b.w);
+      const mid = Quat.nlerp(a, negB, 0.5);
+      expect(mid.length()).toBeCloseTo(1, 12);
+      expect(mid.equals(Quat.fromAxisAngle(new Vec3(0, 0, 1), 0.5), 1e-12)).toBe(true);
+      expect(a.clone().nlerp(b, 1).equals(b, 1e-12)).toBe(true);
+    });
+  });
+
+  describe('angular velocity', () => {
+    const a = Quat.fromAxisAngle(new Vec3(1, 1, 0).normalize(), 0.7);
+
+    it('should integrate exactly, even for large rotations', () => {
+      const omega = new Vec3(0, 0, 5); // 5 rad/s about z
+      const q = Quat.integrate(a, omega, 0.5);
+      expect(q.equals(Quat.fromAxisAngle(new Vec3(0, 0, 1), 2.5).multiply(a), 1e-12)).toBe(true);
+
+      // Many small steps agree with one big one
+      const stepped = a.clone();
+      for (let i = 0; i < 100; i++) stepped.integrate(omega, 0.005);
+      expect(Math.abs(stepped.dot(q))).toBeCloseTo(1, 12);
+    });
+
+    it('should recover the angular velocity between two orientations', () => {
+      for (const omega of [new Vec3(0.3, -2, 1), new Vec3(4, 0, -3), new Vec3(1e-7, 0, 0)]) {
+        const b = Quat.integrate(a, omega, 0.5);
+        const w = Quat.angularVelocity(a, b, 0.5);
+        expect(w.x).toBeCloseTo(omega.x, 10);
+        expect(w.y).toBeCloseTo(omega.y, 10);
+        expect(w.z).toBeCloseTo(omega.z, 10);
+      }
+      // Sign of the stored quaternion does not matter
+      const b = Quat.integrate(a, new Vec3(0, 1, 0), 1);
+      const w = Quat.angularVelocity(a, new Quat(-b.x, -b.y, -b.z, -b.w), 1);
+      expect(w.y).toBeCloseTo(1, 10);
+    });
+
+    it('should measure angle and chordal distance', () => {
+      const b = Quat.fromAxisAngle(new Vec3(0, 0, 1), 2.2).multiply(a);
+      expect(a.angleTo(b)).toBeCloseTo(2.2, 12);
+      expect(Quat.angleTo(b, new Quat(-a.x, -a.y, -a.z, -a.w))).toBeCloseTo(2.2, 12);
+      expect(Quat.distance(a, b)).toBeCloseTo(2 * Math.sin(2.2 / 4), 12);
+      expect(a.distance(new Quat(-a.x, -a.y, -a.z, -a.w))).toBe(0);
+
+      // Tiny angles stay accurate where acos(dot) would round to 0
+      const c = Quat.fromAxisAngle(new Vec3(0, 1, 0), 1e-9).multiply(a);
+      expect(a.angleTo(c) / 1e-9).toBeCloseTo(1, 6);
+    });
+  });
+
+  describe('swing-twist', () => {
+    const yAxis = new Vec3(0, 1, 0);
+    const swingOf = (q: Quat) => {
+      const swing = new Quat(), twist = new Quat();
+      Quat.swingTwist(q, yAxis, swing, twist);
+      return swing;
+    };
+    // Angle between the joint axis before and after the rotation — the swing angle
+    const tilt = (q: Quat) => Math.acos(Math.min(1, q.transformVec3(yAxis).dot(yAxis)));
+
+    it('should split into a twist about the axis and a perpendicular swing', () => {
+      const twistIn = Quat.fromAxisAngle(yAxis, 0.8);
+      const swingIn = Quat.fromAxisAngle(new Vec3(1, 0, 1).normalize(), -0.6);
+      const q = swingIn.clone().multiply(twistIn);
+
+      const swing = new Quat(), twist = new Quat();
+      expect(Quat.swingTwist(q, yAxis, swing, twist)).toBeCloseTo(0.8, 12);
+      expect(twist.equals(twistIn, 1e-12)).toBe(true);
+      expect(Math.abs(swing.dot(swingIn))).toBeCloseTo(1, 12);
+      expect(swing.y).toBeCloseTo(0, 12);
+      expect(Quat.multiply(swing, twist).equals(q, 1e-12)).toBe(true);
+      expect(q.getTwistAngle(yAxis)).toBeCloseTo(0.8, 12);
+    });
+
+    it('should report no twist for a half-turn swing', () => {
+      const q = Quat.fromAxisAngle(new Vec3(1, 0, 0), PI);
+      const swing = new Quat(), twist = new Quat();
+      expect(Quat.swingTwist(q, yAxis, swing, twist)).toBe(0);
+      expect(twist.exactEquals(Quat.identity())).toBe(true);
+      expect(swing.equals(q)).toBe(true);
+    });
+
+    it('should clamp the twist and keep the swing', () => {
+      const swingIn = Quat.fromAxisAngle(new Vec3(0, 0, 1), 0.3);
+      const q = swingIn.clone().multiply(Quat.fromAxisAngle(yAxis, 1.4));
+      q.clampTwist(yAxis, -0.5, 1.0);
+      expect(q.getTwistAngle(yAxis)).toBeCloseTo(1.0, 12);
+      expect(Math.abs(swingOf(q).dot(swingIn))).toBeCloseTo(1, 12);
+
+      const inside = Quat.fromAxisAngle(yAxis, -0.2);
+      expect(inside.clone().clampTwist(yAxis, -0.5, 1.0).exactEquals(inside)).toBe(true);
+    });
+
+    it('should clamp the swing into a cone and keep the twist', () => {
+      const q = Quat.fromAxisAngle(new Vec3(1, 0, 0.5).normalize(), 1.2).multiply(Quat.fromAxisAngle(yAxis, 0.7));
+      q.clampSwingCone(yAxis, 0.5);
+      expect(tilt(q)).toBeCloseTo(0.5, 12);
+      expect(q.getTwistAngle(yAxis)).toBeCloseTo(0.7, 12);
+
+      const inside = Quat.fromAxisAngle(new Vec3(0, 0, 1), 0.4);
+      expect(inside.clone().clampSwingCone(yAxis, 0.5).exactEquals(inside)).toBe(true);
+    });
+
+    it('should clamp the swing into an elliptical cone', () => {
+      const u = new Vec3(1, 0, 0); // v = y × x = -z
+      // On the principal axes the limits are exact
+      const aboutU = Quat.fromAxisAngle(u, 1.0).clampSwingEllipse(yAxis, u, 0.6, 0.2);
+      expect(tilt(aboutU)).toBeCloseTo(0.6, 12);
+      const aboutV = Quat.fromAxisAngle(new Vec3(0, 0, 1), 1.0).clampSwingEllipse(yAxis, u, 0.6, 0.2);
+      expect(tilt(aboutV)).toBeCloseTo(0.2, 12);
+
+      // Off-axis swings land on the ellipse, twist untouched
+      const q = Quat.fromAxisAngle(new Vec3(1, 0, 1).normalize(), 0.9).multiply(Quat.fromAxisAngle(yAxis, -0.3));
+      q.clampSwingEllipse(yAxis, u, 0.6, 0.2);
+      const swing = swingOf(q);
+      const axis = new Vec3();
+      const angle = (swing.w < 0 ? new Quat(-swing.x, -swing.y, -swing.z, -swing.w) : swing).getAxisAngle(axis);
+      const ru = axis.x * angle, rv = -axis.z * angle;
+      expect((ru / 0.6) ** 2 + (rv / 0.2) ** 2).toBeCloseTo(1, 10);
+      expect(q.getTwistAngle(yAxis)).toBeCloseTo(-0.3, 12);
+
+      const inside = Quat.fromAxisAngle(u, 0.5);
+      expect(inside.clone().clampSwingEllipse(yAxis, u, 0.6, 0.2).exactEquals(inside)).toBe(true);
+    });
+  });
 });
@@ -0,0 +1,133 @@
+/**
+ * Tests for OBB — construction, PCA fitting, SAT overlap and ray / closest-point queries
+ */
+
+import { describe, expect, it } from 'bun:test';
+import { AABB, Mat4, OBB, Quat, Ray, Sphere, Vec3 } from '../src';
+
+const QUARTER_TURN_Z = Quat.fromAxisAngle(new Vec3(0, 0, 1), Math.PI / 4);
+
+describe('OBB', () => {
+  describe('construction', () => {
+    it('should match an AABB without a transform', () => {
+      const obb = OBB.fromAABB(AABB.fromMinMax(-1, 0, 2, 3, 2, 4));
+      expect(obb.center.equals(new Vec3(1, 1, 3))).toBe(true);
+      expect(obb.halfExtents.equals(new Vec3(2, 1, 1))).toBe(true);
+    });
+
+    it('should carry rotation and scale of a TRS matrix', () => {
+      const m = Mat4.compose(new Vec3(5, 0, 0), QUARTER_TURN_Z, new Vec3(2, 1, 3));
+      const obb = OBB.fromAABB(AABB.fromMinMax(-1, -1, -1, 1, 1, 1), m);
+      expect(obb.center.equals(new Vec3(5, 0, 0))).toBe(true);
+      expect(obb.halfExtents.equals(new Vec3(2, 1, 3))).toBe(true);
+      expect(obb.basis.determinant()).toBeCloseTo(1, 6);
+
+      // Points of the transformed AABB stay inside; its corners lie on the surface
+      expect(obb.containsPointVec(m.transformVec3(new Vec3(0.99, 0.99, 0.99)))).toBe(true);
+      expect(obb.containsPointVec(m.transformVec3(new Vec3(1.01, 0, 0)))).toBe(false);
+      const corner = m.transformVec3(new Vec3(1, 1, 1));
+      expect(obb.closestPointVec(corner).equals(corner, 1e-5)).toBe(true);
+    });
+
+    it('should build from a quaternion', () => {
+      const obb = OBB.fromCenterHalfExtentsQuat(new Vec3(0, 0, 0), new Vec3(2, 0.5, 1), QUARTER_TURN_Z);
+      const s = Math.SQRT1_2 * 2;
+      expect(obb.containsPoint(s * 0.99, s * 0.99, 0)).toBe(true);
+      expect(obb.containsPoint(2 * 0.99, 0, 0)).toBe(false);
+    });
+  });
+
+  describe('setFromPoints', () => {
+    it('should recover the axes of a rotated box', () => {
+      const m = Mat4.compose(new Vec3(1, 2, 3), QUARTER_TURN_Z, new Vec3(10, 2, 1));
+      const points = OBB.fromAABB(AABB.fromMinMax(-1, -1, -1, 1, 1, 1), m).getCorners();
+      const fit = OBB.fromPoints(points);
+
+      expect(fit.center.equals(new Vec3(1, 2, 3), 1e-6)).toBe(true);
+      const sorted = [fit.halfExtents.x, fit.halfExtents.y, fit.halfExtents.z].sort((a, b) => a - b);
+      expect(sorted[0]).toBeCloseTo(1, 6);
+      expect(sorted[1]).toBeCloseTo(2, 6);
+      expect(sorted[2]).toBeCloseTo(10, 6);
+      expect(fit.basis.determinant()).toBeCloseTo(1, 6);
+      for (const p of points) expect(fit.containsPoint(p.x * 0.999 + 0.001, p.y * 0.999 + 0.002, p.z * 0.999 + 0.003)).toBe(true);
+    });
+
+    it('should be tighter than the AABB for a rotated cloud', () => {
+      const points: Vec3[] = [];
+      for (let i = 0; i <= 20; i++) points.push(new Vec3(i, i, 0), new Vec3(i + 0.1, i - 0.1, 0.1));
+      const fit = OBB.fromPoints(points);
+      const volume = 8 * fit.halfExtents.x * fit.halfExtents.y * fit.halfExtents.z;
+      const aabb = AABB.empty();
+      for (const p of points) aabb.expandByPointVec(p);
+      expect(volume).toBeLessThan(aabb.getVolume() * 0.1);
+      for (const p of points) {
+        expect(fit.closestPointVec(p).equals(p, 1e-6)).toBe(true);
+      }
+    });
+
+    it('should handle an empty cloud', () => {
+      const fit = OBB.fromPoints([]);
+      expect(fit.halfExtents.equals(new Vec3(0, 0, 0))).toBe(true);
+    });
+  });
+
+  describe('overlap', () => {
+    const box = OBB.fromCenterHalfExtentsQuat(new Vec3(0, 0, 0), new Vec3(1, 1, 1), QUARTER_TURN_Z);
+
+    it('should separate boxes whose AABBs overlap', () => {
+      // The rotated box's AABB reaches √2 along x and y; the corner box sits past its diagonal face
+      const other = OBB.fromAABB(AABB.fromMinMax(0.9, 0.9, -1, 2, 2, 1));
+      expect(box.getBoundingAABB().intersectsAABB(AABB.fromMinMax(0.9, 0.9, -1, 2, 2, 1))).toBe(true);
+      expect(box.intersectsOBB(other)).toBe(false);
+      expect(box.intersectsAABB(AABB.fromMinMax(0.9, 0.9, -1, 2, 2, 1))).toBe(false);
+    });
+
+    it('should detect overlap along each axis family', () => {
+      expect(box.intersectsAABB(AABB.fromMinMax(1.3, -0.1, -0.1, 2, 0.1, 0.1))).toBe(true);
+      expect(box.intersectsAABB(AABB.fromMinMax(1.5, -0.1, -0.1, 2, 0.1, 0.1))).toBe(false);
+      expect(box.intersectsOBB(box.clone())).toBe(true);
+    });
+
+    it('should separate on an edge-edge axis', () => {
+      // Edges along z and y meet head-on; x = z × y is no face normal of either box
+      const a = OBB.fromCenterHalfExtentsQuat(new Vec3(0, 0, 0), new Vec3(1, 1, 1), QUARTER_TURN_Z);
+      const qy = Quat.fromAxisAngle(new Vec3(0, 1, 0), Math.PI / 4);
+      const gap = Math.SQRT2 * 2;
+      const touching = OBB.fromCenterHalfExtentsQuat(new Vec3(gap - 0.01, 0, 0), new Vec3(1, 1, 1), qy);
+      const apart = OBB.fromCenterHalfExtentsQuat(new Vec3(gap + 0.5, 0, 0), new Vec3(1, 1, 1), qy);
+      expect(a.intersectsOBB(touching)).toBe(true);
+      expect(a.intersectsOBB(apart)).toBe(false);
+    });
+
+    it('should test spheres against the closest point', () => {
+      // Face distance along the rotated diagonal is 1, corner distance √2
+      const d = Math.SQRT1_2;
+      expect(box.intersectsSphere(Sphere.fromCenterRadius(new Vec3(d * 1.5, d * 1.5, 0), 0.55))).toBe(true);
+      expect(box.intersectsSphere(Sphere.fromCenterRadius(new Vec3(d * 1.5, d * 1.5, 0), 0.45))).toBe(false);
+      expect(box.intersectsSphere(new Sphere())).toBe(false);
+    });
+  });
+
+  describe('queries', () => {
+    const box = OBB.fromCenterHalfExtentsQuat(new Vec3(0, 0, 0), new Vec3(1, 1, 1), QUARTER_TURN_Z);
+
+    it('should clamp points to the box surface', () => {
+      const q = box.closestPoint(5, 0, 0);
+      expect(q.equals(new Vec3(Math.SQRT2, 0, 0), 1e-6)).toBe(true);
+      expect(box.closestPoint(0.1, 0.2, 0.3).equals(new Vec3(0.1, 0.2, 0.3))).toBe(true);
+    });
+
+    it('should bound itself with a tight AABB', () => {
+      const aabb = box.getBoundingAABB();
+      expect(aabb.equals(AABB.fromMinMax(-Math.SQRT2, -Math.SQRT2, -1, Math.SQRT2, Math.SQRT2, 1))).toBe(true);
+    });
+
+    it('should intersect rays in world units', () => {
+      const ray = Ray.create(-10, 0, 0, 1, 0, 0);
+      expect(ray.intersectOBB(box)).toBeCloseTo(10 - Math.SQRT2, 6);
+      expect(Ray.create(-10, 1.5, 0, 1, 0, 0).intersectOBB(box)).toBe(-1);
+      expect(Ray.create(0, 0, 0, 0, 1, 0).intersectOBB(box)).toBeCloseTo(Math.SQRT2, 6);
+      expect(Ray.create(-10, 0, 0, -1, 0, 0).intersectsOBB(box)).toBe(false);
+    });
+  });
+});
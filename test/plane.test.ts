@@ -0,0 +1,107 @@
+/**
+ * Tests for Plane
+ */
+
+import { describe, expect, it } from 'bun:test';
+import { Mat4, Plane, Ray, Vec3 } from '../src';
+
+describe('Plane', () => {
+  describe('construction', () => {
+    it('should create from normal and point', () => {
+      const p = Plane.fromNormalAndPoint(new Vec3(0, 2, 0), new Vec3(5, 3, -1));
+      expect(p.normal.equals(new Vec3(0, 1, 0))).toBe(true);
+      expect(p.d).toBeCloseTo(-3, 10);
+    });
+
+    it('should create from counter-clockwise points', () => {
+      const p = Plane.fromPoints(new Vec3(0, 0, 2), new Vec3(1, 0, 2), new Vec3(0, 1, 2));
+      expect(p.normal.equals(new Vec3(0, 0, 1))).toBe(true);
+      expect(p.d).toBeCloseTo(-2, 10);
+    });
+
+    it('should normalize raw coefficients', () => {
+      const p = Plane.create(0, 0, 4, -8).normalize();
+      expect(p.normal.z).toBe(1);
+      expect(p.d).toBe(-2);
+    });
+  });
+
+  describe('queries', () => {
+    const ground = Plane.fromNormalAndPoint(new Vec3(0, 1, 0), new Vec3(0, 1, 0));
+
+    it('should compute signed distance', () => {
+      expect(ground.signedDistanceToPoint(3, 4, 5)).toBeCloseTo(3, 10);
+      expect(ground.signedDistanceToPointVec(new Vec3(0, -1, 0))).toBeCloseTo(-2, 10);
+    });
+
+    it('should project a point', () => {
+      const r = ground.projectPoint(new Vec3(3, 7, -2));
+      expect(r.equals(new Vec3(3, 1, -2))).toBe(true);
+      expect(ground.coplanarPoint().equals(new Vec3(0, 1, 0))).toBe(true);
+    });
+
+    it('should intersect a segment', () => {
+      const out = new Vec3();
+      const t = ground.intersectLine(new Vec3(0, 3, 0), new Vec3(4, -1, 0), out);
+      expect(t).toBeCloseTo(0.5, 10);
+      expect(out.equals(new Vec3(2, 1, 0))).toBe(true);
+    });
+
+    it('should miss segments that stop short or run parallel', () => {
+      expect(ground.intersectLine(new Vec3(0, 3, 0), new Vec3(0, 2, 0))).toBe(-1);
+      expect(ground.intersectLine(new Vec3(0, 3, 0), new Vec3(5, 3, 0))).toBe(-1);
+    });
+  });
+
+  describe('transform', () => {
+    it('should follow translated and rotated points', () => {
+      const m = Mat4.fromTranslation(0, 5, 0).rotateZ(Math.PI / 2);
+      const p = Plane.fromNormalAndPoint(new Vec3(1, 0, 0), new Vec3(2, 0, 0)).transform(m);
+      // x = 2 rotates to y = 2, then moves to y = 7
+      expect(p.normal.equals(new Vec3(0, 1, 0))).toBe(true);
+      expect(p.signedDistanceToPoint(0, 7, 0)).toBeCloseTo(0, 10);
+    });
+
+    it('should stay attached to points under non-uniform scale', () => {
+      const m = Mat4.fromScaling(4, 1, 1);
+      const a = new Vec3(1, 0, 0), b = new Vec3(0, 1, 0), c = new Vec3(0, 0, 1);
+      const p = Plane.fromPoints(a, b, c).transform(m);
+      const expected = Plane.fromPoints(m.transformVec3(a), m.transformVec3(b), m.transformVec3(c));
+      expect(p.equals(expected)).toBe(true);
+    });
+
+    it('should leave the plane unchanged for a singular matrix', () => {
+      const p = Plane.create(0, 1, 0, -1);
+      p.transform(Mat4.fromScaling(1, 0, 1));
+      expect(p.equals(Plane.create(0, 1, 0, -1))).toBe(true);
+    });
+  });
+
+  describe('three-plane intersection', () => {
+    it('should find the common point', () => {
+      const out = new Vec3();
+      const ok = Plane.intersectPlanes(
+        Plane.create(1, 0, 0, -1),
+        Plane.create(0, 1, 0, -2),
+        Plane.fromNormalAndPoint(new Vec3(1, 1, 1), new Vec3(0, 0, 6)),
+        out
+      );
+      expect(ok).toBe(true);
+      expect(out.equals(new Vec3(1, 2, 3))).toBe(true);
+    });
+
+    it('should reject parallel planes', () => {
+      const out = new Vec3();
+      expect(Plane.intersectPlanes(Plane.create(0, 1, 0, 0), Plane.create(0, 1, 0, -1), Plane.create(1, 0, 0, 0), out)).toBe(false);
+    });
+  });
+
+  describe('ray intersection', () => {
+    it('should accept a Plane in Ray.intersectPlane', () => {
+      const ray = Ray.fromVecs(new Vec3(0, 5, 0), new Vec3(0, -1, 0));
+      const plane = Plane.fromNormalAndPoint(new Vec3(0, 1, 0), new Vec3(0, 1, 0));
+      expect(ray.intersectPlane(plane)).toBeCloseTo(4, 10);
+      expect(ray.intersectPlane(plane.normal.x, plane.normal.y, plane.normal.z, plane.d)).toBeCloseTo(4, 10);
+    });
+  });
+});
@@ -2,6 +2,7 @@
  * [0,1]-depth (WebGPU) projection variants — perspectiveZO / orthoZO.
  * GL-convention perspective/ortho map depth to [-1,1]; on WebGPU that clips
  * the near half of the frustum away. The ZO pair is the 3D path's projection.
+ * Reversed-Z (RND-4) flips the same range: near → 1, far (or infinity) → 0.
  */
 
 import { describe, expect, it } from 'bun:test';
@@ -52,3 +53,97 @@ describe('orthoZO', () => {
     expect(m.m13).toBe(gl.m13);
   });
 });
+
+describe('perspectiveReversedZO', () => {
+  const near = 0.1;
+  const far = 1000;
+  const m = Mat4.perspectiveReversedZO(Math.PI / 3, 16 / 9, near, far);
+
+  it('maps the near plane to ndc depth 1', () => {
+    expect(ndcDepth(m, -near)).toBeCloseTo(1, 10);
+  });
+
+  it('maps the far plane to ndc depth 0', () => {
+    expect(ndcDepth(m, -far)).toBeCloseTo(0, 10);
+  });
+
+  it('xy mapping matches the forward ZO perspective (only depth differs)', () => {
+    const fwd = Mat4.perspectiveZO(Math.PI / 3, 16 / 9, near, far);
+    expect(m.m00).toBe(fwd.m00);
+    expect(m.m05).toBe(fwd.m05);
+    expect(m.m11).toBe(-1);
+  });
+});
+
+describe('perspectiveInfiniteReversedZO', () => {
+  const near = 0.1;
+  const m = Mat4.perspectiveInfiniteReversedZO(Math.PI / 3, 16 / 9, near);
+
+  it('maps the near plane to ndc depth 1', () => {
+    expect(ndcDepth(m, -near)).toBeCloseTo(1, 10);
+  });
+
+  it('approaches ndc depth 0 at infinity without ever clipping', () => {
+    const d = ndcDepth(m, -1e12);
+    expect(d).toBeGreaterThan(0);
+    expect(d).toBeCloseTo(0, 10);
+  });
+
+  it('keeps planetary distances apart in an f32 depth buffer', () => {
+    // 10 m apart at 1000 km: forward ZO (far = 1e7) rounds both to 1.0 in f32;
+    // reversed infinite keeps them distinct (float exponent range sits at 0).
+    const fwd = Mat4.perspectiveZO(Math.PI / 3, 16 / 9, near, 1e7);
+    expect(Math.fround(ndcDepth(fwd, -1e6))).toBe(Math.fround(ndcDepth(fwd, -1e6 - 10)));
+    expect(Math.fround(ndcDepth(m, -1e6))).not.toBe(Math.fround(ndcDepth(m, -1e6 - 10)));
+  });
+});
+
+describe('orthoReversedZO', () => {
+  const m = Mat4.orthoReversedZO(-10, 10, -5, 5, 0.5, 100);
+
+  it('maps near → 1 and far → 0', () => {
+    expect(ndcDepth(m, -0.5)).toBeCloseTo(1, 10);
+    expect(ndcDepth(m, -100)).toBeCloseTo(0, 10);
+  });
+
+  it('xy mapping matches the forward ZO ortho (only depth differs)', () => {
+    const fwd = Mat4.orthoZO(-10, 10, -5, 5, 0.5, 100);
+    expect(m.m00).toBe(fwd.m00);
+    expect(m.m05).toBe(fwd.m05);
+    expect(m.m12).toBe(fwd.m12);
+    expect(m.m13).toBe(fwd.m13);
+  });
+});
+
+describe('depth linearisation', () => {
+  const near = 0.1;
+  const far = 1000;
+  const projections: [string, Mat4][] = [
+    ['perspective', Mat4.perspective(1, 1.5, near, far)],
+    ['perspectiveZO', Mat4.perspectiveZO(1, 1.5, near, far)],
+    ['perspectiveReversedZO', Mat4.perspectiveReversedZO(1, 1.5, near, far)],
+    ['perspectiveInfiniteReversedZO', Mat4.perspectiveInfiniteReversedZO(1, 1.5, near)],
+    ['orthoZO', Mat4.orthoZO(-1, 1, -1, 1, near, far)],
+    ['orthoReversedZO', Mat4.orthoReversedZO(-1, 1, -1, 1, near, far)],
+  ];
+
+  for (const [name, m] of projections) {
+    it(`${name}: ndcDepthFromViewZ matches the projection`, () => {
+      for (const z of [-near, -1, -37.5, -far]) {
+        expect(m.ndcDepthFromViewZ(z)).toBeCloseTo(ndcDepth(m, z), 10);
+      }
+    });
+
+    it(`${name}: viewZFromNdcDepth inverts it`, () => {
+      for (const z of [-near, -1, -37.5, -far]) {
+        expect(m.viewZFromNdcDepth(m.ndcDepthFromViewZ(z)) / z).toBeCloseTo(1, 8);
+      }
+    });
+  }
+
+  it('reversed infinite depth 0 is infinitely far', () => {
+    const m = Mat4.perspectiveInfiniteReversedZO(1, 1, near);
+    expect(m.viewZFromNdcDepth(0)).toBe(-Infinity);
+    expect(m.viewZFromNdcDepth(1)).toBeCloseTo(-near, 10);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Tests for Rect and Quadtree — Rect mirrors AABB; quadtree queries are checked against brute force
+ */
+
+import { describe, expect, it } from 'bun:test';
+import { Quadtree, Rect, Vec2 } from '../src';
+import { collect, rng } from './helpers';
+
+function scatter(count: number, seed: number): Rect[] {
+  const next = rng(seed);
+  const rects: Rect[] = [];
+  for (let i = 0; i < count; i++) {
+    rects.push(Rect.fromXYWH(next() * 1900, next() * 1060, 4 + next() * next() * 200, 4 + next() * 40));
+  }
+  return rects;
+}
+
+describe('Rect', () => {
+  it('should start empty and grow by points', () => {
+    const r = new Rect();
+    expect(r.isEmpty()).toBe(true);
+    r.expandByPoint(1, 2).expandByPointVec(new Vec2(-3, 5));
+    expect(r.equals(Rect.fromMinMax(-3, 2, 1, 5))).toBe(true);
+    expect(r.getArea()).toBe(12);
+  });
+
+  it('should union, intersect and expand', () => {
+    const a = Rect.fromMinMax(0, 0, 4, 4);
+    const b = Rect.fromXYWH(2, 2, 4, 4);
+    expect(Rect.union(a, b).equals(Rect.fromMinMax(0, 0, 6, 6))).toBe(true);
+    expect(Rect.intersection(a, b).equals(Rect.fromMinMax(2, 2, 4, 4))).toBe(true);
+    expect(a.clone().intersect(Rect.fromMinMax(10, 10, 11, 11)).isEmpty()).toBe(true);
+    expect(a.clone().expandByScalar(1).equals(Rect.fromMinMax(-1, -1, 5, 5))).toBe(true);
+  });
+
+  it('should test containment and distance', () => {
+    const r = Rect.fromCenterExtents(0, 0, 2, 1);
+    expect(r.containsPoint(2, 1)).toBe(true);
+    expect(r.containsPoint(2.1, 0)).toBe(false);
+    expect(r.containsRect(Rect.fromMinMax(-1, -1, 1, 1))).toBe(true);
+    expect(r.intersectsRect(Rect.fromMinMax(2, 1, 3, 3))).toBe(true);
+    expect(r.distanceToPoint(5, 5)).toBeCloseTo(5, 10);
+    expect(r.clampPoint(5, -5).equals(new Vec2(2, -1))).toBe(true);
+  });
+});
+
+describe('Quadtree', () => {
+  const screen = Rect.fromMinMax(0, 0, 2048, 2048);
+
+  describe('items', () => {
+    it('should split, keep straddlers in the parent and merge back', () => {
+      const tree = new Quadtree(screen, 4);
+      for (let i = 0; i < 20; i++) tree.insert(i, Rect.fromXYWH(10 + i * 5, 10, 2, 2));
+      tree.insert(100, Rect.fromMinMax(1000, 1000, 1100, 1100)); // Straddles the root's centre lines
+      expect(tree.count).toBe(21);
+      expect(collect((cb) => tree.queryPoint(1024, 1024, cb))).toEqual([100]);
+
+      for (let i = 0; i < 20; i++) tree.remove(i);
+      expect(tree.count).toBe(1);
+      expect(collect((cb) => tree.queryRect(screen, cb))).toEqual([100]);
+    });
+
+    it('should reject negative and fractional ids without touching count', () => {
+      const tree = new Quadtree(screen, 4);
+      const rect = Rect.fromXYWH(10, 10, 2, 2);
+      tree.insert(2, rect);
+      for (const id of [-1, 0.5, 1.5]) {
+        expect(tree.has(id)).toBe(false);
+        tree.insert(id, rect).update(id, rect);
+        expect(tree.remove(id)).toBe(false);
+      }
+      expect(tree.count).toBe(1);
+      expect(collect((cb) => tree.queryRect(screen, cb))).toEqual([2]);
+    });
+
+    it('should move items on update', () => {
+      const tree = new Quadtree(screen, 2);
+      for (let i = 0; i < 10; i++) tree.insert(i, Rect.fromXYWH(i * 200, i * 200, 10, 10));
+      tree.update(3, Rect.fromXYWH(1900, 50, 10, 10));
+      expect(tree.getRect(3).equals(Rect.fromXYWH(1900, 50, 10, 10))).toBe(true);
+      expect(collect((cb) => tree.queryPoint(1905, 55, cb))).toEqual([3]);
+      expect(collect((cb) => tree.queryPoint(605, 605, cb))).toEqual([]);
+    });
+  });
+
+  describe('queries', () => {
+    const rects = scatter(3000, 0x55aa55aa);
+    const tree = new Quadtree(screen, 8, 10);
+    rects.forEach((r, id) => tree.insert(id, r));
+    for (let i = 0; i < rects.length; i += 5) {
+      rects[i].translate(37, -21);
+      tree.update(i, rects[i]);
+    }
+
+    it('should match brute force for viewport queries', () => {
+      const viewport = Rect.fromXYWH(300, 200, 640, 360);
+      const expected = rects.map((r, id) => (r.intersectsRect(viewport) ? id : -1)).filter((id) => id >= 0);
+      expect(collect((cb) => tree.queryRect(viewport, cb))).toEqual(expected);
+    });
+
+    it('should match brute force for point queries', () => {
+      for (const [x, y] of [[500, 500], [10, 1000], [1800, 20], [1024, 1024]]) {
+        const expected = rects.map((r, id) => (r.containsPoint(x, y) ? id : -1)).filter((id) => id >= 0);
+        expect(collect((cb) => tree.queryPointVec(new Vec2(x, y), cb))).toEqual(expected);
+      }
+    });
+
+    it('should find the nearest item', () => {
+      for (const [x, y] of [[-50, -50], [1000, 700], [2100, 300], [333, 1999]]) {
+        let best = Infinity;
+        rects.forEach((r) => { best = Math.min(best, r.distanceToPoint(x, y)); });
+        const id = tree.nearest(x, y);
+        expect(rects[id].distanceToPoint(x, y)).toBeCloseTo(best, 9);
+      }
+      expect(tree.nearest(-5000, -5000, 10)).toBe(-1);
+    });
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Tests for quaternion splines — squad and glTF cubic spline, and keyframe track sampling
+ */
+
+import { describe, expect, it } from 'bun:test';
+import { Quat, QuatInterpolation, Vec3, sampleQuatKeyframes } from '../src';
+
+const up = new Vec3(0, 1, 0);
+
+function pack(keys: Quat[]): Float32Array {
+  const values = new Float32Array(keys.length * 4);
+  keys.forEach((q, i) => values.set([q.x, q.y, q.z, q.w], i * 4));
+  return values;
+}
+
+/** Angle between two rotations. */
+function angle(a: Quat, b: Quat): number {
+  return 2 * Math.acos(Math.min(1, Math.abs(a.dot(b))));
+}
+
+describe('squad', () => {
+  const keys = [
+    Quat.identity(),
+    Quat.fromAxisAngle(up, 0.9),
+    Quat.fromAxisAngle(new Vec3(1, 0, 0), 0.6).multiply(Quat.fromAxisAngle(up, 1.2)),
+    Quat.fromAxisAngle(new Vec3(0, 0, 1), -0.4),
+  ];
+  const times = [0, 1, 2, 3];
+  const values = pack(keys);
+
+  it('should pass through the keys', () => {
+    const a = Quat.squadControlPoint(keys[0], keys[1], keys[2]);
+    const b = Quat.squadControlPoint(keys[1], keys[2], keys[3]);
+    expect(Quat.squad(keys[1], a, b, keys[2], 0).equals(keys[1], 1e-12)).toBe(true);
+    expect(Quat.squad(keys[1], a, b, keys[2], 1).equals(keys[2], 1e-12)).toBe(true);
+  });
+
+  it('should reduce to slerp for keys on one great circle at constant rate', () => {
+    const even = [0, 0.5, 1, 1.5].map((r) => Quat.fromAxisAngle(up, r));
+    const a = Quat.squadControlPoint(even[0], even[1], even[2]);
+    const b = Quat.squadControlPoint(even[1], even[2], even[3]);
+    expect(Quat.squad(even[1], a, b, even[2], 0.3).equals(Quat.fromAxisAngle(up, 0.65), 1e-9)).toBe(true);
+  });
+
+  it('should have no velocity kink at keys, unlike linear', () => {
+    const h = 1e-4;
+    const kink = (mode: QuatInterpolation): number => {
+      const before = sampleQuatKeyframes(times, values, 2 - h, mode, new Quat());
+      const at = sampleQuatKeyframes(times, values, 2, mode, new Quat());
+      const after = sampleQuatKeyframes(times, values, 2 + h, mode, new Quat());
+      // World angular velocities (as half-angle vectors) on each side of the key
+      const w0 = Quat.log(Quat.multiply(at, Quat.conjugate(before)));
+      const w1 = Quat.log(Quat.multiply(after, Quat.conjugate(at)));
+      return Math.hypot(w1.x - w0.x, w1.y - w0.y, w1.z - w0.z) / h;
+    };
+    expect(kink(QuatInterpolation.Squad)).toBeLessThan(1e-2);
+    expect(kink(QuatInterpolation.Linear)).toBeGreaterThan(0.1);
+  });
+
+  it('should ignore sign flips between stored keys', () => {
+    const flipped = keys.map((q, i) => (i % 2 === 1 ? new Quat(-q.x, -q.y, -q.z, -q.w) : q));
+    const q = sampleQuatKeyframes(times, pack(flipped), 1.4, QuatInterpolation.Squad, new Quat());
+    const ref = sampleQuatKeyframes(times, values, 1.4, QuatInterpolation.Squad, new Quat());
+    expect(Math.abs(q.dot(ref))).toBeCloseTo(1, 6);
+  });
+});
+
+describe('cubicSpline', () => {
+  it('should follow a constant-rate rotation given its exact tangents', () => {
+    // q(t) = rotation of ω·t about up; dq/dt = ½·(0, ω·up)·q
+    const omega = 1.5;
+    const at = (t: number) => Quat.fromAxisAngle(up, omega * t);
+    const tangent = (t: number) => Quat.multiply(new Quat(0, 0.5 * omega, 0, 0), at(t));
+
+    const q = Quat.cubicSpline(at(0), tangent(0), tangent(0.5), at(0.5), 0.4, 0.5);
+    expect(angle(q, at(0.2))).toBeLessThan(1e-3);
+    expect(Quat.cubicSpline(at(0), tangent(0), tangent(0.5), at(0.5), 1, 0.5).equals(at(0.5), 1e-12)).toBe(true);
+  });
+});
+
+describe('sampleQuatKeyframes', () => {
+  const keys = [Quat.identity(), Quat.fromAxisAngle(up, 1), Quat.fromAxisAngle(up, 1.5)];
+  const times = new Float32Array([0.5, 1.5, 2]);
+  const values = pack(keys);
+
+  it('should clamp outside the track and handle an empty one', () => {
+    const out = new Quat();
+    expect(sampleQuatKeyframes(times, values, -3, QuatInterpolation.Linear, out)).toBe(out);
+    expect(out.equals(keys[0], 1e-7)).toBe(true);
+    expect(sampleQuatKeyframes(times, values, 9, QuatInterpolation.Squad, out).equals(keys[2], 1e-7)).toBe(true);
+    expect(sampleQuatKeyframes([], [], 1, QuatInterpolation.Linear, out).equals(Quat.identity())).toBe(true);
+  });
+
+  it('should hold keys for step and slerp for linear', () => {
+    expect(sampleQuatKeyframes(times, values, 1.49, QuatInterpolation.Step, new Quat()).equals(keys[0], 1e-7)).toBe(true);
+    expect(sampleQuatKeyframes(times, values, 1.5, QuatInterpolation.Step, new Quat()).equals(keys[1], 1e-7)).toBe(true);
+    const q = sampleQuatKeyframes(times, values, 1.75, QuatInterpolation.Linear, new Quat());
+    expect(q.equals(Quat.fromAxisAngle(up, 1.25), 1e-6)).toBe(true);
+  });
+
+  it('should read glTF cubic-spline triplets', () => {
+    // Zero tangents: in-tangent, value, out-tangent per key
+    const cubic = new Float32Array(keys.length * 12);
+    keys.forEach((q, i) => cubic.set([q.x, q.y, q.z, q.w], i * 12 + 4));
+    const q = sampleQuatKeyframes(times, cubic, 1.75, QuatInterpolation.CubicSpline, new Quat());
+    const expected = Quat.cubicSpline(keys[1], new Quat(0, 0, 0, 0), new Quat(0, 0, 0, 0), keys[2], 0.5, 0.5);
+    expect(q.equals(expected, 1e-6)).toBe(true);
+    expect(sampleQuatKeyframes(times, cubic, 2, QuatInterpolation.CubicSpline, new Quat()).equals(keys[2], 1e-7)).toBe(true);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Tests for SpatialHashGrid — id bookkeeping, range queries against brute force, 3D-DDA
+ */
+
+import { describe, expect, it } from 'bun:test';
+import { AABB, Ray, SpatialHashGrid, Vec3 } from '../src';
+import { collect, rng } from './helpers';
+
+function cloud(count: number, seed: number, offset: number): Vec3[] {
+  const random = rng(seed);
+  const next = (): number => random() * 2 - 1;
+  const points: Vec3[] = [];
+  for (let i = 0; i < count; i++) points.push(new Vec3(offset + next() * 50, next() * 50, offset + next() * 50));
+  return points;
+}
+
+describe('SpatialHashGrid', () => {
+  describe('entries', () => {
+    it('should insert, update and remove by id', () => {
+      const grid = new SpatialHashGrid(2);
+      grid.insert(7, 1, 1, 1).insert(3, -5, 0, 0);
+      expect(grid.count).toBe(2);
+      expect(grid.has(7)).toBe(true);
+      expect(grid.has(4)).toBe(false);
+
+      grid.update(7, 10.5, 0, 0);
+      expect(grid.getPosition(7).equals(new Vec3(10.5, 0, 0))).toBe(true);
+      expect(collect((cb) => grid.queryCell(5, 0, 0, cb))).toEqual([7]);
+      expect(collect((cb) => grid.queryCell(0, 0, 0, cb))).toEqual([]);
+
+      expect(grid.remove(7)).toBe(true);
+      expect(grid.remove(7)).toBe(false);
+      expect(grid.count).toBe(1);
+      expect(collect((cb) => grid.queryRadius(0, 0, 0, 100, cb))).toEqual([3]);
+    });
+
+    it('should reject negative and fractional ids without touching count', () => {
+      const grid = new SpatialHashGrid(2);
+      grid.insert(0, 1, 1, 1);
+      expect(grid.has(-1)).toBe(false);
+      expect(grid.has(0.5)).toBe(false);
+      expect(grid.remove(-1)).toBe(false);
+      expect(grid.remove(0.5)).toBe(false);
+      grid.insert(-1, 0, 0, 0).insert(1.5, 0, 0, 0);
+      expect(grid.count).toBe(1);
+      expect(collect((cb) => grid.queryRadius(0, 0, 0, 100, cb))).toEqual([0]);
+    });
+
+    it('should floor negative coordinates into cells', () => {
+      const grid = new SpatialHashGrid(1);
+      expect(grid.cellOf(new Vec3(-0.5, 0.5, -1)).equals(new Vec3(-1, 0, -1))).toBe(true);
+      grid.insert(0, -0.5, 0.5, -1);
+      expect(collect((cb) => grid.queryCell(-1, 0, -1, cb))).toEqual([0]);
+    });
+
+    it('should survive hash collisions in a tiny table', () => {
+      const grid = new SpatialHashGrid(1, 2);
+      for (let i = 0; i < 20; i++) grid.insert(i, i, 0, 0);
+      expect(collect((cb) => grid.queryCell(4, 0, 0, cb))).toEqual([4]);
+      expect(collect((cb) => grid.queryRadius(10, 0, 0, 1.5, cb))).toEqual([9, 10, 11]);
+    });
+  });
+
+  describe('range queries', () => {
+    // Camera-relative (around 0) and absolute (around 1e6) placements behave the same
+    for (const offset of [0, 1e6]) {
+      const points = cloud(1000, 0x2468ace, offset);
+      const grid = new SpatialHashGrid(4, 256);
+      points.forEach((p, id) => grid.insertVec(id, p));
+
+      it(`should match brute force for radius queries (offset ${offset})`, () => {
+        const center = new Vec3(offset + 5, -3, offset + 8);
+        const expected = points.map((p, id) => (Vec3.distanceSq(p, center) <= 144 ? id : -1)).filter((id) => id >= 0);
+        expect(expected.length).toBeGreaterThan(0);
+        expect(collect((cb) => grid.queryRadiusVec(center, 12, cb))).toEqual(expected);
+      });
+
+      it(`should match brute force for AABB queries (offset ${offset})`, () => {
+        const box = AABB.fromMinMax(offset - 20, -10, offset - 5, offset + 3, 30, offset + 25);
+        const expected = points.map((p, id) => (box.containsPointVec(p) ? id : -1)).filter((id) => id >= 0);
+        expect(collect((cb) => grid.queryAABB(box, cb))).toEqual(expected);
+      });
+    }
+
+    it('should fall back to a table scan for huge ranges', () => {
+      const grid = new SpatialHashGrid(0.01, 16);
+      for (let i = 0; i < 10; i++) grid.insert(i, i, 0, 0);
+      expect(collect((cb) => grid.queryRadius(0, 0, 0, 4.5, cb))).toEqual([0, 1, 2, 3, 4]);
+    });
+
+    it('should stop when the callback returns false', () => {
+      const grid = new SpatialHashGrid(1);
+      for (let i = 0; i < 10; i++) grid.insert(i, 0.5, 0.5, 0.5);
+      let seen = 0;
+      expect(grid.queryRadius(0.5, 0.5, 0.5, 1, () => ++seen < 3)).toBe(3);
+    });
+  });
+
+  describe('traverseRay', () => {
+    it('should visit pierced cells in order', () => {
+      const grid = new SpatialHashGrid(1);
+      const cells: string[] = [];
+      const ray = Ray.create(0.5, 0.5, 0.5, 1, 0, 0);
+      grid.traverseRay(ray, 3.2, (x, y, z) => { cells.push(`${x},${y},${z}`); });
+      expect(cells).toEqual(['0,0,0', '1,0,0', '2,0,0', '3,0,0']);
+    });
+
+    it('should step diagonally and report entry/exit distances', () => {
+      const grid = new SpatialHashGrid(2);
+      const visited: number[][] = [];
+      const ray = Ray.create(-1, -1, 1, 1, 1, 0);
+      grid.traverseRay(ray, 10, (x, y, z, tEnter, tExit) => {
+        expect(tExit).toBeGreaterThanOrEqual(tEnter);
+        visited.push([x, y, z]);
+      });
+      expect(visited[0]).toEqual([-1, -1, 0]);
+      // Every step moves to a face- or edge-adjacent cell
+      for (let i = 1; i < visited.length; i++) {
+        const d = Math.abs(visited[i][0] - visited[i - 1][0]) + Math.abs(visited[i][1] - visited[i - 1][1]);
+        expect(d).toBe(1);
+      }
+      expect(visited[visited.length - 1]).toEqual([3, 3, 0]);
+    });
+
+    it('should find the first entry along the ray', () => {
+      const grid = new SpatialHashGrid(1);
+      grid.insert(1, 5.5, 0.5, 0.5).insert(2, 2.5, 0.5, 0.5).insert(3, 2.5, 3.5, 0.5);
+      let found = -1;
+      grid.traverseRay(Ray.create(0.5, 0.5, 0.5, 1, 0, 0), 100, (x, y, z) => {
+        grid.queryCell(x, y, z, (id) => { found = id; return false; });
+        return found < 0;
+      });
+      expect(found).toBe(2);
+    });
+
+    it('should visit nothing for a non-finite max distance instead of walking forever', () => {
+      const grid = new SpatialHashGrid(1);
+      const ray = Ray.create(0.5, 0.5, 0.5, 1, 0, 0);
+      let calls = 0;
+      expect(grid.traverseRay(ray, Infinity, () => { calls++; })).toBe(0);
+      expect(grid.traverseRay(ray, NaN, () => { calls++; })).toBe(0);
+      expect(calls).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Tests for Sphere — fitting, merging and overlap tests against AABB / Sphere
+ */
+
+import { describe, expect, it } from 'bun:test';
+import { AABB, Mat4, Sphere, Vec3 } from '../src';
+import { rng } from './helpers';
+
+/** Deterministic point cloud (xorshift) — no Math.random in tests. */
+function cloud(count: number, seed: number): Vec3[] {
+  const random = rng(seed);
+  const next = (): number => random() * 2 - 1;
+  const points: Vec3[] = [];
+  for (let i = 0; i < count; i++) points.push(new Vec3(next() * 10, next() * 3, next() * 6 + 20));
+  return points;
+}
+
+describe('Sphere', () => {
+  describe('construction', () => {
+    it('should start empty', () => {
+      expect(new Sphere().isEmpty()).toBe(true);
+      expect(Sphere.fromPoints([]).isEmpty()).toBe(true);
+    });
+
+    it('should circumscribe an AABB', () => {
+      const s = Sphere.fromAABB(AABB.fromMinMax(0, 0, 0, 2, 4, 4));
+      expect(s.center.equals(new Vec3(1, 2, 2))).toBe(true);
+      expect(s.radius).toBeCloseTo(3, 10);
+    });
+  });
+
+  describe('fitting', () => {
+    it('should fit the cube corners exactly', () => {
+      const corners: Vec3[] = [];
+      for (let i = 0; i < 8; i++) corners.push(new Vec3(i & 1 ? 1 : -1, i & 2 ? 1 : -1, i & 4 ? 1 : -1));
+      const s = Sphere.fromPointsMinimal(corners);
+      expect(s.center.equals(new Vec3(0, 0, 0), 1e-9)).toBe(true);
+      expect(s.radius).toBeCloseTo(Math.sqrt(3), 9);
+    });
+
+    it('should use the longest side as diameter for an obtuse triangle', () => {
+      const s = Sphere.fromPointsMinimal([new Vec3(-4, 0, 0), new Vec3(4, 0, 0), new Vec3(0, 1, 0)]);
+      expect(s.center.equals(new Vec3(0, 0, 0), 1e-9)).toBe(true);
+      expect(s.radius).toBeCloseTo(4, 9);
+    });
+
+    it('should fit the circumcircle of an acute triangle', () => {
+      const s = Sphere.fromPointsMinimal([new Vec3(1, 0, 0), new Vec3(0, 1, 0), new Vec3(0, 0, 1)]);
+      expect(s.center.equals(new Vec3(1 / 3, 1 / 3, 1 / 3), 1e-9)).toBe(true);
+      expect(s.radius).toBeCloseTo(Math.sqrt(2 / 3), 9);
+    });
+
+    it('should enclose every point, exact no larger than approximate', () => {
+      const points = cloud(500, 1234567);
+      const fast = Sphere.fromPoints(points);
+      const exact = Sphere.fromPointsMinimal(points);
+      for (const p of points) {
+        expect(fast.distanceToPointVec(p)).toBeLessThanOrEqual(1e-9);
+        expect(exact.distanceToPointVec(p)).toBeLessThanOrEqual(1e-6);
+      }
+      expect(exact.radius).toBeLessThanOrEqual(fast.radius + 1e-9);
+      expect(exact.radius).toBeGreaterThan(fast.radius * 0.75);
+    });
+
+    it('should be deterministic', () => {
+      const points = cloud(200, 42);
+      expect(Sphere.fromPointsMinimal(points).equals(Sphere.fromPointsMinimal(points), 0)).toBe(true);
+    });
+  });
+
+  describe('growth', () => {
+    it('should expand by point minimally', () => {
+      const s = Sphere.create(0, 0, 0, 1);
+      s.expandByPoint(3, 0, 0);
+      expect(s.center.x).toBeCloseTo(1, 10);
+      expect(s.radius).toBeCloseTo(2, 10);
+      expect(s.containsPoint(-1, 0, 0)).toBe(true);
+    });
+
+    it('should union two spheres', () => {
+      const s = Sphere.create(0, 0, 0, 1).union(Sphere.create(10, 0, 0, 2));
+      expect(s.center.x).toBeCloseTo(5.5, 10);
+      expect(s.radius).toBeCloseTo(6.5, 10);
+    });
+
+    it('should keep the larger sphere when it already contains the other', () => {
+      const s = Sphere.create(0, 0, 0, 10).union(Sphere.create(1, 1, 1, 1));
+      expect(s.equals(Sphere.create(0, 0, 0, 10))).toBe(true);
+      expect(Sphere.create(1, 1, 1, 1).union(Sphere.create(0, 0, 0, 10)).radius).toBe(10);
+    });
+  });
+
+  describe('transform', () => {
+    it('should scale the radius by the largest axis scale', () => {
+      const m = Mat4.fromTranslation(5, 0, 0).scale(2, 3, 1);
+      const s = Sphere.create(1, 0, 0, 1).transform(m);
+      expect(s.center.equals(new Vec3(7, 0, 0))).toBe(true);
+      expect(s.radius).toBeCloseTo(3, 10);
+    });
+
+    it('should stay conservative under rotation and scale', () => {
+      const m = Mat4.fromRotationY(0.7).scale(1, 4, 2);
+      const s = Sphere.create(0, 0, 0, 1);
+      const t = s.clone().transform(m);
+      for (const p of [new Vec3(1, 0, 0), new Vec3(0, 1, 0), new Vec3(0, 0, -1)]) {
+        expect(t.containsPointVec(m.transformVec3(p))).toBe(true);
+      }
+    });
+  });
+
+  describe('tests', () => {
+    it('should intersect spheres', () => {
+      const a = Sphere.create(0, 0, 0, 1);
+      expect(a.intersectsSphere(Sphere.create(1.9, 0, 0, 1))).toBe(true);
+      expect(a.intersectsSphere(Sphere.create(2.1, 0, 0, 1))).toBe(false);
+      expect(Sphere.create(0, 0, 0, 5).containsSphere(Sphere.create(1, 0, 0, 1))).toBe(true);
+    });
+
+    it('should intersect AABBs', () => {
+      const box = AABB.fromMinMax(0, 0, 0, 1, 1, 1);
+      expect(Sphere.create(2, 0.5, 0.5, 1.1).intersectsAABB(box)).toBe(true);
+      expect(Sphere.create(2, 2, 2, 1.5).intersectsAABB(box)).toBe(false); // corner distance √3
+      expect(Sphere.create(2, 2, 2, 1.8).intersectsAABB(box)).toBe(true);
+    });
+
+    it('should give its bounding AABB', () => {
+      const box = Sphere.create(1, 2, 3, 2).getBoundingAABB();
+      expect(box.equals(AABB.fromMinMax(-1, 0, 1, 3, 4, 5))).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Tests for Transform and TransformArray — lazy world matrices, world-space setters,
+ * reparenting and the flat single-pass update
+ */
+
+import { describe, expect, it } from 'bun:test';
+import { Mat4, Quat, Transform, TransformArray, Vec3 } from '../src';
+
+const expectVec = (v: Vec3, x: number, y: number, z: number, digits: number = 10) => {
+  expect(v.x).toBeCloseTo(x, digits);
+  expect(v.y).toBeCloseTo(y, digits);
+  expect(v.z).toBeCloseTo(z, digits);
+};
+
+/** root (translated, rotated, uniformly scaled) → child → grandchild */
+function chain(): [Transform, Transform, Transform] {
+  const root = new Transform().setPosition(10, 0, -5).setRotation(Quat.fromAxisAngle(new Vec3(0, 1, 0), Math.PI / 2)).setScale(2, 2, 2);
+  const child = new Transform().setPosition(1, 2, 3).setRotation(Quat.fromAxisAngle(new Vec3(1, 0, 0), 0.7));
+  const grandchild = new Transform().setPosition(0, 0, 1);
+  child.setParent(root);
+  grandchild.setParent(child);
+  return [root, child, grandchild];
+}
+
+describe('Transform', () => {
+  describe('world matrices', () => {
+    it('should compose parent world with local', () => {
+      const [root, child, grandchild] = chain();
+      const expected = Mat4.multiply(Mat4.multiply(root.getLocalMatrix(), child.getLocalMatrix()), grandchild.getLocalMatrix());
+      expect(grandchild.getWorldMatrix().equals(expected, 1e-12)).toBe(true);
+    });
+
+    it('should propagate changes to descendants and cache otherwise', () => {
+      const [root, , grandchild] = chain();
+      const before = grandchild.getWorldMatrix();
+      expect(grandchild.getWorldMatrix()).toBe(before);
+
+      root.setPosition(0, 100, 0);
+      expect(grandchild.getWorldPosition().y).toBeGreaterThan(90);
+
+      // In-place edit needs markDirty
+      root.position.y = 0;
+      root.markDirty();
+      expect(grandchild.getWorldPosition().y).toBeLessThan(10);
+    });
+  });
+
+  describe('world-space setters', () => {
+    it('should place a node at a world position through a rotated, scaled parent', () => {
+      const [, child, grandchild] = chain();
+      grandchild.setWorldPosition(new Vec3(3, -4, 5));
+      expectVec(grandchild.getWorldPosition(), 3, -4, 5);
+      expect(grandchild.parent).toBe(child);
+    });
+
+    it('should set and read back world rotation', () => {
+      const [, , grandchild] = chain();
+      const q = Quat.fromAxisAngle(new Vec3(1, 2, 3).normalize(), 1.3);
+      grandchild.setWorldRotation(q);
+      expect(Math.abs(grandchild.getWorldRotation().dot(q))).toBeCloseTo(1, 12);
+    });
+
+    it('should look at a target with local +Z', () => {
+      const [, , grandchild] = chain();
+      const target = new Vec3(-20, 7, 3);
+      grandchild.lookAt(target);
+
+      const pos = grandchild.getWorldPosition();
+      const dir = new Vec3(target.x - pos.x, target.y - pos.y, target.z - pos.z).normalize();
+      const forward = grandchild.getWorldRotation().transformVec3(new Vec3(0, 0, 1));
+      expectVec(forward, dir.x, dir.y, dir.z);
+    });
+  });
+
+  describe('setParent', () => {
+    it('should reject cycles', () => {
+      const [root, child, grandchild] = chain();
+      expect(root.setParent(grandchild)).toBe(false);
+      expect(child.setParent(child)).toBe(false);
+      expect(root.parent).toBeNull();
+      expect(child.children).toEqual([grandchild]);
+    });
+
+    it('should keep the world transform when asked to', () => {
+      const [root, child, grandchild] = chain();
+      const before = grandchild.getWorldMatrix().clone();
+
+      expect(grandchild.setParent(root, true)).toBe(true);
+      expect(child.children.length).toBe(0);
+      expect(root.children).toContain(grandchild);
+      expect(grandchild.getWorldMatrix().equals(before, 1e-9)).toBe(true);
+
+      expect(grandchild.setParent(null, true)).toBe(true);
+      expect(grandchild.getWorldMatrix().equals(before, 1e-9)).toBe(true);
+
+      // Without keepWorld the local values are kept and the node moves with its parent
+      grandchild.setParent(root);
+      expect(grandchild.getWorldMatrix().equals(before, 1e-9)).toBe(false);
+    });
+  });
+
+  it('should keep world positions in f64 far from the origin', () => {
+    const root = new Transform().setPosition(1e7, 0, -1e7);
+    const leaf = new Transform().setPosition(0.001, 0.002, 0.003);
+    leaf.setParent(root);
+    const p = leaf.getWorldPosition();
+    expect(p.x - 1e7).toBeCloseTo(0.001, 8);
+    expect(p.z + 1e7).toBeCloseTo(0.003, 8);
+  });
+});
+
+describe('TransformArray', () => {
+  it('should match Transform world matrices after one pass', () => {
+    const nodes = chain();
+    const arr = new TransformArray(1);
+    let parent = -1;
+    for (const n of nodes) {
+      const i = arr.create(parent);
+      arr.setPosition(i, n.position.x, n.position.y, n.position.z);
+      arr.setRotation(i, n.rotation);
+      arr.setScale(i, n.scale.x, n.scale.y, n.scale.z);
+      parent = i;
+    }
+
+    expect(arr.count).toBe(3);
+    expect(arr.updateWorld()).toBe(3);
+    nodes.forEach((n, i) => expect(arr.getWorldMatrix(i).equals(n.getWorldMatrix(), 1e-12)).toBe(true));
+  });
+
+  it('should only update dirty entities and their descendants', () => {
+    const arr = new TransformArray();
+    const a = arr.create();
+    const b = arr.create(a);
+    const c = arr.create();
+    arr.updateWorld();
+    expect(arr.updateWorld()).toBe(0);
+
+    arr.setPosition(a, 1, 2, 3);
+    expect(arr.updateWorld()).toBe(2);
+    expect(arr.worldChanged(b)).toBe(true);
+    expect(arr.worldChanged(c)).toBe(false);
+    expectVec(arr.getWorldPosition(b), 1, 2, 3);
+
+    arr.positions[c * 3] = 5;
+    arr.markDirty(c);
+    expect(arr.updateWorld()).toBe(1);
+    expectVec(arr.getWorldPosition(c), 5, 0, 0);
+  });
+
+  it('should require parents to precede children', () => {
+    const arr = new TransformArray();
+    const a = arr.create();
+    const b = arr.create();
+    expect(arr.create(7)).toBe(-1);
+    expect(arr.setParent(a, b)).toBe(false);
+    expect(arr.setParent(b, a)).toBe(true);
+    expect(arr.getParent(b)).toBe(a);
+  });
+});